@@ -0,0 +1,181 @@
+import { CredentialService } from '@daechanjo/playwright';
+import {
+  RabbitMQModule,
+  TRACE_HEADERS,
+  createInMemoryMicroserviceOptions,
+  inMemoryBroker,
+} from '@daechanjo/rabbitmq';
+import { UtilService } from '@daechanjo/util';
+import { getQueueToken } from '@nestjs/bull';
+import { INestMicroservice, ModuleMetadata } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { Test, TestingModuleBuilder } from '@nestjs/testing';
+
+import { CoupangMessageController } from '../services/coupang/src/api/coupang.message.controller';
+import { CoupangApiService } from '../services/coupang/src/core/coupang.api.service';
+import { CoupangHttpClient } from '../services/coupang/src/core/coupang.http.client';
+import { CoupangService } from '../services/coupang/src/core/coupang.service';
+import { CoupangSignatureService } from '../services/coupang/src/core/coupang.signature.service';
+import { CoupangCrawlerService } from '../services/coupang/src/core/crawler/coupang.crawler.service';
+import {
+  CoupangMockServer,
+  createCoupangMockServer,
+  DEFAULT_MOCK_CREDENTIAL,
+} from '../services/coupang/test/mock/coupang.mock.server';
+import { MailService } from '../services/mail/src/core/mail.service';
+import { MailModule } from '../services/mail/src/mail.module';
+import { OnchMessageController } from '../services/onch/src/api/onch.message.controller';
+import { OnchCrawlerService } from '../services/onch/src/core/crawler/onch.crawler.service';
+import { OnchService } from '../services/onch/src/core/onch.service';
+import { rabbitmqConfig } from '../services/order/src/config/rabbitmq.config';
+import { OrderService } from '../services/order/src/core/order.service';
+
+/**
+ * 주문 → 쿠팡 → 온채널 → 메일 서비스를 인메모리 전송으로 한 프로세스에서 부팅하여
+ * 자동 발주 흐름 전체(메시지 계약, DTO 검증, 응답 봉투, 추적 헤더)를 브로커 없이 검증합니다.
+ *
+ * - 쿠팡: 메시지 컨트롤러 + API 계층을 쿠팡 목 API 서버에 연결 (DB / 크롤러는 대체)
+ * - 온채널: 메시지 컨트롤러 + 발주 결과만 돌려주는 크롤러
+ * - 메일: MailModule 그대로, 메일 발송만 대체
+ *
+ * 각 서비스와 라이브러리가 같은 인메모리 브로커 / Nest 인스턴스를 쓰도록
+ * package.json 의 jest 설정에서 @daechanjo/rabbitmq, @daechanjo/playwright 는 lib 소스로,
+ * @nestjs 등은 e2e 의 node_modules 로 고정합니다.
+ */
+describe('자동 발주 (order → coupang → onch → mail)', () => {
+  const cronId = 'cron-e2e';
+  const apps: INestMicroservice[] = [];
+  let mock: CoupangMockServer;
+
+  const onchCrawlerService = {
+    automaticOrdering: jest.fn(async (_cronId: string, _store: string, orders: any[]) =>
+      orders.flatMap((order) =>
+        order.orderItems.map((item: any) => ({
+          status: 'success',
+          orderId: order.orderId,
+          ordererName: order.orderer.name,
+          receiverName: order.receiver.name,
+          sellerProductName: item.sellerProductName,
+          sellerProductItemName: item.sellerProductItemName,
+          shippingCount: item.shippingCount,
+        })),
+      ),
+    ),
+  };
+  const mailService = { sendSuccessOrders: jest.fn(), sendFailedOrders: jest.fn() };
+  const messageQueue = { on: jest.fn(), off: jest.fn() };
+
+  // 서비스마다 별도의 Nest 앱을 만들고 인메모리 서버로 큐를 수신
+  const boot = async (
+    queue: string,
+    metadata: ModuleMetadata,
+    override: (builder: TestingModuleBuilder) => TestingModuleBuilder = (builder) => builder,
+  ) => {
+    const moduleRef = await override(Test.createTestingModule(metadata)).compile();
+    const app = moduleRef.createNestMicroservice(createInMemoryMicroserviceOptions(queue));
+    await app.listen();
+    apps.push(app);
+    return app;
+  };
+
+  const config = ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true });
+
+  beforeAll(async () => {
+    mock = createCoupangMockServer();
+
+    process.env.RABBITMQ_TRANSPORT = 'memory';
+    process.env.STORE = 'test-store';
+    process.env.COUPANG_VENDOR_ID = DEFAULT_MOCK_CREDENTIAL.vendorId;
+    process.env.COUPANG_API_BASE_URL = await mock.listen();
+    process.env.COUPANG_API_RETRY_DELAY_MS = '1';
+    process.env.COUPANG_API_RATE_LIMIT = '1000';
+
+    await boot('coupang-queue', {
+      imports: [config, RabbitMQModule.forRoot({ serviceName: 'coupang' })],
+      controllers: [CoupangMessageController],
+      providers: [
+        CoupangApiService,
+        CoupangHttpClient,
+        CoupangSignatureService,
+        {
+          provide: CredentialService,
+          useValue: { getCredential: async () => DEFAULT_MOCK_CREDENTIAL },
+        },
+        { provide: CoupangService, useValue: {} },
+        { provide: CoupangCrawlerService, useValue: {} },
+        { provide: getQueueToken('coupang-message-queue'), useValue: messageQueue },
+      ],
+    });
+
+    await boot('onch-queue', {
+      imports: [config, RabbitMQModule.forRoot({ serviceName: 'onch' })],
+      controllers: [OnchMessageController],
+      providers: [
+        { provide: OnchService, useValue: {} },
+        { provide: OnchCrawlerService, useValue: onchCrawlerService },
+        { provide: getQueueToken('onch-message-queue'), useValue: messageQueue },
+      ],
+    });
+
+    await boot('mail-queue', { imports: [MailModule] }, (builder) =>
+      builder.overrideProvider(MailService).useValue(mailService),
+    );
+
+    await boot('order-queue', {
+      imports: [config, RabbitMQModule.forRoot(rabbitmqConfig)],
+      providers: [
+        OrderService,
+        { provide: UtilService, useValue: { generateCronId: () => cronId } },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all(apps.map((app) => app.close()));
+    await mock?.close();
+  });
+
+  it('취소 요청된 주문을 빼고 발주한 뒤 성공 메일을 보낸다', async () => {
+    const orderService = apps[apps.length - 1].get(OrderService);
+    const [first, second, cancelled] = mock.state.orders;
+
+    await orderService.orderCron();
+    // 메일 발송은 setImmediate 이후 emit 되므로 한 틱 기다린 뒤 이벤트 처리 대기
+    await new Promise((resolve) => setImmediate(resolve));
+    await inMemoryBroker.drain();
+
+    // 온채널에는 취소 요청되지 않은 주문만 전달
+    const ordered = onchCrawlerService.automaticOrdering.mock.calls[0][2];
+    expect(ordered.map((order: any) => order.orderId)).toEqual([first.orderId, second.orderId]);
+
+    // 발주한 배송번호만 상품준비중으로 변경
+    expect([first.status, second.status, cancelled.status]).toEqual([
+      'INSTRUCT',
+      'INSTRUCT',
+      'ACCEPT',
+    ]);
+
+    expect(mailService.sendSuccessOrders).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({ orderId: first.orderId, status: 'success' }),
+        expect.objectContaining({ orderId: second.orderId, status: 'success' }),
+      ],
+      'test-store',
+    );
+    expect(mailService.sendFailedOrders).not.toHaveBeenCalled();
+
+    // 모든 메시지가 하나의 크론 실행으로 묶임
+    const messages = inMemoryBroker.getMessages();
+    expect(messages.map((message) => `${message.queue}:${message.pattern}`)).toEqual([
+      'coupang-queue:getCoupangOrderList',
+      'coupang-queue:getCancelRequests',
+      'coupang-queue:acknowledgeOrders',
+      'onch-queue:automaticOrdering',
+      'mail-queue:sendSuccessOrders',
+    ]);
+    expect(messages.every((message) => !message.error)).toBe(true);
+    expect(
+      new Set(messages.map((message) => message.headers[TRACE_HEADERS.correlationId])),
+    ).toEqual(new Set([cronId]));
+  });
+});
@@ -1,4 +1,11 @@
+export * from './playwright.artifact';
+export * from './playwright.credential';
+export * from './playwright.fingerprint';
+export * from './playwright.fixture';
 export * from './playwright.module'
+export * from './playwright.selector';
+export * from './playwright.selector.registry';
 export * from './playwright.service';
+export * from './playwright.session';
 // npx tsc
 // npm publish --access public
\ No newline at end of file
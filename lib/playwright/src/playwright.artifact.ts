@@ -0,0 +1,40 @@
+/**
+ * Playwright 트레이스 기록 방식 (PLAYWRIGHT_TRACE)
+ *
+ * - off: 기록하지 않음 (기본값)
+ * - on: 모든 컨텍스트의 트레이스를 저장
+ * - retain-on-failure: 실패 아티팩트를 수집한 컨텍스트의 트레이스만 저장
+ */
+export type PlaywrightTraceMode = 'off' | 'on' | 'retain-on-failure';
+
+/**
+ * 크롤러 작업 실패 시 수집한 디버깅 자료
+ * 각 경로는 아티팩트 디렉터리 기준 절대 경로이며, 수집에 실패한 항목은 생략됩니다.
+ */
+export interface FailureArtifacts {
+	directory: string;
+	url?: string;
+	screenshotPath?: string;
+	htmlPath?: string;
+	/** 컨텍스트를 해제(releaseContext)할 때 기록되는 트레이스 파일 경로 */
+	tracePath?: string;
+}
+
+/**
+ * 트레이스 기록 방식 문자열을 검증합니다.
+ *
+ * @param value - 환경 변수 값
+ * @returns 알 수 없는 값이면 'off'
+ */
+export function parseTraceMode(value: string | undefined): PlaywrightTraceMode {
+	return value === 'on' || value === 'retain-on-failure' ? value : 'off';
+}
+
+/**
+ * cronId, 작업 이름 등을 파일 / 디렉터리 이름으로 쓸 수 있도록 변환합니다.
+ *
+ * @param name - 변환할 이름
+ */
+export function toArtifactFileName(name: string): string {
+	return name.replace(/[^a-zA-Z0-9가-힣_-]/g, '_');
+}
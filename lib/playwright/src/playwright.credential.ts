@@ -0,0 +1,171 @@
+import { promises as fs } from 'node:fs';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * 온채널 계정 정보
+ */
+export interface OnchCredential {
+	email: string;
+	password: string;
+}
+
+/**
+ * 쿠팡 윙 계정 및 Open API 키
+ */
+export interface CoupangCredential {
+	email: string;
+	password: string;
+	accessKey: string;
+	secretKey: string;
+	vendorId: string;
+}
+
+/**
+ * 플랫폼별 계정 정보 타입
+ */
+export interface PlatformCredentials {
+	onch: OnchCredential;
+	coupang: CoupangCredential;
+}
+
+export type CredentialPlatform = keyof PlatformCredentials;
+
+/**
+ * 스토어 + 플랫폼 단위로 계정 정보를 조회하는 제공자
+ * 기본 제공자 외의 저장소(DB 등)는 CredentialService.setProvider 로 등록합니다.
+ */
+export interface CredentialProvider {
+	getCredential<P extends CredentialPlatform>(
+		platform: P,
+		store: string,
+	): Promise<Partial<PlatformCredentials[P]> | null>;
+}
+
+// 플랫폼별 계정 정보 필드와 환경 변수 이름
+const CREDENTIAL_ENV_KEYS: { [P in CredentialPlatform]: Record<keyof PlatformCredentials[P], string> } = {
+	onch: {
+		email: 'ON_CHANNEL_EMAIL',
+		password: 'ON_CHANNEL_PASSWORD',
+	},
+	coupang: {
+		email: 'COUPANG_EMAIL',
+		password: 'COUPANG_PASSWORD',
+		accessKey: 'COUPANG_ACCESS_KEY',
+		secretKey: 'COUPANG_SECRET_KEY',
+		vendorId: 'COUPANG_VENDOR_ID',
+	},
+};
+
+/**
+ * 환경 변수 기반 계정 정보 제공자
+ *
+ * 스토어 전용 변수 "<이름>_<STORE>" 를 먼저 찾고, 없으면 공용 변수 "<이름>" 을 사용합니다.
+ * 예) store 가 linkedout 이면 COUPANG_ACCESS_KEY_LINKEDOUT → COUPANG_ACCESS_KEY
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+	constructor(private readonly configService: ConfigService) {}
+
+	async getCredential<P extends CredentialPlatform>(
+		platform: P,
+		store: string,
+	): Promise<Partial<PlatformCredentials[P]>> {
+		const suffix = store.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+		const credential: Record<string, string | undefined> = {};
+
+		for (const [field, envKey] of Object.entries<string>(CREDENTIAL_ENV_KEYS[platform])) {
+			credential[field] =
+				this.configService.get<string>(`${envKey}_${suffix}`) ?? this.configService.get<string>(envKey);
+		}
+
+		return credential as Partial<PlatformCredentials[P]>;
+	}
+}
+
+/**
+ * JSON 파일 기반 계정 정보 제공자
+ *
+ * @example
+ * {
+ *   "linkedout": {
+ *     "onch": { "email": "...", "password": "..." },
+ *     "coupang": { "email": "...", "password": "...", "accessKey": "...", "secretKey": "...", "vendorId": "..." }
+ *   }
+ * }
+ */
+export class JsonFileCredentialProvider implements CredentialProvider {
+	private credentials?: Promise<Record<string, Partial<PlatformCredentials>>>;
+
+	constructor(private readonly filePath: string) {}
+
+	async getCredential<P extends CredentialPlatform>(
+		platform: P,
+		store: string,
+	): Promise<Partial<PlatformCredentials[P]> | null> {
+		// 최초 조회 시 한 번만 파일을 읽음
+		this.credentials ??= fs
+			.readFile(this.filePath, 'utf8')
+			.then((content) => JSON.parse(content));
+
+		const credentials = await this.credentials;
+		return (credentials[store]?.[platform] as Partial<PlatformCredentials[P]>) ?? null;
+	}
+}
+
+/**
+ * 스토어별 계정 정보 조회 서비스
+ *
+ * 한 배포에서 여러 쿠팡 / 온채널 계정을 운영할 수 있도록
+ * PlaywrightService 의 로그인과 쿠팡 API 서명이 이 서비스를 통해 계정 정보를 조회합니다.
+ * CREDENTIALS_FILE 환경 변수가 있으면 JSON 파일, 없으면 환경 변수에서 조회합니다.
+ */
+@Injectable()
+export class CredentialService {
+	private provider: CredentialProvider;
+
+	constructor(private readonly configService: ConfigService) {
+		const filePath = this.configService.get<string>('CREDENTIALS_FILE');
+		this.provider = filePath
+			? new JsonFileCredentialProvider(filePath)
+			: new EnvCredentialProvider(this.configService);
+	}
+
+	/**
+	 * 계정 정보 제공자를 교체합니다. (예: DB 기반 제공자)
+	 *
+	 * @param provider - 사용할 계정 정보 제공자
+	 */
+	setProvider(provider: CredentialProvider): void {
+		this.provider = provider;
+	}
+
+	/**
+	 * 스토어의 플랫폼 계정 정보를 조회합니다.
+	 *
+	 * @param platform - 플랫폼 ('onch', 'coupang')
+	 * @param store - 스토어 식별자
+	 * @returns 모든 필드가 채워진 계정 정보
+	 * @throws 계정 정보가 없거나 비어 있는 필드가 있으면 에러 발생
+	 */
+	async getCredential<P extends CredentialPlatform>(
+		platform: P,
+		store: string,
+	): Promise<PlatformCredentials[P]> {
+		const credential = await this.provider.getCredential(platform, store);
+		if (!credential) {
+			throw new Error(`"${store}" 스토어의 ${platform} 계정 정보가 없습니다.`);
+		}
+
+		const missingFields = Object.keys(CREDENTIAL_ENV_KEYS[platform]).filter(
+			(field) => !(credential as Record<string, unknown>)[field],
+		);
+		if (missingFields.length > 0) {
+			throw new Error(
+				`"${store}" 스토어의 ${platform} 계정 정보가 비어 있습니다: ${missingFields.join(', ')}`,
+			);
+		}
+
+		return credential as PlatformCredentials[P];
+	}
+}
@@ -0,0 +1,105 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { Page } from 'playwright';
+
+import { recordFixture } from './playwright.fixture';
+import { PlaywrightModule } from './playwright.module';
+import { PlaywrightService } from './playwright.service';
+import { SELECTOR_REGISTRY, SelectorPageDefinition, SelectorSite } from './playwright.selector.registry';
+
+/**
+ * 실제 세션에서 쿠팡 윙 / 온채널 페이지의 HTML 픽스처를 기록하는 명령
+ *
+ * 사용법:
+ *   npm run fixtures:record -- --site onch [--store <스토어>] [--out <디렉터리>] [--url <추가 URL> ...]
+ *
+ * - 셀렉터 레지스트리에 url 이 등록된 페이지를 모두 기록하고, --url 로 상세 페이지 등을 추가합니다.
+ * - 로그인 계정은 PlaywrightService 와 같은 방식(CredentialService)으로 조회합니다.
+ * - 출력 디렉터리 기본값은 PLAYWRIGHT_FIXTURE_DIR 또는 ./fixtures 입니다.
+ */
+
+@Module({
+	imports: [ConfigModule.forRoot({ isGlobal: true }), PlaywrightModule],
+})
+class FixtureRecorderModule {}
+
+interface RecorderArgs {
+	site: SelectorSite;
+	store: string;
+	out: string;
+	urls: string[];
+}
+
+function parseArgs(argv: string[]): RecorderArgs {
+	const values: Record<string, string[]> = {};
+	for (let i = 0; i < argv.length; i++) {
+		if (!argv[i].startsWith('--')) continue;
+		const key = argv[i].slice(2);
+		(values[key] ??= []).push(argv[++i]);
+	}
+
+	const site = values.site?.[0];
+	if (site !== 'coupang' && site !== 'onch') {
+		throw new Error('--site 는 coupang 또는 onch 여야 합니다.');
+	}
+
+	return {
+		site,
+		store: values.store?.[0] ?? process.env.STORE ?? 'default',
+		out: values.out?.[0] ?? process.env.PLAYWRIGHT_FIXTURE_DIR ?? './fixtures',
+		urls: values.url ?? [],
+	};
+}
+
+// 지연 로딩되는 목록까지 DOM 에 포함되도록 끝까지 스크롤
+async function scrollToBottom(page: Page): Promise<void> {
+	await page.evaluate(async () => {
+		for (let y = 0; y < document.body.scrollHeight; y += window.innerHeight) {
+			window.scrollTo(0, y);
+			await new Promise((resolve) => setTimeout(resolve, 200));
+		}
+	});
+}
+
+async function main() {
+	const args = parseArgs(process.argv.slice(2));
+	const app = await NestFactory.createApplicationContext(FixtureRecorderModule, { logger: ['error', 'warn'] });
+	const playwrightService = app.get(PlaywrightService);
+
+	const contextId = `context-fixture-${args.site}-${args.store}`;
+	const pageId = `page-fixture-${args.site}-${args.store}`;
+
+	const pages: Record<string, SelectorPageDefinition> = SELECTOR_REGISTRY[args.site];
+	const targets: { url: string; name?: string }[] = [
+		...Object.entries(pages).flatMap(([name, pageDefinition]) =>
+			pageDefinition.url ? [{ url: pageDefinition.url, name }] : [],
+		),
+		...args.urls.map((url) => ({ url })),
+	];
+
+	try {
+		const page =
+			args.site === 'coupang'
+				? await playwrightService.loginToCoupangSite(contextId, pageId, 'chromium', args.store)
+				: await playwrightService.loginToOnchSite(args.store, contextId, pageId);
+
+		for (const target of targets) {
+			try {
+				await page.goto(target.url, { timeout: 60000, waitUntil: 'networkidle' });
+				await scrollToBottom(page);
+				await recordFixture(page, args.out, args.site, { name: target.name });
+			} catch (error) {
+				console.error(`픽스처 기록 실패 (${target.url}):`, error instanceof Error ? error.message : error);
+			}
+		}
+	} finally {
+		await playwrightService.releaseContext(contextId);
+		await app.close();
+	}
+}
+
+main().catch((error) => {
+	console.error('픽스처 기록 중 오류 발생:', error);
+	process.exit(1);
+});
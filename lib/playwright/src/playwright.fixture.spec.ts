@@ -0,0 +1,91 @@
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Page, Route } from 'playwright';
+
+import { FixtureStore, recordFixture, serveFixtures } from './playwright.fixture';
+
+describe('playwright.fixture', () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fixture-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	describe('FixtureStore', () => {
+		it('저장한 스냅샷을 hash 를 제외한 URL 로 조회한다', async () => {
+			const store = new FixtureStore(directory);
+			const entry = await store.write('onch', 'https://www.onch3.co.kr/a.html?x=1#top', '<p>1</p>', 'a.html?x=1');
+
+			expect(entry).toMatchObject({ url: 'https://www.onch3.co.kr/a.html?x=1', file: path.join('onch', 'a_html_x_1.html') });
+			expect(await store.read('https://www.onch3.co.kr/a.html?x=1#other')).toBe('<p>1</p>');
+			expect(await store.read('https://www.onch3.co.kr/b.html')).toBeNull();
+		});
+
+		it('같은 URL 은 덮어쓴다', async () => {
+			const store = new FixtureStore(directory);
+			await store.write('onch', 'https://www.onch3.co.kr/a.html', '<p>1</p>', 'a');
+			await store.write('onch', 'https://www.onch3.co.kr/a.html', '<p>2</p>', 'a');
+
+			expect((await store.loadManifest()).fixtures).toHaveLength(1);
+			expect(await store.read('https://www.onch3.co.kr/a.html')).toBe('<p>2</p>');
+		});
+	});
+
+	describe('recordFixture', () => {
+		it('script 태그를 제거하고 연락처를 치환하여 저장한다', async () => {
+			const page = {
+				url: () => 'https://www.onch3.co.kr/admin_mem_prd.html',
+				content: async () =>
+					'<html><script>track()</script><body>홍길동 010-1234-5678 / 0504-123-4567 서울시 중구</body></html>',
+			} as unknown as Page;
+
+			await recordFixture(page, directory, 'onch', { redactions: [[/서울시 중구/g, '주소']] });
+
+			expect(await new FixtureStore(directory).read('https://www.onch3.co.kr/admin_mem_prd.html')).toBe(
+				'<html><body>홍길동 010-0000-0000 / 0500-0000-0000 주소</body></html>',
+			);
+		});
+	});
+
+	describe('serveFixtures', () => {
+		const createRoute = (url: string, resourceType: string) =>
+			({
+				request: () => ({ url: () => url, resourceType: () => resourceType }),
+				fulfill: jest.fn().mockResolvedValue(undefined),
+				abort: jest.fn().mockResolvedValue(undefined),
+			}) as unknown as Route & { fulfill: jest.Mock; abort: jest.Mock };
+
+		it('스냅샷은 HTML 로, 정적 리소스는 빈 응답으로, 나머지는 실패로 응답한다', async () => {
+			await new FixtureStore(directory).write('onch', 'https://www.onch3.co.kr/a.html', '<p>1</p>', 'a');
+
+			let handler: (route: Route) => Promise<void> = async () => undefined;
+			const target = {
+				route: jest.fn(async (_url: string, routeHandler: typeof handler) => {
+					handler = routeHandler;
+				}),
+				unroute: jest.fn().mockResolvedValue(undefined),
+			};
+			const server = await serveFixtures(target as any, directory);
+
+			const document = createRoute('https://www.onch3.co.kr/a.html', 'document');
+			const image = createRoute('https://www.onch3.co.kr/logo.png', 'image');
+			const api = createRoute('https://www.onch3.co.kr/api/orders', 'xhr');
+			await handler(document);
+			await handler(image);
+			await handler(api);
+
+			expect(document.fulfill).toHaveBeenCalledWith(expect.objectContaining({ status: 200, body: '<p>1</p>' }));
+			expect(image.fulfill).toHaveBeenCalledWith({ status: 200, body: '' });
+			expect(api.abort).toHaveBeenCalledWith('internetdisconnected');
+			expect(server.missing).toEqual(['https://www.onch3.co.kr/api/orders']);
+
+			await server.dispose();
+			expect(target.unroute).toHaveBeenCalledWith('**/*', handler);
+		});
+	});
+});
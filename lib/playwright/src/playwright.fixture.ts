@@ -0,0 +1,267 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { Browser, BrowserContext, chromium, Page, Route } from 'playwright';
+
+import { toArtifactFileName } from './playwright.artifact';
+
+/**
+ * 픽스처 디렉터리의 URL → HTML 파일 매핑 파일 이름
+ */
+export const FIXTURE_MANIFEST = 'manifest.json';
+
+/**
+ * 저장된 HTML 스냅샷 하나
+ */
+export interface FixtureEntry {
+	/** 스냅샷을 기록한 페이지 URL (hash 제외) */
+	url: string;
+	/** 픽스처 디렉터리 기준 HTML 파일 경로 */
+	file: string;
+	site: string;
+	recordedAt: string;
+}
+
+export interface FixtureManifest {
+	fixtures: FixtureEntry[];
+}
+
+/**
+ * 스냅샷에서 치환할 개인정보 패턴 [정규식, 대체 문자열]
+ */
+export type FixtureRedaction = [RegExp, string];
+
+/**
+ * 기본 개인정보 치환 규칙 (휴대폰 / 안심번호)
+ */
+export const DEFAULT_FIXTURE_REDACTIONS: FixtureRedaction[] = [
+	[/01[016789]-?\d{3,4}-?\d{4}/g, '010-0000-0000'],
+	[/050\d-?\d{3,4}-?\d{4}/g, '0500-0000-0000'],
+];
+
+export interface RecordFixtureOptions {
+	/** 파일 이름 (생략 시 URL 경로로 생성) */
+	name?: string;
+	/** 추가 치환 규칙 (DEFAULT_FIXTURE_REDACTIONS 다음에 적용) */
+	redactions?: FixtureRedaction[];
+}
+
+export interface ServeFixturesOptions {
+	/**
+	 * 스냅샷이 없는 문서 / XHR 요청 처리 방식
+	 * - abort: 요청을 실패시킴 (기본값, 라이브 사이트 접속 방지)
+	 * - empty: 빈 HTML 로 응답
+	 */
+	onMissing?: 'abort' | 'empty';
+}
+
+/**
+ * serveFixtures 가 반환하는 핸들
+ */
+export interface FixtureServer {
+	/** 스냅샷이 없어 처리하지 못한 요청 URL */
+	missing: string[];
+	/** 라우팅 해제 */
+	dispose(): Promise<void>;
+}
+
+/**
+ * openFixturePage 가 반환하는 오프라인 페이지
+ */
+export interface FixturePage {
+	page: Page;
+	context: BrowserContext;
+	server: FixtureServer;
+	close(): Promise<void>;
+}
+
+// 스냅샷 재생 시 빈 응답으로 대체하는 정적 리소스
+const STATIC_RESOURCE_TYPES = new Set(['image', 'stylesheet', 'font', 'script', 'media', 'manifest', 'other']);
+
+/**
+ * 픽스처 조회용 URL 정규화 (hash 제거)
+ *
+ * @param url - 요청 URL
+ */
+export function normalizeFixtureUrl(url: string): string {
+	const parsed = new URL(url);
+	parsed.hash = '';
+	return parsed.toString();
+}
+
+/**
+ * 쿠팡 윙 / 온채널 페이지의 HTML 스냅샷을 디렉터리에 저장하고 조회하는 저장소
+ *
+ * 디렉터리 구조: "<디렉터리>/manifest.json", "<디렉터리>/<사이트>/<이름>.html"
+ */
+export class FixtureStore {
+	constructor(readonly directory: string) {}
+
+	async loadManifest(): Promise<FixtureManifest> {
+		try {
+			const content = await fs.readFile(path.join(this.directory, FIXTURE_MANIFEST), 'utf8');
+			return JSON.parse(content) as FixtureManifest;
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') return { fixtures: [] };
+			throw error;
+		}
+	}
+
+	/**
+	 * URL 에 해당하는 스냅샷 HTML 을 반환합니다.
+	 *
+	 * @param url - 요청 URL
+	 * @returns HTML 또는 스냅샷이 없으면 null
+	 */
+	async read(url: string): Promise<string | null> {
+		const manifest = await this.loadManifest();
+		const normalized = normalizeFixtureUrl(url);
+		const entry = manifest.fixtures.find((fixture) => fixture.url === normalized);
+		if (!entry) return null;
+
+		return fs.readFile(path.join(this.directory, entry.file), 'utf8');
+	}
+
+	/**
+	 * 스냅샷을 저장하고 manifest 를 갱신합니다. 같은 URL 의 스냅샷은 덮어씁니다.
+	 *
+	 * @param site - 사이트 ('coupang', 'onch')
+	 * @param url - 스냅샷을 기록한 페이지 URL
+	 * @param html - 저장할 HTML
+	 * @param name - 파일 이름 (확장자 제외)
+	 * @returns 저장된 픽스처 정보
+	 */
+	async write(site: string, url: string, html: string, name: string): Promise<FixtureEntry> {
+		const file = path.join(toArtifactFileName(site), `${toArtifactFileName(name)}.html`);
+		await fs.mkdir(path.join(this.directory, path.dirname(file)), { recursive: true });
+		await fs.writeFile(path.join(this.directory, file), html);
+
+		const entry: FixtureEntry = { url: normalizeFixtureUrl(url), file, site, recordedAt: new Date().toISOString() };
+		const manifest = await this.loadManifest();
+		manifest.fixtures = [...manifest.fixtures.filter((fixture) => fixture.url !== entry.url), entry];
+		await fs.writeFile(path.join(this.directory, FIXTURE_MANIFEST), JSON.stringify(manifest, null, 2));
+
+		return entry;
+	}
+}
+
+/**
+ * 현재 페이지의 렌더링된 DOM 을 픽스처로 저장합니다.
+ *
+ * @param page - 스냅샷을 기록할 페이지 (로그인된 실제 세션)
+ * @param directory - 픽스처 디렉터리
+ * @param site - 사이트 ('coupang', 'onch')
+ * @param options - 파일 이름, 추가 치환 규칙
+ * @returns 저장된 픽스처 정보
+ *
+ * @description
+ * 1. page.content() 로 스크립트 실행 후의 DOM 을 가져옴
+ * 2. 재생 시 사이트 스크립트가 DOM 을 다시 그리거나 라이브 API 를 호출하지 않도록 script 태그 제거
+ * 3. 고객 연락처 등 개인정보 치환
+ * 4. "<디렉터리>/<사이트>/<이름>.html" 에 저장하고 manifest 에 URL 등록
+ */
+export async function recordFixture(
+	page: Page,
+	directory: string,
+	site: string,
+	options: RecordFixtureOptions = {},
+): Promise<FixtureEntry> {
+	const url = page.url();
+	const { pathname, search } = new URL(url);
+	const name = options.name ?? `${pathname}${search}`.replace(/^\/+/, '');
+
+	let html = (await page.content()).replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '');
+	for (const [pattern, replacement] of [...DEFAULT_FIXTURE_REDACTIONS, ...(options.redactions ?? [])]) {
+		html = html.replace(pattern, replacement);
+	}
+
+	const entry = await new FixtureStore(directory).write(site, url, html, name || 'index');
+	console.log(`픽스처 저장 완료: ${entry.url} → ${entry.file}`);
+	return entry;
+}
+
+/**
+ * 컨텍스트 / 페이지의 모든 요청을 저장된 스냅샷으로 응답하도록 라우팅합니다.
+ *
+ * @param target - 라우팅할 컨텍스트 또는 페이지
+ * @param directory - 픽스처 디렉터리
+ * @param options - 스냅샷이 없는 요청 처리 방식
+ * @returns 처리하지 못한 요청 목록과 라우팅 해제 함수
+ *
+ * @description
+ * - manifest 에 등록된 URL 은 저장된 HTML 로 응답
+ * - 이미지, 스타일시트, 스크립트 등 정적 리소스는 빈 응답으로 대체
+ * - 그 외 요청은 missing 에 기록하고 onMissing 에 따라 실패 또는 빈 HTML 로 응답
+ */
+export async function serveFixtures(
+	target: BrowserContext | Page,
+	directory: string,
+	options: ServeFixturesOptions = {},
+): Promise<FixtureServer> {
+	const store = new FixtureStore(directory);
+	const missing: string[] = [];
+
+	const handler = async (route: Route) => {
+		const request = route.request();
+
+		const html = await store.read(request.url());
+		if (html !== null) {
+			await route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body: html });
+			return;
+		}
+
+		if (STATIC_RESOURCE_TYPES.has(request.resourceType())) {
+			await route.fulfill({ status: 200, body: '' });
+			return;
+		}
+
+		missing.push(request.url());
+		if (options.onMissing === 'empty') {
+			await route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body: '<html><body></body></html>' });
+		} else {
+			await route.abort('internetdisconnected');
+		}
+	};
+
+	await target.route('**/*', handler);
+
+	return {
+		missing,
+		dispose: () => target.unroute('**/*', handler),
+	};
+}
+
+/**
+ * 픽스처로만 응답하는 오프라인 브라우저 페이지를 엽니다.
+ * 크롤러 프로바이더의 추출 로직을 라이브 사이트 없이 검증할 때 사용합니다.
+ *
+ * @param directory - 픽스처 디렉터리
+ * @param options - 스냅샷이 없는 요청 처리 방식
+ * @param browser - 재사용할 브라우저 (생략 시 headless chromium 을 실행하고 close 에서 종료)
+ * @returns 오프라인 페이지와 정리 함수
+ *
+ * @example
+ * const fixture = await openFixturePage('./fixtures');
+ * await fixture.page.goto('https://www.onch3.co.kr/admin_mem_prd.html');
+ * const data = await deliveryExtractionProvider.extractCurrentPageData(fixture.page);
+ * await fixture.close();
+ */
+export async function openFixturePage(
+	directory: string,
+	options: ServeFixturesOptions = {},
+	browser?: Browser,
+): Promise<FixturePage> {
+	const ownBrowser = browser ?? (await chromium.launch({ headless: true }));
+	const context = await ownBrowser.newContext({ locale: 'ko-KR', timezoneId: 'Asia/Seoul' });
+	const server = await serveFixtures(context, directory, options);
+	const page = await context.newPage();
+
+	return {
+		page,
+		context,
+		server,
+		close: async () => {
+			await context.close();
+			if (!browser) await ownBrowser.close();
+		},
+	};
+}
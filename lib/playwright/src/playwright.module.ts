@@ -1,9 +1,11 @@
 import { Module,Global } from '@nestjs/common';
+import { CredentialService } from './playwright.credential';
+import { SelectorService } from './playwright.selector';
 import { PlaywrightService } from "./playwright.service";
 
 @Global()
 @Module({
-	providers: [PlaywrightService],
-	exports: [PlaywrightService],
+	providers: [PlaywrightService, CredentialService, SelectorService],
+	exports: [PlaywrightService, CredentialService, SelectorService],
 })
 export class PlaywrightModule {}
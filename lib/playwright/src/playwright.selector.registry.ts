@@ -0,0 +1,303 @@
+/**
+ * 셀렉터 후보
+ *
+ * - 문자열: CSS (또는 Playwright 셀렉터) 를 그대로 사용
+ * - css: version 으로 어느 사이트 배포 기준의 셀렉터인지 표시
+ * - text: 텍스트로 요소를 찾음 (tag 지정 시 "<tag>:text-is(...)", 생략 시 text="...")
+ */
+export type SelectorCandidate =
+	| string
+	| { css: string; version?: string }
+	| { text: string; tag?: string; exact?: boolean; version?: string };
+
+/**
+ * 셀렉터 상태 점검 방식
+ *
+ * - required: 페이지에 반드시 존재해야 함 (기본값)
+ * - optional: 목록이 비어 있으면 없을 수 있음 (행 / 행 내부 요소 등)
+ * - skip: 사용자 동작 후에만 나타나므로 점검하지 않음 (모달, 검색 결과 등)
+ */
+export type SelectorHealthMode = 'required' | 'optional' | 'skip';
+
+export interface SelectorDefinition {
+	description: string;
+	/** 우선순위 순서의 후보 목록. 사이트가 개편되면 새 셀렉터를 맨 앞에 추가합니다. */
+	candidates: SelectorCandidate[];
+	health?: SelectorHealthMode;
+}
+
+export interface SelectorPageDefinition {
+	/** 상태 점검 시 방문할 URL (없으면 해당 페이지는 점검하지 않음) */
+	url?: string;
+	selectors: Record<string, SelectorDefinition>;
+}
+
+export type SelectorRegistryDefinition = Record<string, Record<string, SelectorPageDefinition>>;
+
+// 키 타입을 유지하면서 레지스트리 형태를 검증
+function defineSelectors<T extends SelectorRegistryDefinition>(registry: T): T {
+	return registry;
+}
+
+/**
+ * 쿠팡 윙 / 온채널 셀렉터 레지스트리 (사이트 → 페이지 → 셀렉터)
+ * 각 셀렉터는 "<사이트>.<페이지>.<이름>" 키로 SelectorService 에서 조회합니다.
+ */
+export const SELECTOR_REGISTRY = defineSelectors({
+	coupang: {
+		deliveryManagement: {
+			url: 'https://wing.coupang.com/tenants/sfl-portal/delivery/management',
+			selectors: {
+				processingTab: {
+					description: 'Processing 주문 탭',
+					candidates: [{ text: 'Processing', tag: 'span' }, { text: '상품준비중', tag: 'span' }],
+				},
+				orderTable: {
+					description: '주문 목록 테이블',
+					candidates: ['#tableContext', '.search-table tbody'],
+				},
+				orderRow: {
+					description: '주문 목록 행',
+					candidates: ['#tableContext tr', '.search-table tbody tr'],
+					health: 'optional',
+				},
+				rowCheckbox: {
+					description: '주문 행 체크박스',
+					candidates: ['input[type="checkbox"]'],
+					health: 'optional',
+				},
+				rowCourierSelect: {
+					description: '주문 행 택배사 선택',
+					candidates: ['select'],
+					health: 'optional',
+				},
+				rowTrackingEditIcon: {
+					description: '주문 행 운송장 편집 아이콘',
+					candidates: ['i[data-wuic-props*="name:ico icon:edit"]', 'i[data-wuic-props*="icon:edit"]'],
+					health: 'optional',
+				},
+				rowTrackingInput: {
+					description: '운송장 입력 모달의 입력란',
+					candidates: ['div[deliverytrackingmodal] input[type="text"]'],
+					health: 'skip',
+				},
+				applyButton: {
+					description: '운송장 적용 버튼',
+					candidates: ['button[data-wuic-props*="name:btn type:primary"]'],
+					health: 'skip',
+				},
+				completedOrderCheckbox: {
+					description: '결제 완료 주문 체크박스',
+					candidates: [
+						'.search-table tbody span[data-wuic-props="name:check"] input[type="checkbox"]',
+						'.search-table tbody input[type="checkbox"]',
+					],
+					health: 'optional',
+				},
+				confirmOrderButton: {
+					description: '발주 확인 버튼',
+					candidates: ['#confirmOrder', { text: 'Confirm order', tag: 'button', exact: false }],
+				},
+				courierSelect: {
+					description: '발주 확인 모달의 택배사 선택',
+					candidates: [
+						{ css: 'select[data-v-305197cb]', version: '2024 윙 배송관리' },
+						'.modal select',
+					],
+					health: 'skip',
+				},
+				detailReasonTextarea: {
+					description: '발주 확인 모달의 상세 사유 입력란',
+					candidates: ['textarea[placeholder="Enter reason in detail"]', '.modal textarea'],
+					health: 'skip',
+				},
+				downloadButton: {
+					description: '발주 확인 모달의 확인 및 다운로드 버튼',
+					candidates: [
+						{
+							css: 'button#submitConfirm[style="float: right; margin: 0px 0px 0px 8px; padding: 6px 16px 8px;"][data-wuic-props*="icon-name:download"]',
+							version: '2024 윙 배송관리',
+						},
+						'button#submitConfirm[data-wuic-props*="icon-name:download"]',
+						'button#submitConfirm',
+					],
+					health: 'skip',
+				},
+			},
+		},
+		inventory: {
+			url: 'https://wing.coupang.com/vendor-inventory/list?searchKeywordType=ALL&searchKeywords=&salesMethod=ALL&productStatus=ALL&stockSearchType=ALL&shippingFeeSearchType=ALL&displayCategoryCodes=&listingStartTime=null&listingEndTime=null&saleEndDateSearchType=ALL&bundledShippingSearchType=ALL&displayDeletedProduct=false&shippingMethod=ALL&exposureStatus=ALL&locale=ko_KR&sortMethod=SORT_BY_ITEM_LEVEL_UNIT_SOLD&countPerPage=50&page=1',
+			selectors: {
+				productRow: {
+					description: '상품 목록 행',
+					candidates: ['tr.inventory-line'],
+				},
+				productTitle: {
+					description: '상품명 (첫 단어가 상품 코드)',
+					candidates: ['.ip-title'],
+				},
+				sellerProductId: {
+					description: '등록상품 ID 영역',
+					candidates: ['.ip-right .ip-content div:nth-child(3)'],
+				},
+				itemWinner: {
+					description: '아이템위너 상태 영역',
+					candidates: ['.ies-container .ies-top'],
+				},
+				price: {
+					description: '판매가',
+					candidates: ['.isp-top'],
+				},
+				shippingCost: {
+					description: '배송비',
+					candidates: ['.isp-bottom'],
+				},
+			},
+		},
+	},
+	onch: {
+		productSearch: {
+			url: 'https://www.onch3.co.kr/index.php',
+			selectors: {
+				searchInput: {
+					description: '상품 검색 입력란',
+					candidates: ['#prd_sear_txt', 'input[name="prd_sear_txt"]'],
+				},
+				orderButton: {
+					description: '검색 결과의 주문 버튼',
+					candidates: ['.btn_order', { text: '주문하기', tag: 'a' }],
+					health: 'skip',
+				},
+			},
+		},
+		orderForm: {
+			selectors: {
+				optionSelect: {
+					description: '옵션 선택',
+					candidates: ['.selectOptionList', 'select[name*="option"]'],
+				},
+				quantityInput: {
+					description: '수량 입력란',
+					candidates: ['.optionQuantity'],
+				},
+				ordererName: {
+					description: '수취인 이름',
+					candidates: ['input.orderName'],
+				},
+				ordererPhone: {
+					description: '수취인 연락처',
+					candidates: ['input.orderPhone'],
+				},
+				postcode: {
+					description: '우편번호',
+					candidates: ['input.postcode'],
+				},
+				address: {
+					description: '배송지 주소',
+					candidates: ['input.orderAddress'],
+				},
+				comment: {
+					description: '배송 메시지',
+					candidates: ['textarea.comment'],
+				},
+				completeButton: {
+					description: '주문 완료 버튼',
+					candidates: ['.btnOrderComplete', { text: '주문완료', tag: 'button' }],
+				},
+			},
+		},
+		registeredProducts: {
+			url: 'https://www.onch3.co.kr/admin_mem_prd_list.html?npage=100&page=1',
+			selectors: {
+				productLink: {
+					description: '판매상품 상세 링크',
+					candidates: ['a[href^="./dbcenter_renewal/dbcenter_view.html?num="]', 'a[href*="dbcenter_view.html?num="]'],
+				},
+				deleteButton: {
+					description: '판매상품 삭제 버튼',
+					candidates: ['a[onclick^="prd_list_del"]'],
+					health: 'optional',
+				},
+			},
+		},
+		productDetail: {
+			selectors: {
+				addButton: {
+					description: '판매상품 등록 버튼',
+					candidates: ['a[onclick^="prd_list_add"]', { text: '판매상품 등록', tag: 'a' }, { text: '판매상품등록' }],
+				},
+				soldoutMark: {
+					description: '품절 표시',
+					candidates: ['.prod_soldout', '.soldout', { text: '품절', tag: 'span' }],
+					health: 'skip',
+				},
+				availableMark: {
+					description: '판매 가능 표시 (옵션 목록 / 주문 버튼)',
+					candidates: ['.detail_page_option li', '.btn_order', { text: '주문하기', tag: 'a' }],
+					health: 'skip',
+				},
+			},
+		},
+		soldoutProducts: {
+			url: 'https://www.onch3.co.kr/admin_mem_clo_list_2.php?ost=&sec=clo&ol=&npage=',
+			selectors: {
+				productCodeCell: {
+					description: '품절 상품 코드 셀',
+					candidates: ['table tbody tr td.title_3.sub_title'],
+					health: 'optional',
+				},
+				dateCell: {
+					description: '품절 등록 / 수정 일시 셀',
+					candidates: ['td.title_4.sub_title'],
+					health: 'optional',
+				},
+			},
+		},
+		deliveryList: {
+			url: 'https://www.onch3.co.kr/admin_mem_prd.html',
+			selectors: {
+				orderItem: {
+					description: '주문 목록 항목',
+					candidates: ['.prd_list_li'],
+				},
+				deliveryDate: {
+					description: '발송 일자',
+					candidates: ['font[color="#135bc8"]'],
+					health: 'optional',
+				},
+				customerName: {
+					description: '고객 이름 / 연락처 영역',
+					candidates: ['.prd_list_name div'],
+				},
+				customerPhone: {
+					description: '고객 연락처',
+					candidates: ['font[color="#555555"]'],
+					health: 'optional',
+				},
+				trackButton: {
+					description: '배송 조회 버튼 (data-name, data-num)',
+					candidates: ['.trackBtn'],
+					health: 'optional',
+				},
+			},
+		},
+	},
+});
+
+type Registry = typeof SELECTOR_REGISTRY;
+
+/**
+ * 레지스트리에 등록된 사이트
+ */
+export type SelectorSite = keyof Registry & string;
+
+/**
+ * "<사이트>.<페이지>.<이름>" 형태의 셀렉터 키
+ */
+export type SelectorKey = {
+	[S in keyof Registry]: {
+		[P in keyof Registry[S]]: Registry[S][P] extends { selectors: infer T }
+			? `${S & string}.${P & string}.${keyof T & string}`
+			: never;
+	}[keyof Registry[S]];
+}[keyof Registry];
@@ -0,0 +1,287 @@
+import { Injectable } from '@nestjs/common';
+import { ElementHandle, Locator, Page } from 'playwright';
+
+import {
+	SELECTOR_REGISTRY,
+	SelectorCandidate,
+	SelectorDefinition,
+	SelectorKey,
+	SelectorPageDefinition,
+	SelectorSite,
+} from './playwright.selector.registry';
+
+/**
+ * 셀렉터 상태 점검 결과
+ *
+ * - ok: 첫 번째 후보로 찾음
+ * - fallback: 첫 번째 후보는 실패하고 대체 후보로 찾음 (레지스트리 갱신 필요)
+ * - missing: 어떤 후보로도 찾지 못함
+ * - empty: optional 셀렉터가 없음 (목록이 비어 있는 경우)
+ */
+export type SelectorHealthStatus = 'ok' | 'fallback' | 'missing' | 'empty';
+
+export interface SelectorHealthEntry {
+	key: string;
+	description: string;
+	status: SelectorHealthStatus;
+	/** 찾은 후보의 Playwright 셀렉터 */
+	matched?: string;
+	/** 페이지 이동 실패 등 점검 중 발생한 오류 */
+	error?: string;
+}
+
+export interface SelectorHealthReport {
+	site: string;
+	checkedAt: string;
+	entries: SelectorHealthEntry[];
+	/** missing 이거나 fallback 으로 찾은 셀렉터 */
+	broken: SelectorHealthEntry[];
+}
+
+/**
+ * 레지스트리의 어떤 후보로도 요소를 찾지 못한 경우 발생하는 에러
+ */
+export class SelectorNotFoundError extends Error {
+	constructor(
+		readonly key: string,
+		readonly candidates: string[],
+	) {
+		super(`셀렉터를 찾을 수 없습니다: ${key} (${candidates.join(' | ')})`);
+		this.name = 'SelectorNotFoundError';
+	}
+}
+
+/**
+ * 셀렉터 후보를 Playwright 셀렉터 문자열로 변환합니다.
+ *
+ * @param candidate - 셀렉터 후보
+ */
+export function toPlaywrightSelector(candidate: SelectorCandidate): string {
+	if (typeof candidate === 'string') return candidate;
+	if ('css' in candidate) return candidate.css;
+
+	const text = JSON.stringify(candidate.text);
+	const exact = candidate.exact ?? true;
+	if (candidate.tag) return `${candidate.tag}:${exact ? 'text-is' : 'has-text'}(${text})`;
+	return exact ? `text=${text}` : `text=${candidate.text}`;
+}
+
+/**
+ * 사이트 / 페이지별 셀렉터 레지스트리 조회 서비스
+ *
+ * 쿠팡 윙, 온채널 크롤러의 셀렉터를 SELECTOR_REGISTRY 한 곳에서 관리하고
+ * 후보를 우선순위대로 시도하여, 사이트 배포로 기본 셀렉터가 깨져도 대체 셀렉터로 동작하도록 합니다.
+ * 대체 후보가 사용되면 한 번만 경고 로그를 남기며, checkHealth 로 깨진 셀렉터를 점검할 수 있습니다.
+ */
+@Injectable()
+export class SelectorService {
+	// 대체 후보 사용 경고를 이미 출력한 키
+	private readonly warnedFallbacks = new Set<string>();
+
+	/**
+	 * 키에 등록된 후보를 우선순위 순서의 Playwright 셀렉터로 반환합니다.
+	 *
+	 * @param key - "<사이트>.<페이지>.<이름>" 형태의 셀렉터 키
+	 */
+	getCandidates(key: SelectorKey): string[] {
+		return this.getDefinition(key).candidates.map(toPlaywrightSelector);
+	}
+
+	/**
+	 * 현재 페이지에서 요소를 찾을 수 있는 첫 번째 후보의 Locator 를 반환합니다.
+	 *
+	 * @param scope - 검색 범위 (페이지 또는 상위 Locator)
+	 * @param key - 셀렉터 키
+	 * @param options.timeout - 어떤 후보도 아직 없을 때 나타나기를 기다릴 시간(ms, 기본값 5초)
+	 * @returns 찾은 후보의 Locator
+	 * @throws 대기 시간 안에 어떤 후보로도 찾지 못하면 SelectorNotFoundError
+	 */
+	async locate(scope: Page | Locator, key: SelectorKey, options: { timeout?: number } = {}): Promise<Locator> {
+		const candidates = this.getCandidates(key);
+
+		const found = await this.findLocator(scope, key, candidates);
+		if (found) return found;
+
+		// 아직 렌더링되지 않은 경우 후보 중 하나가 나타날 때까지 대기 후 다시 우선순위대로 선택
+		const anyCandidate = candidates
+			.map((selector) => scope.locator(selector))
+			.reduce((combined, locator) => combined.or(locator));
+		try {
+			await anyCandidate.first().waitFor({ state: 'attached', timeout: options.timeout ?? 5000 });
+		} catch {
+			throw new SelectorNotFoundError(key, candidates);
+		}
+
+		const appeared = await this.findLocator(scope, key, candidates);
+		if (!appeared) throw new SelectorNotFoundError(key, candidates);
+		return appeared;
+	}
+
+	/**
+	 * 첫 번째로 일치하는 후보의 ElementHandle 을 대기 없이 반환합니다.
+	 *
+	 * @param scope - 검색 범위 (페이지 또는 상위 요소)
+	 * @param key - 셀렉터 키
+	 * @returns 찾은 요소 또는 null
+	 */
+	async query(scope: Page | ElementHandle, key: SelectorKey): Promise<ElementHandle | null> {
+		const candidates = this.getCandidates(key);
+		for (const [index, selector] of candidates.entries()) {
+			const element = await scope.$(selector);
+			if (element) {
+				this.warnFallback(key, index, selector);
+				return element;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * 요소를 하나 이상 찾은 첫 번째 후보의 모든 ElementHandle 을 대기 없이 반환합니다.
+	 *
+	 * @param scope - 검색 범위 (페이지 또는 상위 요소)
+	 * @param key - 셀렉터 키
+	 */
+	async queryAll(scope: Page | ElementHandle, key: SelectorKey): Promise<ElementHandle[]> {
+		const candidates = this.getCandidates(key);
+		for (const [index, selector] of candidates.entries()) {
+			const elements = await scope.$$(selector);
+			if (elements.length > 0) {
+				this.warnFallback(key, index, selector);
+				return elements;
+			}
+		}
+		return [];
+	}
+
+	/**
+	 * page.evaluate 안의 querySelector 에서 사용할 CSS 셀렉터를 반환합니다.
+	 * 텍스트 후보는 브라우저 DOM API 에서 사용할 수 없으므로 제외합니다.
+	 *
+	 * @param page - 검색할 페이지
+	 * @param key - 셀렉터 키
+	 * @returns 요소가 존재하는 첫 번째 CSS 후보. 모두 없으면 첫 번째 CSS 후보
+	 */
+	async resolveCss(page: Page, key: SelectorKey): Promise<string> {
+		const cssCandidates = this.getDefinition(key)
+			.candidates.filter((candidate) => typeof candidate === 'string' || 'css' in candidate)
+			.map(toPlaywrightSelector);
+		if (cssCandidates.length === 0) {
+			throw new Error(`CSS 후보가 없는 셀렉터입니다: ${key}`);
+		}
+
+		for (const [index, selector] of cssCandidates.entries()) {
+			if (await page.$(selector)) {
+				this.warnFallback(key, index, selector);
+				return selector;
+			}
+		}
+		return cssCandidates[0];
+	}
+
+	/**
+	 * 사이트의 각 페이지를 방문하여 셀렉터가 여전히 동작하는지 점검합니다.
+	 *
+	 * @param page - 해당 사이트에 로그인된 페이지
+	 * @param site - 점검할 사이트 ('coupang', 'onch')
+	 * @returns 셀렉터별 점검 결과
+	 *
+	 * @description
+	 * 1. url 이 등록된 페이지로 이동 (url 이 없는 페이지는 사용자 동작 후에만 도달하므로 제외)
+	 * 2. health 가 skip 이 아닌 셀렉터의 후보를 우선순위대로 확인
+	 * 3. 첫 번째 후보 → ok, 대체 후보 → fallback, 없음 → missing (optional 이면 empty)
+	 * 4. 페이지 이동에 실패하면 해당 페이지의 셀렉터를 모두 missing 으로 기록
+	 */
+	async checkHealth(page: Page, site: SelectorSite): Promise<SelectorHealthReport> {
+		const entries: SelectorHealthEntry[] = [];
+		const pages: Record<string, SelectorPageDefinition> = SELECTOR_REGISTRY[site];
+
+		for (const [pageName, pageDefinition] of Object.entries(pages)) {
+			if (!pageDefinition.url) continue;
+
+			const selectors = Object.entries(pageDefinition.selectors).filter(
+				([, definition]) => definition.health !== 'skip',
+			);
+
+			try {
+				await page.goto(pageDefinition.url, { timeout: 60000, waitUntil: 'networkidle' });
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				for (const [name, definition] of selectors) {
+					entries.push({
+						key: `${site}.${pageName}.${name}`,
+						description: definition.description,
+						status: 'missing',
+						error: `페이지 이동 실패: ${message}`,
+					});
+				}
+				continue;
+			}
+
+			for (const [name, definition] of selectors) {
+				entries.push(await this.checkSelector(page, `${site}.${pageName}.${name}`, definition));
+			}
+		}
+
+		const broken = entries.filter((entry) => entry.status === 'missing' || entry.status === 'fallback');
+		console.log(
+			`셀렉터 상태 점검 완료 (${site}): 총 ${entries.length}개, 문제 ${broken.length}개`,
+			broken.map((entry) => `${entry.key}: ${entry.status}`),
+		);
+
+		return { site, checkedAt: new Date().toISOString(), entries, broken };
+	}
+
+	private async checkSelector(page: Page, key: string, definition: SelectorDefinition): Promise<SelectorHealthEntry> {
+		const candidates = definition.candidates.map(toPlaywrightSelector);
+		for (const [index, selector] of candidates.entries()) {
+			try {
+				if ((await page.locator(selector).count()) > 0) {
+					return {
+						key,
+						description: definition.description,
+						status: index === 0 ? 'ok' : 'fallback',
+						matched: selector,
+					};
+				}
+			} catch (error) {
+				// 잘못된 셀렉터 문법은 다음 후보로 진행
+				console.warn(`셀렉터 확인 실패 (${key}: ${selector}):`, error instanceof Error ? error.message : error);
+			}
+		}
+
+		return {
+			key,
+			description: definition.description,
+			status: definition.health === 'optional' ? 'empty' : 'missing',
+		};
+	}
+
+	private async findLocator(scope: Page | Locator, key: SelectorKey, candidates: string[]): Promise<Locator | null> {
+		for (const [index, selector] of candidates.entries()) {
+			const locator = scope.locator(selector);
+			if ((await locator.count()) > 0) {
+				this.warnFallback(key, index, selector);
+				return locator;
+			}
+		}
+		return null;
+	}
+
+	private getDefinition(key: SelectorKey): SelectorDefinition {
+		const [site, pageName, name] = key.split('.');
+		const pages: Record<string, SelectorPageDefinition> = SELECTOR_REGISTRY[site as SelectorSite];
+		const definition = pages?.[pageName]?.selectors[name];
+		if (!definition) {
+			throw new Error(`등록되지 않은 셀렉터입니다: ${key}`);
+		}
+		return definition;
+	}
+
+	// 기본 후보가 깨진 경우 키마다 한 번만 경고
+	private warnFallback(key: string, index: number, selector: string): void {
+		if (index === 0 || this.warnedFallbacks.has(key)) return;
+		this.warnedFallbacks.add(key);
+		console.warn(`기본 셀렉터를 찾지 못해 대체 셀렉터를 사용합니다: ${key} → ${selector}`);
+	}
+}
@@ -0,0 +1,107 @@
+import { PlaywrightService } from './playwright.service';
+
+describe('PlaywrightService', () => {
+	const config: Record<string, string> = {
+		PLAYWRIGHT_MAX_PAGES: '1',
+		PLAYWRIGHT_SLOT_WAIT_TIMEOUT_MS: '100',
+	};
+
+	const createFakePage = () => {
+		const handlers: Record<string, () => void> = {};
+		const page = {
+			on: jest.fn((event: string, handler: () => void) => {
+				handlers[event] = handler;
+			}),
+			route: jest.fn().mockResolvedValue(undefined),
+			close: jest.fn(async () => handlers.close?.()),
+		};
+		return page;
+	};
+
+	let service: PlaywrightService;
+	let context: { newPage: jest.Mock };
+
+	beforeEach(() => {
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+		service = new PlaywrightService({ get: (key: string) => config[key] } as any, {} as any);
+		context = { newPage: jest.fn(async () => createFakePage()) };
+		jest.spyOn(service as any, 'getOrCreateContext').mockResolvedValue(context);
+	});
+
+	afterEach(async () => {
+		await service.onModuleDestroy();
+		jest.restoreAllMocks();
+	});
+
+	describe('createPage', () => {
+		it('같은 페이지 ID로 다시 생성하면 이전 페이지를 닫고 슬롯을 반환한다', async () => {
+			const first = await service.createPage('context-1', 'page-1');
+			// 페이지 한도가 1이므로 이전 페이지의 슬롯이 반환되지 않으면 대기 시간 초과로 실패
+			const second = await service.createPage('context-1', 'page-1');
+
+			expect(first.close).toHaveBeenCalledTimes(1);
+			expect(second).not.toBe(first);
+			expect(await service.getPage('page-1')).toBe(second);
+		});
+
+		it('페이지 생성에 실패하면 대기 중인 요청에 바로 빈자리를 넘긴다', async () => {
+			await service.onModuleDestroy();
+			// 알림이 없으면 대기 시간(10초) 동안 기다리므로 테스트 시간 초과로 실패
+			service = new PlaywrightService(
+				{ get: (key: string) => ({ ...config, PLAYWRIGHT_SLOT_WAIT_TIMEOUT_MS: '10000' })[key] } as any,
+				{} as any,
+			);
+			jest.spyOn(service as any, 'getOrCreateContext').mockResolvedValue(context);
+
+			let failNewPage: (error: Error) => void = () => undefined;
+			context.newPage.mockImplementationOnce(() => new Promise((_, reject) => (failNewPage = reject)));
+
+			const failed = service.createPage('context-1', 'page-1');
+			await new Promise((resolve) => setImmediate(resolve));
+			const waiting = service.createPage('context-1', 'page-2');
+			await new Promise((resolve) => setImmediate(resolve));
+			failNewPage(new Error('newPage failed'));
+
+			await expect(failed).rejects.toThrow('newPage failed');
+			expect(await waiting).toBe(await service.getPage('page-2'));
+		});
+	});
+
+	describe('sweepIdleResources', () => {
+		const idleTimeout = 15 * 60 * 1000;
+
+		beforeEach(() => {
+			const now = Date.now();
+			(service as any).contextPool.set('context-1', {
+				context,
+				createdAt: now,
+				lastUsedAt: now,
+				leakWarned: false,
+				fingerprint: 'chrome-windows',
+				tracing: false,
+			});
+			jest.spyOn(service, 'releaseContext').mockResolvedValue(undefined);
+		});
+
+		it('사용 중인 페이지와 그 컨텍스트는 유휴 시간이 지나도 해제하지 않는다', async () => {
+			const page = await service.createPage('context-1', 'page-1');
+			jest.spyOn(Date, 'now').mockReturnValue(Date.now() + idleTimeout + 1);
+
+			await (service as any).sweepIdleResources();
+
+			expect(page.close).not.toHaveBeenCalled();
+			expect(service.releaseContext).not.toHaveBeenCalled();
+		});
+
+		it('페이지를 모두 반환한 컨텍스트는 유휴 시간이 지나면 해제한다', async () => {
+			await service.createPage('context-1', 'page-1');
+			await service.releasePage('page-1');
+			jest.spyOn(Date, 'now').mockReturnValue(Date.now() + idleTimeout + 1);
+
+			await (service as any).sweepIdleResources();
+
+			expect(service.releaseContext).toHaveBeenCalledWith('context-1');
+		});
+	});
+});
@@ -0,0 +1,74 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { BrowserContext } from 'playwright';
+
+/**
+ * 로그인 세션을 저장하는 사이트 유형
+ */
+export type SessionSite = 'onch' | 'coupang';
+
+/**
+ * 브라우저 컨텍스트의 쿠키 / localStorage 상태
+ */
+export type SessionStorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * 저장된 로그인 세션
+ */
+export interface StoredSession {
+	savedAt: number;
+	storageState: SessionStorageState;
+}
+
+/**
+ * 로그인 세션 저장소
+ * 기본값은 FileSessionStore 이며, Redis 등 다른 저장소는 PlaywrightService.setSessionStore 로 교체합니다.
+ */
+export interface PlaywrightSessionStore {
+	load(key: string): Promise<StoredSession | null>;
+	save(key: string, session: StoredSession): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * 사이트 + 스토어 단위의 세션 키 생성
+ *
+ * @param site - 로그인 사이트
+ * @param store - 스토어 식별자
+ */
+export function getSessionKey(site: SessionSite, store: string): string {
+	return `${site}-${store}`;
+}
+
+/**
+ * 세션을 디렉터리 안의 "<key>.json" 파일로 저장하는 저장소
+ * 쿠키가 포함되므로 소유자만 읽을 수 있도록 0600 권한으로 기록합니다.
+ */
+export class FileSessionStore implements PlaywrightSessionStore {
+	constructor(private readonly directory: string) {}
+
+	async load(key: string): Promise<StoredSession | null> {
+		try {
+			const content = await fs.readFile(this.getFilePath(key), 'utf8');
+			return JSON.parse(content) as StoredSession;
+		} catch (error: any) {
+			if (error?.code !== 'ENOENT') {
+				console.error(`세션 파일 읽기 실패 (${key}):`, error instanceof Error ? error.message : error);
+			}
+			return null;
+		}
+	}
+
+	async save(key: string, session: StoredSession): Promise<void> {
+		await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+		await fs.writeFile(this.getFilePath(key), JSON.stringify(session), { mode: 0o600 });
+	}
+
+	async delete(key: string): Promise<void> {
+		await fs.rm(this.getFilePath(key), { force: true });
+	}
+
+	private getFilePath(key: string): string {
+		return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+	}
+}
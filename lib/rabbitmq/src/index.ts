@@ -1,4 +1,23 @@
+export * from './rabbitmq.approval.entity';
+export * from './rabbitmq.approval.module';
+export * from './rabbitmq.approval.service';
+export * from './rabbitmq.audit.entity';
+export * from './rabbitmq.audit.interceptor';
+export * from './rabbitmq.audit.module';
+export * from './rabbitmq.audit.service';
+export * from './rabbitmq.client';
+export * from './rabbitmq.contracts';
+export * from './rabbitmq.decorator';
+export * from './rabbitmq.dispatcher';
+export * from './rabbitmq.dto';
+export * from './rabbitmq.interceptor';
+export * from './rabbitmq.memory';
 export * from './rabbitmq.module';
+export * from './rabbitmq.options';
+export * from './rabbitmq.response';
+export * from './rabbitmq.server';
 export * from './rabbitmq.service';
+export * from './rabbitmq.trace';
+export * from './rabbitmq.validation';
 // npx tsc
 // npm publish --access public
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RabbitMQApprovalEntity } from './rabbitmq.approval.entity';
+import { RabbitMQApprovalModule } from './rabbitmq.approval.module';
+import { RabbitMQApprovalService } from './rabbitmq.approval.service';
+import { RabbitMQModule } from './rabbitmq.module';
+
+const USAGE = `사용법: rabbitmq-approval <명령> [옵션]
+
+  list                              승인 대기 중인 계획 조회
+  recent [--limit <n>]              최근 계획 조회 (모든 상태)
+  show <id>                         계획 상세 (대상 목록 포함)
+  approve <id> [--by <이름>]        계획 승인 (같은 계획이 다음 실행될 때 처리됨)
+  reject <id> [--by <이름>]         계획 거절`;
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
+    }),
+    TypeOrmModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        type: 'postgres',
+        host: configService.get<string>('DB_HOST'),
+        port: Number(configService.get('DB_PORT')),
+        username: configService.get<string>('DB_USER'),
+        password: String(configService.get('DB_PASSWORD')),
+        database: configService.get<string>('DB_NAME'),
+        ssl: configService.get('DB_SSL') === 'true' ? { rejectUnauthorized: false } : undefined,
+        entities: [RabbitMQApprovalEntity],
+        synchronize: false,
+        logging: false,
+      }),
+    }),
+    RabbitMQModule.forRoot({ serviceName: 'rabbitmq-approval-cli' }),
+    RabbitMQApprovalModule,
+  ],
+})
+class RabbitMQApprovalCliModule {}
+
+function parseArgs(argv: string[]): { positional: string[]; options: Record<string, string> } {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, options };
+}
+
+function printApprovals(approvals: RabbitMQApprovalEntity[]): void {
+  if (approvals.length === 0) {
+    console.log('계획이 없습니다.');
+    return;
+  }
+
+  console.table(
+    approvals.map((approval) => ({
+      id: approval.id,
+      createdAt: approval.createdAt.toISOString(),
+      service: approval.serviceName,
+      action: approval.action,
+      status: approval.status,
+      items: approval.plan.items.length,
+      catalogSize: approval.plan.catalogSize,
+      reason: approval.reason,
+      decidedBy: approval.decidedBy,
+    })),
+  );
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+
+  if (!['list', 'recent', 'show', 'approve', 'reject'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(RabbitMQApprovalCliModule, {
+    logger: ['error', 'warn'],
+  });
+  const approvalService = app.get(RabbitMQApprovalService);
+  const id = Number(positional[0]);
+  const decidedBy = options.by ?? process.env.USER ?? 'cli';
+
+  try {
+    switch (command) {
+      case 'list':
+        printApprovals(await approvalService.findPending());
+        break;
+
+      case 'recent':
+        printApprovals(
+          await approvalService.findRecent(options.limit ? Number(options.limit) : undefined),
+        );
+        break;
+
+      case 'show': {
+        const approval = await approvalService.findById(id);
+        if (!approval) throw new Error(`계획을 찾을 수 없습니다: ${positional[0]}`);
+        console.log(JSON.stringify(approval, null, 2));
+        break;
+      }
+
+      case 'approve': {
+        const approval = await approvalService.approve(id, decidedBy);
+        console.log(
+          `#${approval.id} ${approval.action} 승인 완료 (${approval.plan.items.length}개) - 같은 계획이 다음 실행될 때 처리됩니다.`,
+        );
+        break;
+      }
+
+      case 'reject': {
+        const approval = await approvalService.reject(id, decidedBy);
+        console.log(`#${approval.id} ${approval.action} 거절 완료`);
+        break;
+      }
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
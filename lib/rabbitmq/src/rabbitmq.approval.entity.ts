@@ -0,0 +1,66 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+import { DestructivePlan } from './rabbitmq.contracts';
+
+/**
+ * pending: 관리자 승인 대기
+ * approved: 승인됨 (같은 계획의 다음 실행에서 사용)
+ * executed: 승인된 계획이 실행됨
+ * rejected: 거절됨
+ */
+export type RabbitMQApprovalStatus = 'pending' | 'approved' | 'executed' | 'rejected';
+
+/**
+ * 안전 기준을 넘어 보류된 삭제 / 판매 중지 계획
+ * 작업(action)마다 pending 상태는 하나만 유지하며, 계획이 바뀌면 같은 행을 갱신합니다.
+ */
+@Entity({ name: 'rabbitmq_approval' })
+export class RabbitMQApprovalEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  /** 보류된 작업 (예: "coupang-queue:deleteProducts", "soldout:deleteMatchProducts") */
+  @Index()
+  @Column({ type: 'varchar', length: 150 })
+  action!: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  status!: RabbitMQApprovalStatus;
+
+  /** 계획 대상 ID 목록의 sha256 (승인한 계획과 실행할 계획이 같은지 확인) */
+  @Column({ name: 'plan_hash', type: 'varchar', length: 64 })
+  planHash!: string;
+
+  @Column({ type: 'jsonb' })
+  plan!: DestructivePlan;
+
+  @Column({ type: 'text' })
+  reason!: string;
+
+  @Column({ name: 'cron_id', type: 'varchar', length: 255, nullable: true })
+  cronId!: string | null;
+
+  /** 계획을 만든 크론 흐름의 추적 ID (로그 / 감사 기록과 연결) */
+  @Index()
+  @Column({ name: 'correlation_id', type: 'varchar', length: 255, nullable: true })
+  correlationId!: string | null;
+
+  @Column({ name: 'service_name', type: 'varchar', length: 100, nullable: true })
+  serviceName!: string | null;
+
+  @Column({ name: 'decided_by', type: 'varchar', length: 100, nullable: true })
+  decidedBy!: string | null;
+
+  @Column({ name: 'decided_at', type: 'timestamp', nullable: true })
+  decidedAt!: Date | null;
+
+  /** 승인된 계획을 실행한 크론 작업 ID (하위 패턴에서 approvalId 검증에 사용) */
+  @Column({ name: 'executed_cron_id', type: 'varchar', length: 255, nullable: true })
+  executedCronId!: string | null;
+
+  @Column({ name: 'executed_at', type: 'timestamp', nullable: true })
+  executedAt!: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RabbitMQApprovalEntity } from './rabbitmq.approval.entity';
+import { RabbitMQApprovalService } from './rabbitmq.approval.service';
+
+/**
+ * 삭제 / 판매 중지 작업의 안전 기준과 관리자 승인 모듈
+ *
+ * 서비스의 TypeOrmModule.forRootAsync / RabbitMQModule.forRoot 이후에 import 하면
+ * RabbitMQApprovalService.guard 로 계획을 검사할 수 있습니다.
+ * (autoLoadEntities + synchronize 설정으로 rabbitmq_approval 테이블이 생성됨)
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([RabbitMQApprovalEntity])],
+  providers: [RabbitMQApprovalService],
+  exports: [RabbitMQApprovalService],
+})
+export class RabbitMQApprovalModule {}
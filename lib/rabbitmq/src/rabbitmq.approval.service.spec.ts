@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+import { RabbitMQApprovalError, RabbitMQApprovalService } from './rabbitmq.approval.service';
+
+describe('RabbitMQApprovalService', () => {
+  const items = [
+    { id: 1001, name: 'CH0000001 품절 상품' },
+    { id: 1002, name: 'CH0000002 품절 상품' },
+  ];
+  const planHash = (ids: string[]) =>
+    crypto.createHash('sha256').update(JSON.stringify(ids.sort())).digest('hex');
+
+  let repository: { findOne: jest.Mock };
+  let service: RabbitMQApprovalService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    repository = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 7,
+        status: 'executed',
+        executedCronId: 'cron-1',
+        planHash: planHash(['1001', '1002']),
+        plan: { action: 'soldout:deleteMatchProducts', items },
+      }),
+    };
+    service = new RabbitMQApprovalService(
+      repository as any,
+      { get: () => undefined } as any,
+      {} as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('guard', () => {
+    const request = {
+      action: 'coupang-queue:deleteProducts',
+      cronId: 'cron-1',
+      type: 'SOLDOUT',
+      options: { approvalId: 7 },
+    };
+
+    it('승인된 계획과 같은 대상이면 실행한다', async () => {
+      const result = await service.guard({ ...request, items: [...items].reverse() });
+
+      expect(result).toMatchObject({ status: 'executed', approvalId: 7 });
+    });
+
+    it('승인된 계획과 대상이 다르면 승인 번호를 사용할 수 없다', async () => {
+      const guarded = service.guard({
+        ...request,
+        items: [...items, { id: 1003, name: 'CH0000003 판매 상품' }],
+      });
+
+      await expect(guarded).rejects.toThrow(RabbitMQApprovalError);
+      await expect(guarded).rejects.toThrow('승인된 계획과 대상이 다릅니다');
+    });
+
+    it('다른 작업에서 실행된 승인은 사용할 수 없다', async () => {
+      await expect(service.guard({ ...request, cronId: 'cron-2', items })).rejects.toThrow(
+        '현재 작업(cron-2)에서 실행된 승인이 아닙니다.',
+      );
+    });
+  });
+});
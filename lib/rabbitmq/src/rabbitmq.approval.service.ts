@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+
+import { CronType } from '@daechanjo/models';
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { RabbitMQApprovalEntity, RabbitMQApprovalStatus } from './rabbitmq.approval.entity';
+import {
+  DestructiveOptions,
+  DestructivePlan,
+  DestructivePlanItem,
+  DestructiveRunResult,
+} from './rabbitmq.contracts';
+import { RABBITMQ_MODULE_OPTIONS, RabbitMQModuleOptions } from './rabbitmq.options';
+import { RabbitMQService } from './rabbitmq.service';
+import { getTraceContext } from './rabbitmq.trace';
+
+/**
+ * 전달된 approvalId 로 실행할 수 없는 경우 (승인되지 않았거나 다른 작업의 승인)
+ */
+export class RabbitMQApprovalError extends Error {
+  readonly code = 'APPROVAL_INVALID';
+
+  constructor(
+    readonly approvalId: number,
+    message: string,
+  ) {
+    super(`승인 #${approvalId} 를 사용할 수 없습니다: ${message}`);
+    this.name = 'RabbitMQApprovalError';
+  }
+}
+
+export interface DestructiveGuardRequest {
+  /** 작업 이름 (예: "coupang-queue:deleteProducts") */
+  action: string;
+  cronId: string;
+  type: string;
+  /** 보류 알림 메일의 스토어 (생략 시 STORE 환경 변수) */
+  store?: string;
+  items: DestructivePlanItem[];
+  /** 비율 기준 계산에 사용할 전체 상품 수 (생략 시 options.catalogSize, 없으면 개수 기준만 적용) */
+  catalogSize?: number;
+  options?: DestructiveOptions;
+}
+
+/**
+ * 삭제 / 판매 중지 작업의 dry-run, 안전 기준, 관리자 승인 처리
+ *
+ * 한 번에 DESTRUCTIVE_MAX_COUNT 개(기본값 100)를 넘거나 전체 상품의 DESTRUCTIVE_MAX_PERCENT %(기본값 10)를
+ * 넘는 계획은 실행하지 않고 rabbitmq_approval 테이블에 보류한 뒤 에러 메일로 알립니다.
+ * 관리자가 rabbitmq-approval approve 로 승인하면, 같은 계획으로 다시 실행될 때 한 번 실행됩니다.
+ */
+@Injectable()
+export class RabbitMQApprovalService {
+  private readonly maxCount: number;
+  private readonly maxPercent: number;
+
+  constructor(
+    @InjectRepository(RabbitMQApprovalEntity)
+    private readonly repository: Repository<RabbitMQApprovalEntity>,
+    private readonly configService: ConfigService,
+    private readonly rabbitmqService: RabbitMQService,
+    @Optional()
+    @Inject(RABBITMQ_MODULE_OPTIONS)
+    private readonly moduleOptions: RabbitMQModuleOptions = {},
+  ) {
+    this.maxCount = Number(this.configService.get('DESTRUCTIVE_MAX_COUNT') ?? 100);
+    this.maxPercent = Number(this.configService.get('DESTRUCTIVE_MAX_PERCENT') ?? 10);
+  }
+
+  /**
+   * 삭제 / 판매 중지 계획을 실행해도 되는지 판단합니다.
+   *
+   * @param request - 작업 이름, 대상 목록, 전체 상품 수, dry-run / 승인 옵션
+   * @returns status 가 executed 일 때만 호출부가 작업을 실행
+   * @throws RabbitMQApprovalError - approvalId 가 같은 cronId 에서 실행된 승인이 아니거나 대상이 승인된 계획과 다른 경우
+   *
+   * @description
+   * 1. dryRun 이면 계획과 (기준 초과 시) 보류 사유만 반환
+   * 2. approvalId 가 있으면 상위 작업이 같은 cronId 로 실행한 승인이고 대상이 승인된 계획과 같은지 확인 후 실행
+   * 3. 안전 기준 이내면 실행
+   * 4. 같은 계획의 승인이 있으면 executed 로 바꾸고 실행 (한 번만 사용)
+   * 5. 그 외에는 승인 대기로 보류하고 held 반환
+   */
+  async guard(request: DestructiveGuardRequest): Promise<DestructiveRunResult> {
+    const { action, cronId, options = {} } = request;
+    const plan: DestructivePlan = {
+      action,
+      items: request.items,
+      catalogSize: request.catalogSize ?? options.catalogSize,
+    };
+    const reason = this.checkThreshold(plan);
+
+    if (options.dryRun) {
+      console.log(
+        `${request.type}${cronId}: [dry-run] ${action} ${plan.items.length}개${reason ? ` - ${reason}` : ''}`,
+      );
+      return { status: 'dry-run', plan, reason };
+    }
+
+    if (options.approvalId) {
+      const approval = await this.repository.findOne({ where: { id: options.approvalId } });
+      if (!approval || approval.status !== 'executed' || approval.executedCronId !== cronId) {
+        throw new RabbitMQApprovalError(
+          options.approvalId,
+          `현재 작업(${cronId})에서 실행된 승인이 아닙니다.`,
+        );
+      }
+      // 승인 이후 대상이 바뀌었거나 다른 계획에 승인 번호를 재사용한 경우
+      if (approval.planHash !== this.hashPlan(plan)) {
+        throw new RabbitMQApprovalError(
+          options.approvalId,
+          `승인된 계획과 대상이 다릅니다. (승인 ${approval.plan.items.length}개, 요청 ${plan.items.length}개)`,
+        );
+      }
+      return { status: 'executed', plan, approvalId: approval.id };
+    }
+
+    if (!reason) return { status: 'executed', plan };
+
+    const planHash = this.hashPlan(plan);
+    const approved = await this.repository.findOne({
+      where: { action, planHash, status: 'approved' },
+      order: { id: 'DESC' },
+    });
+    if (approved) {
+      const updated = await this.repository.update(
+        { id: approved.id, status: 'approved' },
+        { status: 'executed', executedCronId: cronId, executedAt: new Date() },
+      );
+      if (updated.affected) {
+        console.log(`${request.type}${cronId}: ${action} 승인 #${approved.id} 계획 실행`);
+        return { status: 'executed', plan, approvalId: approved.id, reason };
+      }
+    }
+
+    const approval = await this.hold(request, plan, planHash, reason);
+    return { status: 'held', plan, approvalId: approval.id, reason };
+  }
+
+  async findPending(): Promise<RabbitMQApprovalEntity[]> {
+    return await this.repository.find({ where: { status: 'pending' }, order: { id: 'ASC' } });
+  }
+
+  async findRecent(limit: number = 50): Promise<RabbitMQApprovalEntity[]> {
+    return await this.repository.find({ order: { id: 'DESC' }, take: limit });
+  }
+
+  async findById(id: number): Promise<RabbitMQApprovalEntity | null> {
+    return await this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * 보류된 계획을 승인합니다. 같은 계획이 다음에 실행될 때 한 번 실행됩니다.
+   */
+  async approve(id: number, decidedBy: string): Promise<RabbitMQApprovalEntity> {
+    return await this.decide(id, 'approved', decidedBy);
+  }
+
+  async reject(id: number, decidedBy: string): Promise<RabbitMQApprovalEntity> {
+    return await this.decide(id, 'rejected', decidedBy);
+  }
+
+  private async decide(
+    id: number,
+    status: RabbitMQApprovalStatus,
+    decidedBy: string,
+  ): Promise<RabbitMQApprovalEntity> {
+    const updated = await this.repository.update(
+      { id, status: 'pending' },
+      { status, decidedBy, decidedAt: new Date() },
+    );
+    if (!updated.affected) {
+      throw new RabbitMQApprovalError(id, '승인 대기 중인 계획이 아닙니다.');
+    }
+    return (await this.findById(id))!;
+  }
+
+  // 안전 기준을 넘으면 사유 반환
+  private checkThreshold(plan: DestructivePlan): string | undefined {
+    const count = plan.items.length;
+    if (count > this.maxCount) {
+      return `대상 ${count}개가 최대 ${this.maxCount}개를 초과합니다.`;
+    }
+
+    if (plan.catalogSize && plan.catalogSize > 0) {
+      const percent = (count / plan.catalogSize) * 100;
+      if (percent > this.maxPercent) {
+        return `대상 ${count}개가 전체 ${plan.catalogSize}개의 ${percent.toFixed(1)}% 로 최대 ${this.maxPercent}% 를 초과합니다.`;
+      }
+    }
+
+    return undefined;
+  }
+
+  private hashPlan(plan: DestructivePlan): string {
+    const ids = plan.items.map((item) => String(item.id)).sort();
+    return crypto.createHash('sha256').update(JSON.stringify(ids)).digest('hex');
+  }
+
+  /**
+   * 계획을 승인 대기로 보류합니다.
+   *
+   * @description
+   * 1. 같은 작업의 pending 이 있으면 계획을 갱신 (크론이 반복되어도 승인 요청은 하나만 유지)
+   * 2. 새로 보류했거나 계획이 바뀐 경우에만 에러 메일로 알림
+   */
+  private async hold(
+    request: DestructiveGuardRequest,
+    plan: DestructivePlan,
+    planHash: string,
+    reason: string,
+  ): Promise<RabbitMQApprovalEntity> {
+    const { action, cronId, type } = request;
+    const pending = await this.repository.findOne({ where: { action, status: 'pending' } });
+
+    if (pending?.planHash === planHash) {
+      console.warn(`${type}${cronId}: ${action} 승인 #${pending.id} 대기 중 - ${reason}`);
+      return pending;
+    }
+
+    const correlationId = getTraceContext()?.correlationId ?? cronId;
+    const approval = pending
+      ? await this.repository.save({ ...pending, plan, planHash, reason, cronId, correlationId })
+      : await this.repository.save(
+          this.repository.create({
+            action,
+            status: 'pending',
+            planHash,
+            plan,
+            reason,
+            cronId,
+            correlationId,
+            serviceName: this.moduleOptions.serviceName ?? null,
+          }),
+        );
+
+    const message = [
+      `${action} 작업이 안전 기준을 넘어 승인 대기 중입니다 (승인 #${approval.id}).`,
+      reason,
+      `대상: ${plan.items
+        .slice(0, 20)
+        .map((item) => item.name ?? item.id)
+        .join(', ')}${plan.items.length > 20 ? ` 외 ${plan.items.length - 20}개` : ''}`,
+      `확인 후 "rabbitmq-approval approve ${approval.id}" 로 승인하면 다음 실행에서 처리됩니다.`,
+    ].join('\n');
+
+    console.warn(`${type}${cronId}: ${message}`);
+
+    try {
+      await this.rabbitmqService.emit('mail-queue', 'sendErrorMail', {
+        cronType: type as CronType,
+        store: request.store ?? this.configService.get<string>('STORE')!,
+        cronId,
+        message,
+      });
+    } catch (error) {
+      console.error(`${type}${cronId}: 승인 요청 메일 발송 실패`, error);
+    }
+
+    return approval;
+  }
+}
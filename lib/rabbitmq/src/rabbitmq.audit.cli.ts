@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RabbitMQMessageLogEntity } from './rabbitmq.audit.entity';
+import { RabbitMQAuditModule } from './rabbitmq.audit.module';
+import { RabbitMQAuditService } from './rabbitmq.audit.service';
+import { RabbitMQModule } from './rabbitmq.module';
+import { RabbitMQService } from './rabbitmq.service';
+
+const USAGE = `사용법: rabbitmq-audit <명령> [옵션]
+
+  list <cronId> [--queue <queue>] [--pattern <pattern>]   cronId 로 메시지 기록 조회
+  recent [--queue <queue>] [--pattern <pattern>] [--limit <n>]   최근 메시지 기록 조회
+  show <id>                                                메시지 기록 상세 (개인정보는 가려서 출력)
+  replay <id> [--timeout <ms>]                             기록된 메시지를 원본 payload 로 같은 대기열에 다시 발행
+  prune [--days <n>]                                       보관 기간이 지난 메시지 기록 삭제`;
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
+    }),
+    TypeOrmModule.forRootAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        type: 'postgres',
+        host: configService.get<string>('DB_HOST'),
+        port: Number(configService.get('DB_PORT')),
+        username: configService.get<string>('DB_USER'),
+        password: String(configService.get('DB_PASSWORD')),
+        database: configService.get<string>('DB_NAME'),
+        ssl: configService.get('DB_SSL') === 'true' ? { rejectUnauthorized: false } : undefined,
+        entities: [RabbitMQMessageLogEntity],
+        synchronize: false,
+        logging: false,
+      }),
+    }),
+    RabbitMQAuditModule,
+    RabbitMQModule.forRoot({ serviceName: 'rabbitmq-audit-cli' }),
+  ],
+})
+class RabbitMQAuditCliModule {}
+
+function parseArgs(argv: string[]): { positional: string[]; options: Record<string, string> } {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, options };
+}
+
+function printLogs(logs: RabbitMQMessageLogEntity[]): void {
+  if (logs.length === 0) {
+    console.log('메시지 기록이 없습니다.');
+    return;
+  }
+
+  console.table(
+    logs.map((log) => ({
+      id: log.id,
+      createdAt: log.createdAt.toISOString(),
+      service: log.serviceName,
+      direction: log.direction,
+      kind: log.kind,
+      queue: log.queue,
+      pattern: log.pattern,
+      status: log.status,
+      latencyMs: log.latencyMs,
+      error: log.error,
+    })),
+  );
+}
+
+async function main(): Promise<void> {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+
+  if (!['list', 'recent', 'show', 'replay', 'prune'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(RabbitMQAuditCliModule, {
+    logger: ['error', 'warn'],
+  });
+  const auditService = app.get(RabbitMQAuditService);
+  const filter = {
+    queue: options.queue,
+    pattern: options.pattern,
+    limit: options.limit ? Number(options.limit) : undefined,
+  };
+
+  try {
+    switch (command) {
+      case 'list':
+        if (!positional[0]) throw new Error('cronId 를 입력하세요.');
+        printLogs(await auditService.findByCronId(positional[0], filter));
+        break;
+
+      case 'recent':
+        printLogs(await auditService.findRecent(filter));
+        break;
+
+      case 'prune': {
+        const deleted = await auditService.prune(
+          options.days !== undefined ? Number(options.days) : undefined,
+        );
+        console.log(`메시지 기록 ${deleted}건을 삭제했습니다.`);
+        break;
+      }
+
+      case 'show': {
+        // 개인정보가 가려진 payload 만 출력 (재전송용 원본은 조회하지 않음)
+        const log = await auditService.findById(Number(positional[0]));
+        if (!log) throw new Error(`메시지 기록을 찾을 수 없습니다: ${positional[0]}`);
+        console.log(JSON.stringify(log, null, 2));
+        break;
+      }
+
+      case 'replay': {
+        console.log(`#${positional[0]} 재전송`);
+        const response = await auditService.replay(
+          Number(positional[0]),
+          app.get(RabbitMQService),
+          options.timeout ? { timeout: Number(options.timeout) } : {},
+        );
+        console.log(response === undefined ? '발행 완료' : JSON.stringify(response, null, 2));
+        break;
+      }
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+export type RabbitMQMessageDirection = 'outgoing' | 'incoming';
+
+export type RabbitMQMessageKind = 'send' | 'emit';
+
+export type RabbitMQMessageStatus = 'success' | 'error';
+
+/**
+ * 서비스 간에 주고받은 RabbitMQ 메시지 기록
+ * 송신 측(RabbitMQService)은 outgoing, 수신 측(RabbitMQAuditInterceptor)은 incoming 으로 기록합니다.
+ */
+@Entity({ name: 'rabbitmq_message_log' })
+export class RabbitMQMessageLogEntity {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ type: 'varchar', length: 10 })
+  direction!: RabbitMQMessageDirection;
+
+  @Column({ type: 'varchar', length: 10 })
+  kind!: RabbitMQMessageKind;
+
+  @Column({ type: 'varchar', length: 100 })
+  queue!: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  pattern!: string;
+
+  @Index()
+  @Column({ name: 'cron_id', type: 'varchar', length: 255, nullable: true })
+  cronId!: string | null;
+
+  @Column({ name: 'correlation_id', type: 'varchar', length: 255, nullable: true })
+  correlationId!: string | null;
+
+  @Column({ name: 'service_name', type: 'varchar', length: 100, nullable: true })
+  serviceName!: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload!: any;
+
+  @Column({ type: 'jsonb', nullable: true })
+  response!: any;
+
+  /**
+   * 재전송 전용 원본 payload (개인정보가 가려진 경우에만, RABBITMQ_AUDIT_REPLAY_KEY 로 암호화)
+   * 기본 조회에서는 불러오지 않으며 RabbitMQAuditService.replay 에서만 사용합니다.
+   */
+  @Column({ name: 'replay_payload', type: 'text', nullable: true, select: false })
+  replayPayload!: string | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  status!: RabbitMQMessageStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error!: string | null;
+
+  @Column({ name: 'latency_ms', type: 'int' })
+  latencyMs!: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,73 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import { RmqContext } from '@nestjs/microservices';
+import { Observable, tap } from 'rxjs';
+
+import { RabbitMQMessageKind } from './rabbitmq.audit.entity';
+import { RabbitMQAuditService } from './rabbitmq.audit.service';
+import { InMemoryContext } from './rabbitmq.memory';
+import { getTraceContext } from './rabbitmq.trace';
+
+/**
+ * 수신한 메시지와 처리 결과를 rabbitmq_message_log 테이블에 기록하는 인터셉터 (선택)
+ *
+ * RabbitMQAuditModule 을 import 한 뒤 RabbitMQResponseInterceptor 다음에 지정합니다.
+ * 응답 봉투로 감싸기 전의 핸들러 결과와 예외, 처리 시간을 기록합니다.
+ * 메시지 기록이 비활성화되어 RabbitMQAuditService 가 없으면 아무것도 하지 않습니다.
+ *
+ * @example
+ * @MessagePattern('coupang-queue')
+ * @UseInterceptors(RabbitMQResponseInterceptor, RabbitMQAuditInterceptor)
+ */
+@Injectable()
+export class RabbitMQAuditInterceptor implements NestInterceptor {
+  constructor(@Optional() private readonly auditService?: RabbitMQAuditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const auditService = this.auditService;
+    if (!auditService) return next.handle();
+
+    const message = context.switchToRpc().getData();
+    const rpcContext = context.switchToRpc().getContext();
+    const startedAt = Date.now();
+
+    const entry = {
+      direction: 'incoming' as const,
+      kind: this.getKind(rpcContext),
+      queue: this.getQueue(rpcContext),
+      pattern: String(message?.pattern),
+      payload: message?.payload,
+      // 결과가 도착하는 시점에는 추적 범위를 벗어나므로 미리 조회
+      correlationId: getTraceContext()?.correlationId,
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: (response) =>
+          void auditService.record({ ...entry, response, latencyMs: Date.now() - startedAt }),
+        error: (error) =>
+          void auditService.record({ ...entry, error, latencyMs: Date.now() - startedAt }),
+      }),
+    );
+  }
+
+  private getQueue(rpcContext: unknown): string {
+    if (rpcContext instanceof RmqContext) return String(rpcContext.getPattern());
+    if (rpcContext instanceof InMemoryContext) return rpcContext.getQueue();
+    return 'unknown';
+  }
+
+  // 응답 큐(replyTo)가 지정된 메시지는 send, 그 외는 emit
+  private getKind(rpcContext: unknown): RabbitMQMessageKind {
+    if (rpcContext instanceof RmqContext) {
+      return rpcContext.getMessage().properties?.replyTo ? 'send' : 'emit';
+    }
+    if (rpcContext instanceof InMemoryContext) return rpcContext.getKind();
+    return 'send';
+  }
+}
@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RabbitMQMessageLogEntity } from './rabbitmq.audit.entity';
+import { RabbitMQAuditInterceptor } from './rabbitmq.audit.interceptor';
+import { RabbitMQAuditService } from './rabbitmq.audit.service';
+
+/**
+ * 메시지 기록(audit log) 활성화 모듈
+ *
+ * 서비스의 TypeOrmModule.forRootAsync 이후에 import 하면
+ * RabbitMQService 의 send / emit 이 outgoing 으로 기록되고,
+ * 컨트롤러에 RabbitMQAuditInterceptor 를 지정하면 수신 메시지가 incoming 으로 기록됩니다.
+ * (autoLoadEntities + synchronize 설정으로 rabbitmq_message_log 테이블이 생성됨)
+ *
+ * 개인정보가 포함된 메시지가 저장되므로 환경 변수로 켤 때만 등록합니다.
+ *
+ * @example
+ * ConditionalModule.registerWhen(RabbitMQAuditModule, 'RABBITMQ_AUDIT_ENABLED')
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([RabbitMQMessageLogEntity])],
+  providers: [RabbitMQAuditService, RabbitMQAuditInterceptor],
+  exports: [RabbitMQAuditService, RabbitMQAuditInterceptor],
+})
+export class RabbitMQAuditModule {}
@@ -0,0 +1,179 @@
+import { RabbitMQAuditService, redactAuditValue } from './rabbitmq.audit.service';
+
+describe('RabbitMQAuditService', () => {
+  let repository: { insert: jest.Mock; delete: jest.Mock; createQueryBuilder: jest.Mock };
+  let rows: any[];
+  let env: Record<string, string>;
+
+  const createService = () =>
+    new RabbitMQAuditService(repository as any, { get: (key: string) => env[key] } as any, {
+      serviceName: 'order',
+    });
+
+  beforeEach(() => {
+    rows = [];
+    repository = {
+      insert: jest.fn(async (row) => {
+        rows.push({ id: rows.length + 1, ...row });
+      }),
+      delete: jest.fn().mockResolvedValue({ affected: 3 }),
+      // replay 의 addSelect('log.replayPayload') 조회
+      createQueryBuilder: jest.fn(() => {
+        let id: number;
+        const builder = {
+          addSelect: () => builder,
+          where: (_: string, params: { id: number }) => {
+            id = params.id;
+            return builder;
+          },
+          getOne: async () => rows.find((row) => row.id === id) ?? null,
+        };
+        return builder;
+      }),
+    };
+    env = {};
+  });
+
+  describe('redactAuditValue', () => {
+    it('중첩 객체 / 배열의 필드만 가리고 원본은 바꾸지 않는다', () => {
+      const payload = {
+        cronId: 'cron-1',
+        orders: [{ orderId: 1, receiver: { name: '홍길동', safeNumber: '0502-1234-5678' } }],
+      };
+
+      expect(redactAuditValue(payload, new Set(['name', 'safeNumber']))).toEqual({
+        cronId: 'cron-1',
+        orders: [{ orderId: 1, receiver: { name: '[REDACTED]', safeNumber: '[REDACTED]' } }],
+      });
+      expect(payload.orders[0].receiver.name).toBe('홍길동');
+    });
+  });
+
+  describe('record', () => {
+    it('개인정보 필드를 가린 뒤 저장한다', async () => {
+      env.RABBITMQ_AUDIT_REDACT_FIELDS = 'memo, trackNumber';
+
+      await createService().record({
+        direction: 'outgoing',
+        kind: 'send',
+        queue: 'onch-queue',
+        pattern: 'automaticOrdering',
+        payload: {
+          cronId: 'cron-1',
+          newOrderProducts: [
+            {
+              orderId: 1,
+              orderer: { name: '홍길동' },
+              receiver: { addr1: '서울', postCode: '04524' },
+            },
+          ],
+          memo: '부재 시 연락',
+        },
+        response: { status: 'success', data: [{ ordererName: '홍길동', trackNumber: '1234' }] },
+        latencyMs: 10,
+      });
+
+      expect(repository.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cronId: 'cron-1',
+          serviceName: 'order',
+          payload: {
+            cronId: 'cron-1',
+            newOrderProducts: [
+              {
+                orderId: 1,
+                orderer: { name: '[REDACTED]' },
+                receiver: { addr1: '[REDACTED]', postCode: '[REDACTED]' },
+              },
+            ],
+            memo: '[REDACTED]',
+          },
+          response: {
+            status: 'success',
+            data: [{ ordererName: '[REDACTED]', trackNumber: '[REDACTED]' }],
+          },
+        }),
+      );
+    });
+  });
+
+  describe('replay', () => {
+    const entry = {
+      direction: 'outgoing' as const,
+      kind: 'send' as const,
+      queue: 'onch-queue',
+      pattern: 'automaticOrdering',
+      payload: {
+        cronId: 'cron-1',
+        newOrderProducts: [{ orderId: 1, receiver: { name: '홍길동', safeNumber: '0502-1234' } }],
+      },
+      latencyMs: 10,
+    };
+    const sender = { send: jest.fn().mockResolvedValue({ status: 'success' }), emit: jest.fn() };
+
+    beforeEach(() => {
+      sender.send.mockClear();
+      sender.emit.mockClear();
+    });
+
+    it('가려진 기록은 암호화해 둔 원본 payload 로 재전송한다', async () => {
+      env.RABBITMQ_AUDIT_REPLAY_KEY = 'test-replay-key';
+      const service = createService();
+
+      await service.record(entry);
+
+      expect(rows[0].payload.newOrderProducts[0].receiver.name).toBe('[REDACTED]');
+      expect(rows[0].replayPayload).not.toContain('홍길동');
+
+      const response = await service.replay(1, sender as any, { timeout: 1000 });
+
+      expect(response).toEqual({ status: 'success' });
+      expect(sender.send).toHaveBeenCalledWith('onch-queue', 'automaticOrdering', entry.payload, {
+        timeout: 1000,
+      });
+    });
+
+    it('가려지지 않은 기록은 원본을 따로 보관하지 않고 그대로 재전송한다', async () => {
+      env.RABBITMQ_AUDIT_REPLAY_KEY = 'test-replay-key';
+      const service = createService();
+      const payload = { cronId: 'cron-1', type: 'ORDER' };
+
+      await service.record({ ...entry, kind: 'emit', payload });
+      await service.replay(1, sender as any);
+
+      expect(rows[0].replayPayload).toBeNull();
+      expect(sender.emit).toHaveBeenCalledWith('onch-queue', 'automaticOrdering', payload);
+    });
+
+    it('키 없이 기록된 가려진 기록은 재전송하지 않는다', async () => {
+      const service = createService();
+
+      await service.record(entry);
+
+      await expect(service.replay(1, sender as any)).rejects.toThrow('원본 payload 가 보관되지');
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prune', () => {
+    it('보관 기간이 지난 기록을 삭제하고 삭제 건수를 반환한다', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-01-31T00:00:00Z'));
+
+      const deleted = await createService().prune(30);
+
+      expect(deleted).toBe(3);
+      const [{ createdAt }] = repository.delete.mock.calls[0];
+      expect(createdAt.value).toEqual(new Date('2025-01-01T00:00:00Z'));
+
+      jest.useRealTimers();
+    });
+
+    it('보관 기간이 0 이면 주기적으로 삭제하지 않는다', () => {
+      env.RABBITMQ_AUDIT_RETENTION_DAYS = '0';
+
+      createService().onModuleInit();
+
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+
+import {
+  RabbitMQMessageDirection,
+  RabbitMQMessageKind,
+  RabbitMQMessageLogEntity,
+} from './rabbitmq.audit.entity';
+import { PatternOf, PayloadOf, QueueName } from './rabbitmq.contracts';
+import {
+  RABBITMQ_MODULE_OPTIONS,
+  RabbitMQCallOptions,
+  RabbitMQModuleOptions,
+} from './rabbitmq.options';
+import { isRabbitMQResponse } from './rabbitmq.response';
+import type { RabbitMQService } from './rabbitmq.service';
+import { getTraceContext } from './rabbitmq.trace';
+
+export interface RabbitMQAuditEntry {
+  direction: RabbitMQMessageDirection;
+  kind: RabbitMQMessageKind;
+  queue: string;
+  pattern: string;
+  payload?: any;
+  response?: any;
+  error?: unknown;
+  latencyMs: number;
+  /** 생략 시 현재 추적 정보의 correlationId (없으면 cronId) */
+  correlationId?: string;
+}
+
+/**
+ * 기록 전에 값을 가리는 개인정보 필드 (고객 이름 / 연락처 / 주소)
+ * RABBITMQ_AUDIT_REDACT_FIELDS 에 쉼표로 구분한 필드를 추가할 수 있습니다.
+ */
+export const DEFAULT_AUDIT_REDACT_FIELDS = [
+  'name',
+  'ordererName',
+  'receiverName',
+  'nameText',
+  'safeNumber',
+  'phoneText',
+  'ordererNumber',
+  'receiverNumber',
+  'email',
+  'addr1',
+  'addr2',
+  'fullAddress',
+  'postCode',
+  'parcelPrintMessage',
+];
+
+export const AUDIT_REDACTED = '[REDACTED]';
+
+// 보관 기간이 지난 기록 삭제 주기
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000;
+
+const REPLAY_CIPHER = 'aes-256-gcm';
+
+// RABBITMQ_AUDIT_REPLAY_KEY 로 재전송용 원본 payload 암호화 ("iv:authTag:data", base64)
+function encryptReplayPayload(payload: unknown, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(REPLAY_CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64')).join(':');
+}
+
+function decryptReplayPayload(encrypted: string, key: Buffer): unknown {
+  const [iv, authTag, data] = encrypted.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(REPLAY_CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+  return JSON.parse(Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8'));
+}
+
+/**
+ * 값 안의 개인정보 필드를 AUDIT_REDACTED 로 바꾼 사본을 반환합니다. (중첩 객체 / 배열 포함)
+ *
+ * @param value - 기록할 payload / response
+ * @param fields - 가릴 필드 이름
+ */
+export function redactAuditValue<T>(value: T, fields: ReadonlySet<string>): T {
+  if (Array.isArray(value)) return value.map((item) => redactAuditValue(item, fields)) as T;
+  if (!value || typeof value !== 'object' || value instanceof Date) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      fields.has(key) && field !== null && field !== undefined
+        ? AUDIT_REDACTED
+        : redactAuditValue(field, fields),
+    ]),
+  ) as T;
+}
+
+/**
+ * 재전송에 사용하는 송신 측
+ * RabbitMQService 가 RabbitMQAuditService 에 의존하므로 주입 대신 호출 시 전달받습니다.
+ */
+export type RabbitMQReplaySender = Pick<RabbitMQService, 'send' | 'emit'>;
+
+export interface RabbitMQAuditFilter {
+  queue?: string;
+  pattern?: string;
+  limit?: number;
+}
+
+/**
+ * RabbitMQ 메시지 기록 저장 / 조회
+ *
+ * RabbitMQAuditModule 을 import 한 서비스에서만 활성화되며,
+ * 기록 실패가 메시지 처리에 영향을 주지 않도록 저장 오류는 로그만 남깁니다.
+ * payload / response 의 개인정보 필드는 가린 뒤 저장하고,
+ * 재전송을 위해 가리기 전의 payload 는 RABBITMQ_AUDIT_REPLAY_KEY 로 암호화하여 별도 컬럼에 보관합니다.
+ * RABBITMQ_AUDIT_RETENTION_DAYS 일(기본값 14일, 0 이면 삭제 안 함)이 지난 기록은 하루마다 삭제합니다.
+ */
+@Injectable()
+export class RabbitMQAuditService implements OnModuleInit, OnModuleDestroy {
+  private readonly retentionDays: number;
+  private readonly redactFields: Set<string>;
+  private readonly replayKey?: Buffer;
+  private pruneTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(RabbitMQMessageLogEntity)
+    private readonly repository: Repository<RabbitMQMessageLogEntity>,
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject(RABBITMQ_MODULE_OPTIONS)
+    private readonly moduleOptions: RabbitMQModuleOptions = {},
+  ) {
+    this.retentionDays = Number(this.configService.get('RABBITMQ_AUDIT_RETENTION_DAYS') ?? 14);
+    this.redactFields = new Set([
+      ...DEFAULT_AUDIT_REDACT_FIELDS,
+      ...String(this.configService.get('RABBITMQ_AUDIT_REDACT_FIELDS') ?? '')
+        .split(',')
+        .map((field) => field.trim())
+        .filter(Boolean),
+    ]);
+
+    const replayKey = this.configService.get<string>('RABBITMQ_AUDIT_REPLAY_KEY');
+    this.replayKey = replayKey ? createHash('sha256').update(replayKey).digest() : undefined;
+  }
+
+  onModuleInit(): void {
+    if (this.retentionDays <= 0) return;
+
+    void this.pruneExpired();
+    this.pruneTimer = setInterval(() => void this.pruneExpired(), PRUNE_INTERVAL);
+    this.pruneTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.pruneTimer);
+  }
+
+  /**
+   * 메시지 기록 저장
+   *
+   * @description
+   * 1. payload 의 cronId 와 correlationId 를 함께 기록 (추적 헤더와 동일하게 cronId 로 대체)
+   * 2. 예외가 발생했거나 응답이 error 봉투이면 status 를 error 로 기록
+   * 3. payload / response 의 개인정보 필드를 가림
+   * 4. payload 가 가려졌으면 원본을 암호화하여 replayPayload 에 보관 (키가 없으면 보관하지 않음)
+   * 5. 저장 실패는 호출부로 전파하지 않음
+   */
+  async record(entry: RabbitMQAuditEntry): Promise<void> {
+    const cronId = (entry.payload as { cronId?: unknown } | undefined)?.cronId;
+    const remoteError =
+      isRabbitMQResponse(entry.response) && entry.response.status === 'error'
+        ? (entry.response.error?.message ?? '알 수 없는 오류')
+        : undefined;
+    const error = entry.error
+      ? entry.error instanceof Error
+        ? entry.error.message
+        : String(entry.error)
+      : remoteError;
+
+    try {
+      const payload = redactAuditValue(entry.payload ?? null, this.redactFields);
+      const redacted = JSON.stringify(payload) !== JSON.stringify(entry.payload ?? null);
+
+      await this.repository.insert({
+        direction: entry.direction,
+        kind: entry.kind,
+        queue: entry.queue,
+        pattern: entry.pattern,
+        cronId: typeof cronId === 'string' ? cronId : null,
+        correlationId:
+          entry.correlationId ??
+          getTraceContext()?.correlationId ??
+          (typeof cronId === 'string' ? cronId : null),
+        serviceName: this.moduleOptions.serviceName ?? null,
+        payload,
+        replayPayload:
+          redacted && this.replayKey ? encryptReplayPayload(entry.payload, this.replayKey) : null,
+        response: redactAuditValue(entry.response ?? null, this.redactFields),
+        status: error ? 'error' : 'success',
+        error: error ?? null,
+        latencyMs: entry.latencyMs,
+      });
+    } catch (saveError) {
+      console.error(
+        `"${entry.queue}" 대기열의 "${entry.pattern}" 메시지 기록을 저장하지 못했습니다:`,
+        saveError,
+      );
+    }
+  }
+
+  /**
+   * cronId 로 메시지 기록 조회 (오래된 순)
+   */
+  async findByCronId(
+    cronId: string,
+    filter: RabbitMQAuditFilter = {},
+  ): Promise<RabbitMQMessageLogEntity[]> {
+    return await this.repository.find({
+      where: { cronId, queue: filter.queue, pattern: filter.pattern },
+      order: { id: 'ASC' },
+      take: filter.limit,
+    });
+  }
+
+  /**
+   * 최근 메시지 기록 조회 (최신 순)
+   */
+  async findRecent(filter: RabbitMQAuditFilter = {}): Promise<RabbitMQMessageLogEntity[]> {
+    return await this.repository.find({
+      where: { queue: filter.queue, pattern: filter.pattern },
+      order: { id: 'DESC' },
+      take: filter.limit ?? 50,
+    });
+  }
+
+  async findById(id: number): Promise<RabbitMQMessageLogEntity | null> {
+    return await this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * 기록된 메시지를 원래 대기열 / 패턴 / payload 그대로 다시 발행
+   *
+   * @param id - 메시지 기록 ID
+   * @param sender - 메시지를 발행할 RabbitMQService
+   * @param options - send 호출 옵션 (timeout 등)
+   * @returns send 로 기록된 메시지의 응답 (emit 은 undefined)
+   * @throws 기록이 없거나, 개인정보가 가려졌는데 복호화할 원본이 없는 경우
+   *
+   * @description
+   * 1. 개인정보가 가려진 기록은 암호화해 둔 원본 payload 를 복호화하여 사용
+   * 2. send 로 기록된 메시지는 send 로 재전송, emit 으로 기록된 메시지는 emit 으로 재발행
+   * 3. payload 의 cronId 가 유지되므로 재전송 기록도 같은 cronId 로 조회됨
+   */
+  async replay(
+    id: number,
+    sender: RabbitMQReplaySender,
+    options: RabbitMQCallOptions = {},
+  ): Promise<unknown> {
+    const log = await this.repository
+      .createQueryBuilder('log')
+      .addSelect('log.replayPayload')
+      .where('log.id = :id', { id })
+      .getOne();
+    if (!log) throw new Error(`메시지 기록을 찾을 수 없습니다: ${id}`);
+
+    const queue = log.queue as QueueName;
+    const pattern = log.pattern as PatternOf<QueueName>;
+    const payload = this.resolveReplayPayload(log) as PayloadOf<QueueName, PatternOf<QueueName>>;
+
+    if (log.kind === 'emit') {
+      await sender.emit(queue, pattern, payload);
+      return undefined;
+    }
+    return await sender.send(queue, pattern, payload, options);
+  }
+
+  private resolveReplayPayload(log: RabbitMQMessageLogEntity): unknown {
+    if (log.replayPayload) {
+      if (!this.replayKey) {
+        throw new Error(
+          `#${log.id} 의 원본 payload 를 복호화하려면 RABBITMQ_AUDIT_REPLAY_KEY 가 필요합니다.`,
+        );
+      }
+      return decryptReplayPayload(log.replayPayload, this.replayKey);
+    }
+
+    if (JSON.stringify(log.payload ?? null).includes(AUDIT_REDACTED)) {
+      throw new Error(
+        `#${log.id} 는 개인정보가 가려진 기록이며 원본 payload 가 보관되지 않았습니다. (RABBITMQ_AUDIT_REPLAY_KEY 미설정 상태에서 기록됨)`,
+      );
+    }
+    return log.payload;
+  }
+
+  /**
+   * 보관 기간이 지난 메시지 기록 삭제
+   *
+   * @param retentionDays - 보관 기간(일), 생략 시 RABBITMQ_AUDIT_RETENTION_DAYS
+   * @returns 삭제한 기록 수
+   */
+  async prune(retentionDays: number = this.retentionDays): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const result = await this.repository.delete({ createdAt: LessThan(cutoff) });
+    return result.affected ?? 0;
+  }
+
+  // 주기적인 삭제 실패는 메시지 처리에 영향을 주지 않도록 로그만 남김
+  private async pruneExpired(): Promise<void> {
+    try {
+      const deleted = await this.prune();
+      if (deleted > 0) console.log(`보관 기간이 지난 메시지 기록 ${deleted}건을 삭제했습니다.`);
+    } catch (error) {
+      console.error('보관 기간이 지난 메시지 기록을 삭제하지 못했습니다:', error);
+    }
+  }
+}
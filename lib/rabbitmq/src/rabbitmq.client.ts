@@ -0,0 +1,91 @@
+import { ClientRMQ, RmqOptions } from '@nestjs/microservices';
+
+import { assertDeadLetterTopology } from './rabbitmq.options';
+
+export type RabbitMQConnectionState = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * 연결이 끊긴 상태에서 emit 을 처리하는 방식
+ * - buffer: 메모리에 보관했다가 재연결 시 순서대로 발행
+ * - fail: 즉시 RabbitMQConnectionError 를 던짐
+ */
+export type RabbitMQDisconnectedEmitStrategy = 'buffer' | 'fail';
+
+export interface RabbitMQQueueConnectionStatus {
+  state: RabbitMQConnectionState;
+  reconnectAttempts: number;
+  bufferedEmits: number;
+  lastConnectedAt?: Date;
+  lastDisconnectedAt?: Date;
+  lastError?: string;
+}
+
+export interface RabbitMQConnectionStatus {
+  healthy: boolean;
+  queues: Record<string, RabbitMQQueueConnectionStatus>;
+}
+
+/**
+ * 브로커와 연결되지 않은 상태에서 send / emit 을 시도한 경우 던져지는 에러
+ */
+export class RabbitMQConnectionError extends Error {
+  readonly code = 'DISCONNECTED';
+
+  constructor(
+    readonly queue: string,
+    message = `"${queue}" 대기열이 RabbitMQ 에 연결되어 있지 않습니다.`,
+  ) {
+    super(message);
+    this.name = 'RabbitMQConnectionError';
+  }
+}
+
+/**
+ * send() 응답이 지정한 시간 안에 도착하지 않은 경우 던져지는 에러
+ */
+export class RabbitMQTimeoutError extends Error {
+  readonly code = 'TIMEOUT';
+
+  constructor(
+    readonly queue: string,
+    readonly pattern: string,
+    readonly timeout: number,
+  ) {
+    super(`"${queue}" 대기열의 "${pattern}" 응답이 ${timeout}ms 안에 도착하지 않았습니다.`);
+    this.name = 'RabbitMQTimeoutError';
+  }
+}
+
+/**
+ * 내부 AMQP 연결(amqp-connection-manager)의 끊김 이벤트를 외부로 전달하는 ClientRMQ
+ *
+ * 기본 ClientRMQ 는 최초 연결 이후의 disconnect 를 로그로만 남기므로,
+ * RabbitMQService 가 큐별 상태를 추적하고 재연결을 직접 제어할 수 있도록 콜백을 연결합니다.
+ * 큐 선언 전에 dead-letter 토폴로지도 함께 준비합니다.
+ */
+export class RabbitMQClient extends ClientRMQ {
+  constructor(
+    options: RmqOptions['options'],
+    private readonly onConnectionLost: (error?: Error) => void,
+  ) {
+    super(options);
+  }
+
+  createClient() {
+    const connection = super.createClient();
+
+    // close() 이후 이전 연결에서 뒤늦게 발생한 이벤트는 무시
+    const notify = (event: { err?: Error } = {}) => {
+      if (this.client === connection) this.onConnectionLost(event.err);
+    };
+    connection.on('disconnect', notify);
+    connection.on('connectFailed', notify);
+
+    return connection;
+  }
+
+  async setupChannel(channel: any, resolve: Function): Promise<void> {
+    await assertDeadLetterTopology(channel, this.queue);
+    return super.setupChannel(channel, resolve);
+  }
+}
@@ -0,0 +1,546 @@
+import {
+  CoupangOrderInfo,
+  CoupangPagingProduct,
+  CoupangProduct,
+  CronType,
+  DeliveryData,
+} from '@daechanjo/models';
+
+/**
+ * 큐 + 패턴 하나에 대한 메시지 계약 (요청 payload 타입과 응답 data 타입)
+ */
+export interface MessageContract<TPayload, TResponse = void> {
+  payload: TPayload;
+  response: TResponse;
+}
+
+/**
+ * 크론 작업에서 발행되는 메시지의 공통 필드
+ */
+export interface CronPayload {
+  cronId: string;
+  type: string;
+}
+
+export interface StorePayload extends CronPayload {
+  store: string;
+}
+
+/**
+ * 삭제 / 판매 중지처럼 되돌리기 어려운 패턴의 공통 옵션
+ */
+export interface DestructiveOptions {
+  /** true 면 실행하지 않고 계획만 반환 */
+  dryRun?: boolean;
+  /** 승인된 계획을 실행 중인 상위 작업의 승인 ID (같은 cronId 에서만 유효) */
+  approvalId?: number;
+  /** 호출부가 이미 조회한 전체 상품 수 (생략 시 처리하는 서비스에서 조회) */
+  catalogSize?: number;
+}
+
+// 서비스 간 주고받는 결과 객체
+
+export interface DestructivePlanItem {
+  id: string | number;
+  name?: string;
+}
+
+/**
+ * 실행 전에 만든 삭제 / 판매 중지 계획
+ */
+export interface DestructivePlan {
+  /** 작업 이름 (예: "coupang-queue:deleteProducts") */
+  action: string;
+  items: DestructivePlanItem[];
+  /** 비율 기준 계산에 사용한 전체 상품 수 */
+  catalogSize?: number;
+}
+
+/**
+ * 삭제 / 판매 중지 패턴의 처리 결과
+ * - dry-run: 계획만 반환 (reason 이 있으면 실제 실행 시 보류될 계획)
+ * - held: 안전 기준을 넘어 승인 대기 (approvalId 로 승인)
+ * - executed: 실행됨 (승인된 계획이면 approvalId 포함)
+ */
+export interface DestructiveRunResult {
+  status: 'dry-run' | 'held' | 'executed';
+  plan: DestructivePlan;
+  approvalId?: number;
+  reason?: string;
+}
+
+export type InvoiceUploadOrder = Omit<CoupangOrderInfo, 'courier'> & {
+  courier: { courier: string; trackingNumber: string };
+  deliveryCompanyCode: string;
+  courierName: string;
+};
+
+/**
+ * 크롤러 작업 실패 시 수집한 스크린샷 / HTML / 트레이스 경로 (@daechanjo/playwright 의 FailureArtifacts)
+ */
+export interface FailureArtifacts {
+  directory: string;
+  url?: string;
+  screenshotPath?: string;
+  htmlPath?: string;
+  tracePath?: string;
+}
+
+export interface InvoiceUploadResult {
+  orderId: number | string;
+  status: 'success' | 'failed';
+  courierName: string;
+  trackingNumber: string;
+  name: string;
+  safeNumber: string;
+  error: string;
+  artifacts?: FailureArtifacts;
+}
+
+export interface AutomaticOrderingResult {
+  status: 'success' | 'failed';
+  orderId: number | string;
+  ordererName: string;
+  receiverName: string;
+  sellerProductName: string;
+  sellerProductItemName: string;
+  shippingCount: number;
+  productCode?: string;
+  safeNumber?: string;
+  fullAddress?: string;
+  error?: string;
+  artifacts?: FailureArtifacts;
+}
+
+/**
+ * 크롤러 셀렉터 상태 점검 결과 (@daechanjo/playwright 의 SelectorHealthReport)
+ */
+export interface SelectorHealthEntry {
+  key: string;
+  description: string;
+  status: 'ok' | 'fallback' | 'missing' | 'empty';
+  matched?: string;
+  error?: string;
+}
+
+export interface SelectorHealthReport {
+  site: string;
+  checkedAt: string;
+  entries: SelectorHealthEntry[];
+  broken: SelectorHealthEntry[];
+}
+
+/**
+ * 쿠팡 취소 / 반품 접수 (returnRequests API 응답 항목)
+ * receiptType 이 CANCEL 이면 취소(출고중지) 요청, RETURN 이면 반품 요청
+ */
+export interface CoupangReturnRequest {
+  receiptId: number;
+  orderId: number;
+  receiptType: 'CANCEL' | 'RETURN' | string;
+  /** RELEASE_STOP_UNCHECKED(출고중지요청), RETURNS_UNCHECKED(반품접수), RETURNS_COMPLETED(반품완료) 등 */
+  receiptStatus: string;
+  createdAt: string;
+  modifiedAt: string;
+  requesterName: string;
+  cancelReasonCategory1?: string;
+  cancelReasonCategory2?: string;
+  cancelReason?: string;
+  cancelCountSum: number;
+  returnItems: {
+    vendorItemId: number;
+    vendorItemName: string;
+    sellerProductId: number;
+    sellerProductName: string;
+    shipmentBoxId: number;
+    purchaseCount: number;
+    cancelCount: number;
+    releaseStatus?: string;
+  }[];
+  [field: string]: any;
+}
+
+/**
+ * 쿠팡 교환 접수 (exchangeRequests API 응답 항목)
+ */
+export interface CoupangExchangeRequest {
+  exchangeId: number;
+  orderId: number;
+  /** RECEIPT(접수), PROGRESS(진행), SUCCESS(완료), REJECT(불가), CANCEL(철회) */
+  exchangeStatus: string;
+  createdAt: string;
+  modifiedAt: string;
+  reasonCode?: string;
+  reasonCodeText?: string;
+  exchangeItemDtoV1s: {
+    vendorItemId: number;
+    vendorItemName: string;
+    orderItemName?: string;
+    quantity: number;
+    shipmentBoxId: number;
+  }[];
+  [field: string]: any;
+}
+
+/**
+ * 쿠팡 상품 등록 / 수정 요청의 옵션 (seller-products API items 항목)
+ * 수정 시 기존 옵션은 sellerProductItemId 와 vendorItemId 를 포함해야 합니다.
+ */
+export interface CoupangProductItemRequest {
+  sellerProductItemId?: number;
+  vendorItemId?: number;
+  itemName: string;
+  originalPrice: number;
+  /** 판매가 (10원 단위) */
+  salePrice: number;
+  maximumBuyCount: number;
+  maximumBuyForPerson: number;
+  maximumBuyForPersonPeriod: number;
+  outboundShippingTimeDay: number;
+  images: { imageOrder: number; imageType: string; vendorPath?: string; cdnPath?: string }[];
+  notices: { noticeCategoryName: string; noticeCategoryDetailName: string; content: string }[];
+  attributes: { attributeTypeName: string; attributeValueName: string }[];
+  contents: { contentsType: string; contentDetails: { content: string; detailType: string }[] }[];
+  [field: string]: any;
+}
+
+/**
+ * 쿠팡 상품 등록 / 수정 요청 본문 (seller-products API)
+ * 자주 사용하는 필드만 명시하며, 그 외 쿠팡 상품 필드는 그대로 전달합니다.
+ */
+export interface CoupangProductRequest {
+  /** 수정 시 필수 */
+  sellerProductId?: number;
+  displayCategoryCode: number;
+  sellerProductName: string;
+  /** 생략 시 스토어의 판매자 ID */
+  vendorId?: string;
+  saleStartedAt: string;
+  saleEndedAt: string;
+  brand?: string;
+  deliveryMethod: string;
+  deliveryCompanyCode: string;
+  deliveryChargeType: string;
+  deliveryCharge: number;
+  freeShipOverAmount: number;
+  deliveryChargeOnReturn: number;
+  returnCenterCode: string;
+  returnCharge: number;
+  outboundShippingPlaceCode: number;
+  vendorUserId: string;
+  /** true 면 저장 후 바로 승인 요청 */
+  requested: boolean;
+  items: CoupangProductItemRequest[];
+  [field: string]: any;
+}
+
+/**
+ * 쿠팡 카테고리 메타 정보 (상품 등록 시 필요한 옵션 / 고시정보 / 구비서류)
+ */
+export interface CoupangCategoryMeta {
+  isAllowSingleItem: boolean;
+  attributes: {
+    attributeTypeName: string;
+    dataType: string;
+    required: string;
+    basicUnit?: string;
+    usableUnits?: string[];
+    exposed: string;
+  }[];
+  noticeCategories: {
+    noticeCategoryName: string;
+    noticeCategoryDetailNames: { noticeCategoryDetailName: string; required: string }[];
+  }[];
+  requiredDocumentNames: { templateName: string; required: string }[];
+  certifications: { certificationType: string; name: string; dataType: string; required: string }[];
+}
+
+/**
+ * 상품 일괄 수정에서 변경할 수 있는 배송 / 반품 필드 (seller-products partial API)
+ */
+export type CoupangProductPatch = Partial<
+  Pick<
+    CoupangProductRequest,
+    | 'deliveryMethod'
+    | 'deliveryCompanyCode'
+    | 'deliveryChargeType'
+    | 'deliveryCharge'
+    | 'freeShipOverAmount'
+    | 'deliveryChargeOnReturn'
+    | 'returnCenterCode'
+    | 'returnCharge'
+    | 'outboundShippingPlaceCode'
+  >
+>;
+
+/**
+ * 상품 일괄 수정 대상 조건 (모든 조건을 만족하는 승인 상품, 생략 시 전체)
+ */
+export interface CoupangProductFilter {
+  sellerProductIds?: number[];
+  /** 상품명에 포함된 문자열 */
+  keyword?: string;
+  displayCategoryCodes?: number[];
+}
+
+export interface BulkProductUpdateResult {
+  sellerProductId: number;
+  sellerProductName: string;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+/**
+ * 상품 일괄 수정 작업 상태
+ */
+export interface BulkProductUpdateStatus {
+  jobId: string;
+  /** Bull 작업 상태 (waiting, active, completed, failed, delayed) */
+  state: string;
+  /** 진행률 (0 ~ 100) */
+  progress: number;
+  total: number;
+  successCount: number;
+  failedCount: number;
+  /** 상품별 결과 (완료 시 엑셀 결과는 메일로 전송) */
+  results: BulkProductUpdateResult[];
+  failedReason?: string;
+}
+
+/**
+ * 보관된 상품의 복원 결과 (restoreProduct 는 수동 실행 전용)
+ * - restored: 다시 등록함
+ * - not-found: 복원할 보관 기록이 없음
+ * - out-of-stock: 온채널 재고가 없거나 확인하지 못해 등록하지 않음
+ * - failed: 등록 요청 실패 (error 에 사유)
+ */
+export interface ProductRestoreResult {
+  productCode: string;
+  status: 'restored' | 'not-found' | 'out-of-stock' | 'failed';
+  archiveId?: number;
+  /** 쿠팡에 다시 등록된 판매자 상품 ID */
+  sellerProductId?: number;
+  error?: string;
+}
+
+/**
+ * 온채널 상품 재고 확인 결과
+ * available 이 null 이면 상품을 찾지 못했거나 상세 페이지에서 품절 / 판매 가능 표시를 모두 찾지 못한 경우입니다.
+ */
+export interface OnchStockStatus {
+  productCode: string;
+  available: boolean | null;
+}
+
+/**
+ * 판매를 재개한 쿠팡 상품
+ */
+export interface ResumedProduct {
+  sellerProductId: number;
+  productName: string;
+  /** 판매를 재개한 옵션 ID */
+  vendorItemIds: number[];
+}
+
+export interface DeletedProduct {
+  sellerProductId?: number;
+  originProductNo?: number;
+  productName: string;
+}
+
+export interface UpdatedPriceItem {
+  sellerProductId: number;
+  vendorItemId: number;
+  itemName: string;
+  action: string;
+  newPrice: number;
+  currentPrice: number;
+  currentIsWinner: boolean;
+  createdAt: string;
+}
+
+// 큐별 계약
+
+export interface CoupangQueueContract {
+  orderStatusUpdate: MessageContract<CronPayload>;
+  invoiceUpload: MessageContract<
+    CronPayload & { updatedOrders: InvoiceUploadOrder[] },
+    InvoiceUploadResult[]
+  >;
+  crawlCoupangDetailProducts: MessageContract<CronPayload>;
+  deleteConfirmedCoupangProduct: MessageContract<
+    CronPayload & DestructiveOptions,
+    DestructiveRunResult | undefined
+  >;
+  getProductListPaging: MessageContract<CronPayload, CoupangPagingProduct[]>;
+  getProductDetail: MessageContract<CronPayload & { sellerProductId: number }, CoupangProduct>;
+  getCoupangOrderList: MessageContract<
+    CronPayload & { status: string; vendorId: string; today: string; yesterday: string },
+    CoupangOrderInfo[]
+  >;
+  putStopSellingItem: MessageContract<CronPayload & { vendorItemId: number }>;
+  stopSaleForMatchedProducts: MessageContract<
+    CronPayload & DestructiveOptions & { matchedProducts: CoupangPagingProduct[] },
+    DestructiveRunResult
+  >;
+  deleteProducts: MessageContract<
+    CronPayload & DestructiveOptions & { matchedProducts: CoupangPagingProduct[] },
+    DestructiveRunResult
+  >;
+  coupangProductsPriceControl: MessageContract<CronPayload>;
+  startBulkProductUpdate: MessageContract<
+    CronPayload & { patch: CoupangProductPatch; filter?: CoupangProductFilter },
+    { jobId: string }
+  >;
+  getBulkProductUpdateStatus: MessageContract<
+    CronPayload & { jobId: string },
+    BulkProductUpdateStatus | null
+  >;
+  clearCoupangProducts: MessageContract<Partial<CronPayload>>;
+  checkSelectorHealth: MessageContract<CronPayload, SelectorHealthReport>;
+  getCancelRequests: MessageContract<
+    CronPayload & { vendorId: string; createdAtFrom: string; createdAtTo: string },
+    CoupangReturnRequest[]
+  >;
+  acknowledgeOrders: MessageContract<CronPayload & { vendorId: string; shipmentBoxIds: number[] }>;
+  approveCancelRequest: MessageContract<
+    CronPayload & { vendorId: string; receiptId: number; cancelCount: number }
+  >;
+  getReturnRequests: MessageContract<
+    CronPayload & { vendorId: string; createdAtFrom: string; createdAtTo: string; status?: string },
+    CoupangReturnRequest[]
+  >;
+  confirmReturnReceipt: MessageContract<CronPayload & { vendorId: string; receiptId: number }>;
+  getExchangeRequests: MessageContract<
+    CronPayload & { vendorId: string; createdAtFrom: string; createdAtTo: string; status?: string },
+    CoupangExchangeRequest[]
+  >;
+  confirmExchangeReceipt: MessageContract<CronPayload & { vendorId: string; exchangeId: number }>;
+  createProduct: MessageContract<CronPayload & { product: CoupangProductRequest }, number>;
+  updateProduct: MessageContract<CronPayload & { product: CoupangProductRequest }, number>;
+  putUpdateProduct: MessageContract<
+    CronPayload & { sellerProductId: number; changes: Partial<CoupangProductRequest> }
+  >;
+  putItemPrice: MessageContract<CronPayload & { vendorItemId: number; price: number }>;
+  putItemQuantity: MessageContract<CronPayload & { vendorItemId: number; quantity: number }>;
+  putResumeSellingItem: MessageContract<CronPayload & { vendorItemId: number }>;
+  getCategoryMeta: MessageContract<
+    CronPayload & { displayCategoryCode: number },
+    CoupangCategoryMeta
+  >;
+  restoreProduct: MessageContract<CronPayload & { productCode: string }, ProductRestoreResult>;
+  resumeSaleForMatchedProducts: MessageContract<
+    CronPayload & { matchedProducts: { sellerProductId: number; sellerProductName: string }[] },
+    ResumedProduct[]
+  >;
+}
+
+export interface OnchQueueContract {
+  clearOnchProducts: MessageContract<Partial<CronPayload>>;
+  deleteProducts: MessageContract<
+    StorePayload &
+      DestructiveOptions & {
+        matchedCoupangProducts: CoupangPagingProduct[];
+        matchedNaverProducts?: any[];
+      },
+    DestructiveRunResult
+  >;
+  crawlingOnchSoldoutProducts: MessageContract<StorePayload, { soldoutProductCodes: string[] }>;
+  crawlOnchRegisteredProducts: MessageContract<StorePayload>;
+  automaticOrdering: MessageContract<
+    StorePayload & { newOrderProducts: CoupangOrderInfo[] },
+    AutomaticOrderingResult[]
+  >;
+  deliveryExtraction: MessageContract<StorePayload, DeliveryData[]>;
+  checkSelectorHealth: MessageContract<StorePayload, SelectorHealthReport>;
+  restoreProduct: MessageContract<StorePayload & { productCode: string }, ProductRestoreResult>;
+  checkProductStock: MessageContract<StorePayload & { productCodes: string[] }, OnchStockStatus[]>;
+}
+
+export interface MailQueueContract {
+  sendBatchDeletionEmail: MessageContract<{
+    deletedProducts: DeletedProduct[];
+    type: string;
+    store: string;
+    platformName: string;
+  }>;
+  sendResumedProductsEmail: MessageContract<{
+    resumedProducts: ResumedProduct[];
+    type: string;
+    store: string;
+    platformName: string;
+  }>;
+  sendUpdateEmail: MessageContract<{
+    filePath: string;
+    successCount: number;
+    filedCount: number;
+    store: string;
+    smartStore: string;
+  }>;
+  sendBulkProductUpdateReport: MessageContract<{
+    jobId: string;
+    successCount: number;
+    failedCount: number;
+    /** 상품별 결과 엑셀 (base64) */
+    report: string;
+    store: string;
+  }>;
+  sendSuccessOrders: MessageContract<{ result: AutomaticOrderingResult[]; store: string }>;
+  sendFailedOrders: MessageContract<{
+    result: AutomaticOrderingResult[];
+    store: string;
+    cronId: string;
+  }>;
+  sendErrorMail: MessageContract<{
+    cronType: CronType;
+    store: string;
+    cronId: string;
+    message: string;
+  }>;
+  sendSuccessInvoiceUpload: MessageContract<{
+    successInvoiceUploads: InvoiceUploadResult[];
+    store: string;
+  }>;
+  sendFailedInvoiceUpload: MessageContract<{
+    failedInvoiceUploads: InvoiceUploadResult[];
+    store: string;
+  }>;
+}
+
+export interface PriceQueueContract {
+  getUpdatedItems: MessageContract<{ cronId: string }, UpdatedPriceItem[]>;
+}
+
+/**
+ * 전체 메시지 계약 레지스트리
+ *
+ * 새 패턴을 추가할 때는 해당 큐의 계약 인터페이스에 항목을 추가하면
+ * RabbitMQService.send / emit 호출부에서 payload 와 응답 타입이 자동으로 추론됩니다.
+ */
+export interface RabbitMQContracts {
+  'coupang-queue': CoupangQueueContract;
+  'onch-queue': OnchQueueContract;
+  'mail-queue': MailQueueContract;
+  'price-queue': PriceQueueContract;
+}
+
+export type QueueName = keyof RabbitMQContracts;
+
+export type PatternOf<Q extends QueueName> = keyof RabbitMQContracts[Q] & string;
+
+export type PayloadOf<Q extends QueueName, P extends PatternOf<Q>> =
+  RabbitMQContracts[Q][P] extends MessageContract<infer TPayload, any> ? TPayload : never;
+
+export type ResponseOf<Q extends QueueName, P extends PatternOf<Q>> =
+  RabbitMQContracts[Q][P] extends MessageContract<any, infer TResponse> ? TResponse : never;
+
+/**
+ * 큐로 전달되는 메시지 본문
+ */
+export interface RabbitMQMessage<
+  Q extends QueueName = QueueName,
+  P extends PatternOf<Q> = PatternOf<Q>,
+> {
+  pattern: P;
+  payload: PayloadOf<Q, P>;
+}
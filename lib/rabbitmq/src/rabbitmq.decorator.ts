@@ -0,0 +1,37 @@
+import { SetMetadata, Type } from '@nestjs/common';
+
+import { PatternOf, QueueName } from './rabbitmq.contracts';
+
+export const RMQ_HANDLER_METADATA = 'daechanjo:rmq-handler';
+
+export interface RmqHandlerOptions {
+  /** payload 검증에 사용할 DTO 클래스 (없으면 검증 생략) */
+  dto?: Type<object>;
+}
+
+export interface RmqHandlerMetadata extends RmqHandlerOptions {
+  queue: string;
+  pattern: string;
+}
+
+/**
+ * 큐 + 패턴 메시지를 처리하는 메서드로 등록
+ * RabbitMQDispatcher 가 애플리케이션 시작 시 탐색하여 라우팅 테이블을 구성합니다.
+ *
+ * 핸들러는 (payload, message) 를 인자로 받고, 반환값은 응답 봉투의 data 로 전달됩니다.
+ *
+ * @example
+ * @RmqHandler('coupang-queue', 'invoiceUpload', { dto: InvoiceUploadDto })
+ * async invoiceUpload(payload: InvoiceUploadDto) { ... }
+ */
+export function RmqHandler<Q extends QueueName>(
+  queue: Q,
+  pattern: PatternOf<Q>,
+  options: RmqHandlerOptions = {},
+): MethodDecorator {
+  return SetMetadata<string, RmqHandlerMetadata>(RMQ_HANDLER_METADATA, {
+    queue,
+    pattern,
+    ...options,
+  });
+}
@@ -0,0 +1,55 @@
+import 'reflect-metadata';
+
+import { RabbitMQDispatcher } from './rabbitmq.dispatcher';
+import { CronPayloadDto } from './rabbitmq.dto';
+import { RabbitMQValidationError } from './rabbitmq.validation';
+
+describe('RabbitMQDispatcher', () => {
+  const handler = { handle: jest.fn().mockResolvedValue('handled') };
+  let dispatcher: RabbitMQDispatcher;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    handler.handle.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    dispatcher = new RabbitMQDispatcher({} as any, {} as any, {} as any);
+    dispatcher['register']({
+      queue: 'test-queue',
+      pattern: 'run',
+      dto: CronPayloadDto,
+      instance: handler,
+      methodName: 'handle',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('검증된 payload 로 핸들러를 호출한다', async () => {
+    const result = await dispatcher.dispatch('test-queue', {
+      pattern: 'run',
+      payload: { cronId: 'cron-1', type: 'TEST' },
+    });
+
+    expect(result).toBe('handled');
+    expect(handler.handle.mock.calls[0][0]).toBeInstanceOf(CronPayloadDto);
+  });
+
+  it('검증에 실패하면 패턴, 위반 규칙, 잘린 payload 를 로그로 남기고 에러를 던진다', async () => {
+    const payload = { type: 'TEST', items: 'x'.repeat(5000) };
+
+    await expect(dispatcher.dispatch('test-queue', { pattern: 'run', payload })).rejects.toThrow(
+      RabbitMQValidationError,
+    );
+
+    expect(handler.handle).not.toHaveBeenCalled();
+    const [log] = errorSpy.mock.calls[0];
+    expect(log).toContain('📬run 메시지 거부');
+    expect(log).toContain('cronId: cronId should not be empty, cronId must be a string');
+    expect(log).toContain('(5026자)');
+    expect(log.length).toBeLessThan(1500);
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+
+import { RMQ_HANDLER_METADATA, RmqHandlerMetadata } from './rabbitmq.decorator';
+import { RabbitMQResponse, errorResponse } from './rabbitmq.response';
+import {
+  RabbitMQValidationError,
+  logRabbitMQValidationError,
+  validateRabbitMQPayload,
+} from './rabbitmq.validation';
+
+interface RmqHandlerEntry extends RmqHandlerMetadata {
+  instance: object;
+  methodName: string;
+}
+
+/**
+ * @RmqHandler 로 등록된 메서드를 탐색하여 큐 + 패턴 단위로 메시지를 라우팅
+ *
+ * 각 서비스는 큐 하나당 @MessagePattern('<service>-queue') 진입점만 두고
+ * dispatch() 에 메시지를 넘기면 됩니다.
+ */
+@Injectable()
+export class RabbitMQDispatcher implements OnModuleInit {
+  private readonly handlers: Map<string, Map<string, RmqHandlerEntry>> = new Map();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  onModuleInit(): void {
+    this.exploreHandlers();
+
+    for (const [queue, patterns] of this.handlers.entries()) {
+      console.log(`"${queue}" 대기열 패턴 등록: ${[...patterns.keys()].join(', ')}`);
+    }
+  }
+
+  /**
+   * 수신한 메시지를 패턴에 맞는 핸들러로 전달
+   *
+   * @param queue - 메시지를 수신한 큐 이름
+   * @param message - { pattern, payload } 형태의 메시지
+   * @returns 핸들러의 반환값, 등록되지 않은 패턴이면 UNKNOWN_PATTERN error 봉투
+   * @throws RabbitMQValidationError - payload 가 핸들러의 DTO 규칙을 위반한 경우
+   *
+   * @description
+   * 1. 큐 + 패턴으로 핸들러 조회, 없으면 지원 패턴 목록과 함께 error 봉투 반환
+   * 2. 핸들러에 DTO 가 지정되어 있으면 payload 검증 및 변환 (거부 시 위반 규칙과 payload 를 로그로 남김)
+   * 3. 핸들러 호출 (payload, message)
+   */
+  async dispatch(queue: string, message: any): Promise<unknown> {
+    const pattern = message?.pattern;
+    const payload = message?.payload;
+    const handler = this.handlers.get(queue)?.get(pattern);
+
+    console.log(`${payload?.type ?? ''}${payload?.cronId ?? ''}: 📬${pattern}`);
+
+    if (!handler) {
+      console.error(
+        `${payload?.type ?? ''}${payload?.cronId ?? ''}: 📬알 수 없는 패턴 유형 ${pattern}`,
+      );
+      return this.unknownPattern(queue, pattern);
+    }
+
+    let validatedPayload = payload;
+    if (handler.dto) {
+      try {
+        validatedPayload = await validateRabbitMQPayload(pattern, payload, {
+          [pattern]: handler.dto,
+        });
+      } catch (error) {
+        if (error instanceof RabbitMQValidationError) logRabbitMQValidationError(payload, error);
+        throw error;
+      }
+    }
+
+    return await (handler.instance as any)[handler.methodName](validatedPayload, message);
+  }
+
+  /**
+   * 큐별로 등록된 패턴 목록 조회
+   *
+   * @param queue - 특정 큐만 조회할 경우 큐 이름
+   * @returns 큐 이름 → 패턴 목록
+   */
+  getPatterns(queue?: string): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+
+    for (const [name, patterns] of this.handlers.entries()) {
+      if (queue && name !== queue) continue;
+      result[name] = [...patterns.keys()];
+    }
+
+    return result;
+  }
+
+  private unknownPattern(queue: string, pattern: string): RabbitMQResponse<never> {
+    return errorResponse(`알 수 없는 패턴 유형: ${pattern}`, 'UNKNOWN_PATTERN', {
+      queue,
+      supportedPatterns: this.getPatterns(queue)[queue] ?? [],
+    });
+  }
+
+  private exploreHandlers(): void {
+    const wrappers = [
+      ...this.discoveryService.getControllers(),
+      ...this.discoveryService.getProviders(),
+    ];
+
+    for (const wrapper of wrappers) {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== 'object') continue;
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const metadata = this.reflector.get<RmqHandlerMetadata>(
+          RMQ_HANDLER_METADATA,
+          prototype[methodName],
+        );
+        if (metadata) this.register({ ...metadata, instance, methodName });
+      }
+    }
+  }
+
+  private register(entry: RmqHandlerEntry): void {
+    const patterns = this.handlers.get(entry.queue) ?? new Map<string, RmqHandlerEntry>();
+
+    const existing = patterns.get(entry.pattern);
+    if (existing) {
+      throw new Error(
+        `"${entry.queue}" 대기열의 "${entry.pattern}" 패턴 핸들러가 중복 등록되었습니다: ` +
+          `${existing.instance.constructor.name}.${existing.methodName}, ` +
+          `${entry.instance.constructor.name}.${entry.methodName}`,
+      );
+    }
+
+    patterns.set(entry.pattern, entry);
+    this.handlers.set(entry.queue, patterns);
+  }
+}
@@ -0,0 +1,47 @@
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+import { CronPayload, DestructiveOptions, StorePayload } from './rabbitmq.contracts';
+
+/**
+ * 크론 작업에서 발행되는 메시지 payload 의 공통 검증 규칙
+ * 서비스별 DTO 는 이 클래스를 상속하여 패턴 고유 필드만 추가합니다.
+ */
+export class CronPayloadDto implements CronPayload {
+  @IsString()
+  @IsNotEmpty()
+  cronId!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  type!: string;
+}
+
+export class StorePayloadDto extends CronPayloadDto implements StorePayload {
+  @IsString()
+  @IsNotEmpty()
+  store!: string;
+}
+
+/**
+ * 삭제 / 판매 중지 패턴 payload 의 dry-run / 승인 옵션 검증 규칙
+ */
+export class DestructiveCronPayloadDto extends CronPayloadDto implements DestructiveOptions {
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  approvalId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  catalogSize?: number;
+}
+
+export class DestructiveStorePayloadDto extends DestructiveCronPayloadDto implements StorePayload {
+  @IsString()
+  @IsNotEmpty()
+  store!: string;
+}
@@ -0,0 +1,68 @@
+import { ExecutionContext } from '@nestjs/common';
+import { RmqContext } from '@nestjs/microservices';
+import { lastValueFrom, of, throwError } from 'rxjs';
+
+import { RabbitMQResponseInterceptor } from './rabbitmq.interceptor';
+
+describe('RabbitMQResponseInterceptor', () => {
+  const interceptor = new RabbitMQResponseInterceptor();
+  let channel: { ack: jest.Mock; nack: jest.Mock };
+
+  const createContext = (replyTo?: string) => {
+    const message = { properties: { replyTo, headers: {} } };
+    const rmqContext = new RmqContext([message as any, channel, 'test-queue']);
+    const context = {
+      switchToRpc: () => ({
+        getData: () => ({ pattern: 'run', payload: { cronId: 'cron-1', type: 'TEST' } }),
+        getContext: () => rmqContext,
+      }),
+    } as unknown as ExecutionContext;
+    return { context, message };
+  };
+
+  beforeEach(() => {
+    channel = { ack: jest.fn(), nack: jest.fn() };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('RPC 요청은 핸들러 실행 전에 ack 한다', async () => {
+    const { context, message } = createContext('amq.rabbitmq.reply-to');
+    const handle = jest.fn(() => {
+      expect(channel.ack).toHaveBeenCalledWith(message);
+      return throwError(() => new Error('fail'));
+    });
+
+    const response = await lastValueFrom(interceptor.intercept(context, { handle }));
+
+    expect(response.status).toBe('error');
+    expect(channel.ack).toHaveBeenCalledTimes(1);
+    expect(channel.nack).not.toHaveBeenCalled();
+  });
+
+  it('이벤트는 처리가 끝난 뒤 ack 한다', async () => {
+    const { context, message } = createContext();
+    const handle = jest.fn(() => {
+      expect(channel.ack).not.toHaveBeenCalled();
+      return of('done');
+    });
+
+    await lastValueFrom(interceptor.intercept(context, { handle }));
+
+    expect(channel.ack).toHaveBeenCalledWith(message);
+  });
+
+  it('이벤트 처리에 실패하면 requeue 없이 nack 하여 dead-letter 큐로 보낸다', async () => {
+    const { context, message } = createContext();
+
+    await lastValueFrom(
+      interceptor.intercept(context, { handle: () => throwError(() => new Error('fail')) }),
+    );
+
+    expect(channel.nack).toHaveBeenCalledWith(message, false, false);
+    expect(channel.ack).not.toHaveBeenCalled();
+  });
+});
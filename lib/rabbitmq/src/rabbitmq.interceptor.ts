@@ -0,0 +1,95 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { RmqContext } from '@nestjs/microservices';
+import { Observable, catchError, map, of, tap } from 'rxjs';
+
+import { InMemoryContext } from './rabbitmq.memory';
+import {
+  RabbitMQResponse,
+  errorResponse,
+  isRabbitMQResponse,
+  successResponse,
+} from './rabbitmq.response';
+import { formatTraceContext, runWithTraceHeaders } from './rabbitmq.trace';
+
+/**
+ * @MessagePattern 컨트롤러의 반환값을 표준 응답 봉투({ status, data, error })로 강제하는 인터셉터
+ *
+ * - 핸들러가 이미 봉투를 반환한 경우 그대로 전달
+ * - 그 외의 반환값은 { status: 'success', data } 로 감쌈
+ * - 핸들러에서 발생한 예외는 { status: 'error', error } 로 변환하여 송신 측에 전달
+ * - RPC(send) 요청은 수신 즉시, 이벤트(emit)는 처리 결과에 따라 ack / nack (RabbitMQServer 의 noAck: false 설정 전제)
+ * - 메시지 헤더의 추적 정보를 AsyncLocalStorage 에 담아 핸들러 실행 (getTraceContext() 로 조회)
+ */
+@Injectable()
+export class RabbitMQResponseInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<RabbitMQResponse> {
+    const message = context.switchToRpc().getData();
+    const pattern = message?.pattern;
+    const payload = message?.payload;
+    const headers = this.getHeaders(context);
+
+    // 크롤링 / 일괄 수정처럼 오래 걸리는 핸들러가 브로커의 consumer_timeout 을 넘겨 재전달되지 않도록 수신 즉시 ack
+    if (this.isRpc(context)) this.ack(context);
+
+    // handle() 호출 시점의 비동기 컨텍스트가 핸들러에 바인딩되므로 추적 범위 안에서 호출
+    return runWithTraceHeaders(headers, payload?.cronId, () => {
+      const trace = formatTraceContext();
+
+      return next.handle().pipe(
+        map((result) => (isRabbitMQResponse(result) ? result : successResponse(result))),
+        catchError((error) => {
+          console.error(
+            `${payload?.type ?? ''}${payload?.cronId ?? ''}: 📬${pattern} 처리 실패 [${trace}]\n`,
+            error,
+          );
+          return of(errorResponse(error, error?.code, error?.details));
+        }),
+        tap((response) => {
+          if (!this.isRpc(context)) this.settle(context, response);
+        }),
+      );
+    });
+  }
+
+  // RabbitMQ 메시지 속성 또는 인메모리 전송 컨텍스트에서 헤더 조회
+  private getHeaders(context: ExecutionContext): Record<string, unknown> | undefined {
+    const rpcContext = context.switchToRpc().getContext();
+
+    if (rpcContext instanceof RmqContext) return rpcContext.getMessage().properties?.headers;
+    if (rpcContext instanceof InMemoryContext) return rpcContext.getHeaders();
+    return undefined;
+  }
+
+  // 응답을 기다리는 RPC(send) 요청인지 확인 (replyTo 가 없으면 이벤트)
+  private isRpc(context: ExecutionContext): boolean {
+    const rmqContext = context.switchToRpc().getContext();
+    return rmqContext instanceof RmqContext && !!rmqContext.getMessage().properties?.replyTo;
+  }
+
+  private ack(context: ExecutionContext): void {
+    const rmqContext = context.switchToRpc().getContext() as RmqContext;
+    rmqContext.getChannelRef().ack(rmqContext.getMessage());
+  }
+
+  /**
+   * 처리가 끝난 이벤트(emit) 메시지를 브로커에 확정
+   * RPC 요청은 수신 시 ack 하고 실패는 송신 측이 error 봉투로 받으므로 여기서 다루지 않습니다.
+   *
+   * @description
+   * 1. 처리에 실패하면 requeue 없이 nack 하여 dead-letter 큐로 이동
+   * 2. 그 외에는 ack
+   */
+  private settle(context: ExecutionContext, response: RabbitMQResponse): void {
+    const rmqContext = context.switchToRpc().getContext();
+    if (!(rmqContext instanceof RmqContext)) return;
+
+    const channel = rmqContext.getChannelRef();
+    const originalMessage = rmqContext.getMessage();
+
+    if (response.status === 'error') {
+      channel.nack(originalMessage, false, false);
+    } else {
+      channel.ack(originalMessage);
+    }
+  }
+}
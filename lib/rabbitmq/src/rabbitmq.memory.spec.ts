@@ -0,0 +1,23 @@
+import { InMemoryServer, createInMemoryMicroserviceOptions } from './rabbitmq.memory';
+
+describe('InMemoryServer', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it('테스트 환경에서는 인메모리 전송을 만들 수 있다', () => {
+    expect(createInMemoryMicroserviceOptions('order-queue').strategy).toBeInstanceOf(
+      InMemoryServer,
+    );
+  });
+
+  it('테스트가 아닌 환경에서는 시작 시 실패한다', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(() => createInMemoryMicroserviceOptions('order-queue')).toThrow(
+      '인메모리 전송은 테스트(NODE_ENV=test)에서만 사용할 수 있습니다.',
+    );
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  BaseRpcContext,
+  ClientProxy,
+  CustomStrategy,
+  CustomTransportStrategy,
+  ReadPacket,
+  RmqRecord,
+  Server,
+  WritePacket,
+} from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+
+import { RabbitMQConnectionError } from './rabbitmq.client';
+
+export type InMemoryMessageKind = 'send' | 'emit';
+
+/**
+ * 인메모리 브로커를 거쳐 간 메시지 기록 (통합 테스트 검증용)
+ */
+export interface InMemoryRecordedMessage {
+  kind: InMemoryMessageKind;
+  queue: string;
+  pattern?: string;
+  payload?: unknown;
+  headers: Record<string, unknown>;
+  response?: unknown;
+  error?: string;
+  timestamp: Date;
+}
+
+/**
+ * 인메모리 전송의 메시지 핸들러 컨텍스트 ([queue, headers, kind])
+ * RmqContext 대신 전달되며 추적 헤더 조회에 사용됩니다.
+ */
+export class InMemoryContext extends BaseRpcContext<
+  [string, Record<string, unknown>, InMemoryMessageKind]
+> {
+  getQueue(): string {
+    return this.args[0];
+  }
+
+  getHeaders(): Record<string, unknown> {
+    return this.args[1];
+  }
+
+  getKind(): InMemoryMessageKind {
+    return this.args[2];
+  }
+}
+
+// 실제 브로커를 거친 것과 동일하게 JSON 직렬화 가능한 값만 전달
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 한 프로세스 안에서 여러 Nest 앱의 큐를 연결하는 인메모리 브로커
+ *
+ * 큐 이름마다 하나의 InMemoryServer 가 등록되고,
+ * InMemoryClient 가 보낸 메시지는 해당 서버의 @MessagePattern('<queue>') 핸들러로 바로 전달됩니다.
+ */
+export class InMemoryBroker {
+  private readonly servers: Map<string, InMemoryServer> = new Map();
+  private readonly recorded: InMemoryRecordedMessage[] = [];
+  private readonly pendingEvents: Set<Promise<void>> = new Set();
+
+  register(queue: string, server: InMemoryServer): void {
+    if (this.servers.has(queue)) {
+      throw new Error(`"${queue}" 대기열에 이미 인메모리 서버가 등록되어 있습니다.`);
+    }
+    this.servers.set(queue, server);
+  }
+
+  unregister(queue: string, server: InMemoryServer): void {
+    if (this.servers.get(queue) === server) this.servers.delete(queue);
+  }
+
+  /**
+   * 요청-응답 메시지 전달
+   * 수신 서버가 없으면 대기하지 않고 RabbitMQConnectionError 를 던짐
+   */
+  async request(queue: string, message: unknown, headers: Record<string, unknown>) {
+    const record = this.record('send', queue, message, headers);
+    const server = this.servers.get(queue);
+
+    if (!server) {
+      record.error = '수신 서버 없음';
+      throw new RabbitMQConnectionError(queue, `"${queue}" 대기열의 인메모리 서버가 없습니다.`);
+    }
+
+    try {
+      record.response = await server.handle(clone(message), headers, 'send');
+      return clone(record.response);
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  /**
+   * 이벤트 메시지 발행
+   * 실제 브로커처럼 발행 즉시 반환하고 핸들러는 다음 틱에 실행 (완료 대기는 drain())
+   */
+  publish(queue: string, message: unknown, headers: Record<string, unknown>): void {
+    const record = this.record('emit', queue, message, headers);
+    const server = this.servers.get(queue);
+
+    if (!server) {
+      console.warn(`"${queue}" 대기열의 인메모리 서버가 없어 메시지가 소비되지 않습니다.`);
+      return;
+    }
+
+    const pending = new Promise<void>((resolve) => setImmediate(resolve))
+      .then(() => server.handle(clone(message), headers, 'emit'))
+      .then((response) => {
+        record.response = response;
+      })
+      .catch((error) => {
+        record.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => this.pendingEvents.delete(pending));
+
+    this.pendingEvents.add(pending);
+  }
+
+  /**
+   * 처리 중인 이벤트가 모두 끝날 때까지 대기 (이벤트 처리 중 발행된 이벤트 포함)
+   */
+  async drain(): Promise<void> {
+    while (this.pendingEvents.size > 0) {
+      await Promise.all([...this.pendingEvents]);
+    }
+  }
+
+  /**
+   * 기록된 메시지 조회
+   *
+   * @param filter - queue / pattern / kind 로 필터링
+   */
+  getMessages(
+    filter: Partial<Pick<InMemoryRecordedMessage, 'queue' | 'pattern' | 'kind'>> = {},
+  ): InMemoryRecordedMessage[] {
+    return this.recorded.filter(
+      (message) =>
+        (!filter.queue || message.queue === filter.queue) &&
+        (!filter.pattern || message.pattern === filter.pattern) &&
+        (!filter.kind || message.kind === filter.kind),
+    );
+  }
+
+  /**
+   * 기록된 메시지 초기화 (등록된 서버는 유지)
+   */
+  clear(): void {
+    this.recorded.length = 0;
+  }
+
+  private record(
+    kind: InMemoryMessageKind,
+    queue: string,
+    message: unknown,
+    headers: Record<string, unknown>,
+  ): InMemoryRecordedMessage {
+    const { pattern, payload } = (message ?? {}) as { pattern?: string; payload?: unknown };
+    const record: InMemoryRecordedMessage = {
+      kind,
+      queue,
+      pattern,
+      payload: clone(payload),
+      headers,
+      timestamp: new Date(),
+    };
+
+    this.recorded.push(record);
+    return record;
+  }
+}
+
+/**
+ * 프로세스 전역 인메모리 브로커
+ * 같은 프로세스에서 생성된 모든 Nest 앱이 공유합니다.
+ */
+export const inMemoryBroker = new InMemoryBroker();
+
+/**
+ * 인메모리 전송을 사용할 수 있는지 확인
+ *
+ * 브로커가 프로세스 안에만 있으므로 따로 실행한 서비스에 켜면 각 서비스가 자기 자신과만 통신합니다.
+ * 여러 서비스를 한 프로세스에서 부팅하는 테스트(NODE_ENV=test)에서만 허용합니다.
+ *
+ * @throws NODE_ENV 가 test 가 아닌 경우
+ */
+export function assertInMemoryTransportAllowed(): void {
+  if (process.env.NODE_ENV !== 'test') {
+    throw new Error(
+      `인메모리 전송은 테스트(NODE_ENV=test)에서만 사용할 수 있습니다. (현재 NODE_ENV=${process.env.NODE_ENV ?? ''})`,
+    );
+  }
+}
+
+/**
+ * 인메모리 브로커에서 큐 하나를 소비하는 마이크로서비스 전송 전략
+ */
+export class InMemoryServer extends Server implements CustomTransportStrategy {
+  constructor(
+    private readonly queue: string,
+    private readonly broker: InMemoryBroker = inMemoryBroker,
+  ) {
+    super();
+    assertInMemoryTransportAllowed();
+  }
+
+  listen(callback: () => void): void {
+    this.broker.register(this.queue, this);
+    callback();
+  }
+
+  close(): void {
+    this.broker.unregister(this.queue, this);
+  }
+
+  async handle(
+    message: unknown,
+    headers: Record<string, unknown>,
+    kind: InMemoryMessageKind,
+  ): Promise<unknown> {
+    const handler = this.getHandlerByPattern(this.queue);
+    if (!handler) {
+      throw new Error(`"${this.queue}" 대기열의 @MessagePattern 핸들러가 없습니다.`);
+    }
+
+    const context = new InMemoryContext([this.queue, headers, kind]);
+    const response$ = this.transformToObservable(await handler(message, context));
+
+    return await lastValueFrom(response$, { defaultValue: undefined });
+  }
+}
+
+/**
+ * 인메모리 브로커로 메시지를 보내는 ClientProxy
+ * RabbitMQService 가 transport: 'memory' 일 때 ClientRMQ 대신 사용합니다.
+ */
+export class InMemoryClient extends ClientProxy {
+  constructor(
+    private readonly queue: string,
+    private readonly broker: InMemoryBroker = inMemoryBroker,
+  ) {
+    super();
+    assertInMemoryTransportAllowed();
+  }
+
+  async connect(): Promise<void> {}
+
+  close(): void {}
+
+  protected publish(packet: ReadPacket, callback: (packet: WritePacket) => void): () => void {
+    const { message, headers } = this.unwrap(packet.data);
+
+    this.broker
+      .request(this.queue, message, headers)
+      .then((response) => callback({ response, isDisposed: true }))
+      .catch((err) => callback({ err, isDisposed: true }));
+
+    return () => undefined;
+  }
+
+  protected async dispatchEvent<T = any>(packet: ReadPacket): Promise<T> {
+    const { message, headers } = this.unwrap(packet.data);
+    this.broker.publish(this.queue, message, headers);
+    return undefined as T;
+  }
+
+  // RabbitMQService 가 보내는 RmqRecord 에서 본문과 헤더 분리
+  private unwrap(data: unknown): { message: unknown; headers: Record<string, unknown> } {
+    if (data instanceof RmqRecord) {
+      return { message: data.data, headers: { ...data.options?.headers } };
+    }
+    return { message: data, headers: {} };
+  }
+}
+
+/**
+ * 인메모리 브로커를 사용하는 마이크로서비스 옵션
+ *
+ * @example
+ * // 통합 테스트: 여러 서비스 모듈을 한 프로세스에서 부팅
+ * const coupang = await NestFactory.createMicroservice(CoupangModule, createInMemoryMicroserviceOptions('coupang-queue'));
+ * await coupang.listen();
+ * ...
+ * expect(inMemoryBroker.getMessages({ pattern: 'automaticOrdering' })).toHaveLength(1);
+ */
+export function createInMemoryMicroserviceOptions(queue: string): CustomStrategy {
+  return { strategy: new InMemoryServer(queue) };
+}
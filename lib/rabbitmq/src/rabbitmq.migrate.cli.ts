@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { connect } from 'amqplib';
+
+import {
+  assertDeadLetterTopology,
+  createRabbitMQQueueOptions,
+  deadLetterQueueOf,
+} from './rabbitmq.options';
+
+const USAGE = `사용법: rabbitmq-migrate-queues [큐...] [옵션]
+
+  (옵션 없음)                       기존 큐가 durable + dead-letter 설정과 맞는지 점검만 수행
+  --apply                           설정이 다른 큐를 삭제 후 새 설정으로 다시 선언
+  --force                           남아 있는 메시지가 있어도 삭제 (메시지는 유실됨)
+
+  큐를 생략하면 모든 서비스 큐를 대상으로 합니다.`;
+
+/** 서비스들이 수신 / 발행하는 큐 (main.ts 와 RabbitMQContracts 기준) */
+const SERVICE_QUEUES = [
+  'coupang-queue',
+  'onch-queue',
+  'mail-queue',
+  'order-queue',
+  'soldout-queue',
+  'delivery-queue',
+  'price-queue',
+];
+
+const NOT_FOUND = 404;
+const PRECONDITION_FAILED = 406;
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
+    }),
+  ],
+})
+class RabbitMQMigrateCliModule {}
+
+type AmqpConnection = Awaited<ReturnType<typeof connect>>;
+
+type QueueState = 'missing' | 'up-to-date' | 'outdated';
+
+/**
+ * 채널 하나로 명령을 실행
+ * 선언 충돌(406) / 큐 없음(404) 은 채널을 닫으므로 명령마다 새 채널을 사용합니다.
+ */
+async function withChannel<T>(connection: AmqpConnection, fn: (channel: any) => Promise<T>) {
+  const channel = await connection.createChannel();
+  // 브로커가 채널을 닫을 때의 error 이벤트는 fn 의 reject 로 처리
+  channel.on('error', () => undefined);
+
+  try {
+    return await fn(channel);
+  } finally {
+    await channel.close().catch(() => undefined);
+  }
+}
+
+async function inspectQueue(
+  connection: AmqpConnection,
+  queue: string,
+): Promise<{ state: QueueState; messageCount: number; consumerCount: number }> {
+  let counts: { messageCount: number; consumerCount: number };
+
+  try {
+    counts = await withChannel(connection, (channel) => channel.checkQueue(queue));
+  } catch (error: any) {
+    if (error?.code === NOT_FOUND) return { state: 'missing', messageCount: 0, consumerCount: 0 };
+    throw error;
+  }
+
+  try {
+    // 같은 설정으로 다시 선언하면 아무 변화가 없고, 설정이 다르면 406 으로 거부됨
+    await withChannel(connection, (channel) =>
+      channel.assertQueue(queue, createRabbitMQQueueOptions(queue)),
+    );
+    return { state: 'up-to-date', ...counts };
+  } catch (error: any) {
+    if (error?.code === PRECONDITION_FAILED) return { state: 'outdated', ...counts };
+    throw error;
+  }
+}
+
+async function migrateQueue(connection: AmqpConnection, queue: string): Promise<void> {
+  await withChannel(connection, async (channel) => {
+    await assertDeadLetterTopology(channel, queue);
+    await channel.deleteQueue(queue);
+    await channel.assertQueue(queue, createRabbitMQQueueOptions(queue));
+  });
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const apply = args.includes('--apply');
+  const force = args.includes('--force');
+  const queues = args.filter((arg) => !arg.startsWith('--'));
+
+  const app = await NestFactory.createApplicationContext(RabbitMQMigrateCliModule, {
+    logger: ['error', 'warn'],
+  });
+  const url = app.get(ConfigService).get<string>('RABBITMQ_URL') || 'amqp://localhost:5672';
+  const connection = await connect(url);
+
+  try {
+    for (const queue of queues.length > 0 ? queues : SERVICE_QUEUES) {
+      const { state, messageCount, consumerCount } = await inspectQueue(connection, queue);
+
+      if (state === 'missing') {
+        console.log(`${queue}: 없음 - 서비스 시작 시 새 설정으로 선언됩니다.`);
+        continue;
+      }
+      if (state === 'up-to-date') {
+        console.log(`${queue}: 최신 설정`);
+        continue;
+      }
+
+      console.log(
+        `${queue}: 이전 설정 (메시지 ${messageCount}건, 소비자 ${consumerCount}개) - 삭제 후 다시 선언 필요`,
+      );
+      if (!apply) continue;
+
+      if (consumerCount > 0) {
+        console.warn(`  건너뜀: ${queue} 를 수신 중인 서비스를 먼저 중지하세요.`);
+        process.exitCode = 1;
+        continue;
+      }
+      if (messageCount > 0 && !force) {
+        console.warn(`  건너뜀: 남은 메시지를 처리한 뒤 다시 실행하거나 --force 로 삭제하세요.`);
+        process.exitCode = 1;
+        continue;
+      }
+
+      await migrateQueue(connection, queue);
+      console.log(`  완료: ${queue} 재선언 (dead-letter 큐: ${deadLetterQueueOf(queue)})`);
+    }
+  } finally {
+    await connection.close();
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,12 +1,27 @@
-import { Global, Module } from '@nestjs/common';
+import { DynamicModule, Global, Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 
+import { RabbitMQDispatcher } from './rabbitmq.dispatcher';
+import { RABBITMQ_MODULE_OPTIONS, RabbitMQModuleOptions } from './rabbitmq.options';
 import { RabbitMQService } from './rabbitmq.service';
 
 @Global()
 @Module({
-  imports: [ConfigModule],
-  providers: [RabbitMQService],
-  exports: [RabbitMQService],
+  imports: [ConfigModule, DiscoveryModule],
+  providers: [RabbitMQService, RabbitMQDispatcher],
+  exports: [RabbitMQService, RabbitMQDispatcher],
 })
-export class RabbitMQModule {}
+export class RabbitMQModule {
+  /**
+   * send() 타임아웃 / 재시도 기본값을 지정하여 모듈 등록
+   * 옵션 없이 RabbitMQModule 을 그대로 import 하면 라이브러리 기본값을 사용합니다.
+   */
+  static forRoot(options: RabbitMQModuleOptions = {}): DynamicModule {
+    return {
+      module: RabbitMQModule,
+      providers: [{ provide: RABBITMQ_MODULE_OPTIONS, useValue: options }],
+      exports: [RABBITMQ_MODULE_OPTIONS],
+    };
+  }
+}
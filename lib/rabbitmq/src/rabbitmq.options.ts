@@ -0,0 +1,86 @@
+import { PatternOf, QueueName } from './rabbitmq.contracts';
+
+export const RABBITMQ_MODULE_OPTIONS = 'RABBITMQ_MODULE_OPTIONS';
+
+/**
+ * send() 호출 단위 옵션
+ */
+export interface RabbitMQCallOptions {
+  /** 응답 대기 시간(ms). 초과 시 RabbitMQTimeoutError */
+  timeout?: number;
+  /** 타임아웃 / 연결 끊김 시 재시도 횟수 (응답 측 error 봉투는 재시도하지 않음) */
+  retries?: number;
+  /** 첫 재시도 대기 시간(ms). 재시도마다 2배씩 증가 */
+  retryDelay?: number;
+}
+
+/**
+ * 큐 + 패턴별 send() 기본 옵션
+ *
+ * @example
+ * { 'onch-queue': { automaticOrdering: { timeout: 30 * 60 * 1000, retries: 0 } } }
+ */
+export type RabbitMQPatternOptions = {
+  [Q in QueueName]?: { [P in PatternOf<Q>]?: RabbitMQCallOptions };
+};
+
+/**
+ * 메시지 전송 방식
+ * - rmq: RabbitMQ 브로커 사용 (기본값)
+ * - memory: 같은 프로세스 안의 인메모리 브로커 사용 (테스트 전용, NODE_ENV=test 가 아니면 시작 시 에러)
+ */
+export type RabbitMQTransport = 'rmq' | 'memory';
+
+export interface RabbitMQModuleOptions {
+  /** 발행하는 메시지의 x-origin-service 헤더에 기록될 서비스 이름 */
+  serviceName?: string;
+  /** 전송 방식 (생략 시 RABBITMQ_TRANSPORT 환경 변수, 없으면 rmq) */
+  transport?: RabbitMQTransport;
+  /** 모든 send() 에 적용되는 기본 옵션 */
+  defaults?: RabbitMQCallOptions;
+  /** 패턴별 옵션 (defaults 보다 우선, 호출 시 전달한 옵션보다 후순위) */
+  patterns?: RabbitMQPatternOptions;
+}
+
+export const DEFAULT_CALL_OPTIONS: Required<RabbitMQCallOptions> = {
+  timeout: 10 * 60 * 1000,
+  retries: 0,
+  retryDelay: 1000,
+};
+
+export const DEAD_LETTER_EXCHANGE = 'auto-store.dlx';
+
+export function deadLetterQueueOf(queue: string): string {
+  return `${queue}.dead`;
+}
+
+/**
+ * 송신 측(ClientRMQ)과 수신 측(ServerRMQ)이 함께 사용하는 큐 선언 옵션
+ *
+ * 처리에 실패한 메시지(nack)는 DEAD_LETTER_EXCHANGE 를 거쳐 "<queue>.dead" 큐로 이동합니다.
+ * 기존에 durable: false 로 선언된 큐가 브로커에 남아 있으면 PRECONDITION_FAILED 가 발생하므로
+ * 배포 전에 rabbitmq-migrate-queues 로 해당 큐를 다시 선언해야 합니다. (README 참고)
+ */
+export function createRabbitMQQueueOptions(queue: string) {
+  return {
+    durable: true,
+    arguments: {
+      'x-dead-letter-exchange': DEAD_LETTER_EXCHANGE,
+      'x-dead-letter-routing-key': deadLetterQueueOf(queue),
+    },
+  };
+}
+
+/**
+ * dead-letter exchange 와 큐별 dead-letter 큐를 선언하고 바인딩
+ *
+ * @param channel - amqplib 채널
+ * @param queue - 원본 큐 이름
+ */
+export async function assertDeadLetterTopology(channel: any, queue: string): Promise<void> {
+  const deadLetterQueue = deadLetterQueueOf(queue);
+
+  await channel.assertExchange(DEAD_LETTER_EXCHANGE, 'direct', { durable: true });
+  await channel.assertQueue(deadLetterQueue, { durable: true });
+  await channel.bindQueue(deadLetterQueue, DEAD_LETTER_EXCHANGE, deadLetterQueue);
+}
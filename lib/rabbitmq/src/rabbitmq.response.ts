@@ -0,0 +1,63 @@
+export type RabbitMQResponseStatus = 'success' | 'error';
+
+export interface RabbitMQErrorBody {
+  message: string;
+  code?: string;
+  details?: unknown;
+}
+
+/**
+ * 모든 @MessagePattern 핸들러가 반환하는 표준 응답 봉투
+ */
+export interface RabbitMQResponse<T = unknown> {
+  status: RabbitMQResponseStatus;
+  data?: T;
+  error?: RabbitMQErrorBody;
+}
+
+const RESPONSE_KEYS = ['status', 'data', 'error'];
+
+export function successResponse<T>(data?: T): RabbitMQResponse<T> {
+  return data === undefined ? { status: 'success' } : { status: 'success', data };
+}
+
+export function errorResponse(
+  error: unknown,
+  code?: string,
+  details?: unknown,
+): RabbitMQResponse<never> {
+  const message = error instanceof Error ? error.message : String(error);
+  return { status: 'error', error: { message, code, details } };
+}
+
+/**
+ * 값이 이미 표준 응답 봉투 형태인지 확인
+ */
+export function isRabbitMQResponse(value: unknown): value is RabbitMQResponse {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const { status } = value as RabbitMQResponse;
+  return (
+    (status === 'success' || status === 'error') &&
+    Object.keys(value).every((key) => RESPONSE_KEYS.includes(key))
+  );
+}
+
+/**
+ * 응답 측에서 error 봉투를 돌려준 경우 send() 호출부로 던져지는 에러
+ */
+export class RabbitMQRemoteError extends Error {
+  readonly code?: string;
+  readonly details?: unknown;
+
+  constructor(
+    readonly queue: string,
+    readonly pattern: string,
+    error: RabbitMQErrorBody,
+  ) {
+    super(error.message);
+    this.name = 'RabbitMQRemoteError';
+    this.code = error.code;
+    this.details = error.details;
+  }
+}
@@ -0,0 +1,42 @@
+import { CustomStrategy, RmqOptions, ServerRMQ } from '@nestjs/microservices';
+
+import { assertDeadLetterTopology, createRabbitMQQueueOptions } from './rabbitmq.options';
+
+/**
+ * 큐 선언 전에 dead-letter 토폴로지를 준비하는 ServerRMQ
+ *
+ * noAck: false 로 동작하므로 메시지 ack / nack 은 RabbitMQResponseInterceptor 가 처리합니다.
+ * (RPC 요청은 수신 즉시 ack, 이벤트는 처리가 끝난 뒤 ack / 실패 시 dead-letter 큐로 nack)
+ */
+export class RabbitMQServer extends ServerRMQ {
+  async setupChannel(channel: any, callback: Function): Promise<void> {
+    await assertDeadLetterTopology(channel, this.queue);
+    return super.setupChannel(channel, callback);
+  }
+}
+
+/**
+ * 각 서비스 main.ts 에서 사용하는 마이크로서비스 옵션
+ *
+ * @param queue - 수신할 큐 이름
+ * @param url - RabbitMQ 접속 URL
+ * @param options - 추가 ServerRMQ 옵션 (prefetchCount 등)
+ *
+ * @example
+ * NestFactory.createMicroservice(AppModule, createRabbitMQMicroserviceOptions('coupang-queue', url));
+ */
+export function createRabbitMQMicroserviceOptions(
+  queue: string,
+  url: string,
+  options: RmqOptions['options'] = {},
+): CustomStrategy {
+  return {
+    strategy: new RabbitMQServer({
+      urls: [url],
+      queue,
+      queueOptions: createRabbitMQQueueOptions(queue),
+      noAck: false,
+      ...options,
+    }),
+  };
+}
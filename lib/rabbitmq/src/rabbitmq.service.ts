@@ -1,68 +1,260 @@
-import { Injectable, OnApplicationShutdown } from '@nestjs/common';
+import { Inject, Injectable, OnApplicationShutdown, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { RmqOptions, RmqRecord, RmqRecordBuilder } from '@nestjs/microservices';
+import { TimeoutError, firstValueFrom, timeout } from 'rxjs';
+
+import { RabbitMQMessageKind } from './rabbitmq.audit.entity';
+import { RabbitMQAuditService } from './rabbitmq.audit.service';
+import {
+  RabbitMQClient,
+  RabbitMQConnectionError,
+  RabbitMQConnectionState,
+  RabbitMQConnectionStatus,
+  RabbitMQDisconnectedEmitStrategy,
+  RabbitMQTimeoutError,
+} from './rabbitmq.client';
+import { PatternOf, PayloadOf, QueueName, ResponseOf } from './rabbitmq.contracts';
+import { InMemoryClient, assertInMemoryTransportAllowed } from './rabbitmq.memory';
 import {
-  ClientProxy,
-  ClientProxyFactory,
-  MicroserviceOptions,
-  Transport,
-} from '@nestjs/microservices';
-import { firstValueFrom } from 'rxjs';
+  DEFAULT_CALL_OPTIONS,
+  RABBITMQ_MODULE_OPTIONS,
+  RabbitMQCallOptions,
+  RabbitMQModuleOptions,
+  RabbitMQTransport,
+  createRabbitMQQueueOptions,
+} from './rabbitmq.options';
+import { RabbitMQRemoteError, RabbitMQResponse } from './rabbitmq.response';
+import { createTraceHeaders } from './rabbitmq.trace';
+
+interface BufferedEmit {
+  pattern: string;
+  record: RmqRecord;
+}
 
 interface ClientInfo {
-  client: ClientProxy;
-  connected: boolean;
+  client: RabbitMQClient | InMemoryClient;
+  state: RabbitMQConnectionState;
+  connecting?: Promise<void>;
+  reconnectAttempts: number;
+  reconnectTimer?: NodeJS.Timeout;
+  lastConnectedAt?: Date;
+  lastDisconnectedAt?: Date;
+  lastError?: string;
+  bufferedEmits: BufferedEmit[];
 }
 
 @Injectable()
 export class RabbitMQService implements OnApplicationShutdown {
   private clients: Map<string, ClientInfo> = new Map();
-  constructor(private readonly configService: ConfigService) {}
+  private isShuttingDown = false;
+
+  private readonly transport: RabbitMQTransport;
+  private readonly emitStrategy: RabbitMQDisconnectedEmitStrategy;
+  private readonly emitBufferLimit: number;
+  private readonly reconnectBaseDelay: number;
+  private readonly reconnectMaxDelay: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject(RABBITMQ_MODULE_OPTIONS)
+    private readonly moduleOptions: RabbitMQModuleOptions = {},
+    @Optional() private readonly auditService?: RabbitMQAuditService,
+  ) {
+    this.transport =
+      (this.moduleOptions.transport ??
+        this.configService.get<RabbitMQTransport>('RABBITMQ_TRANSPORT')) === 'memory'
+        ? 'memory'
+        : 'rmq';
+    // 인메모리 전송은 테스트 전용이므로 다른 환경에서는 첫 전송이 아니라 시작 시 실패
+    if (this.transport === 'memory') assertInMemoryTransportAllowed();
+    this.emitStrategy =
+      this.configService.get<RabbitMQDisconnectedEmitStrategy>(
+        'RABBITMQ_EMIT_WHEN_DISCONNECTED',
+      ) === 'fail'
+        ? 'fail'
+        : 'buffer';
+    this.emitBufferLimit = Number(this.configService.get('RABBITMQ_EMIT_BUFFER_LIMIT') ?? 1000);
+    this.reconnectBaseDelay = Number(
+      this.configService.get('RABBITMQ_RECONNECT_BASE_DELAY_MS') ?? 1000,
+    );
+    this.reconnectMaxDelay = Number(
+      this.configService.get('RABBITMQ_RECONNECT_MAX_DELAY_MS') ?? 30000,
+    );
+  }
 
   // 클라이언트 생성 및 재사용
-  private async createClient(queue: string): Promise<ClientProxy> {
-    if (this.clients.has(queue)) {
-      const { client, connected } = this.clients.get(queue)!;
+  // 연결 중이면 연결 완료까지 대기, 끊긴 상태면 재연결을 기다리지 않고 즉시 실패
+  private async getClient(queue: string): Promise<ClientInfo> {
+    let info = this.clients.get(queue);
 
-      // 연결 상태를 확인하고 재연결
-      if (!connected) {
-        await this.reconnectClient(queue, client);
-      }
-      return client;
+    if (!info) {
+      info = this.createClient(queue);
+      this.clients.set(queue, info);
+      this.connectClient(queue, info);
     }
 
-    const options: MicroserviceOptions = {
-      transport: Transport.RMQ,
-      options: {
-        urls: [this.configService.get<string>('RABBITMQ_URL') || 'amqp://localhost:5672'],
-        queue,
-        queueOptions: { durable: false }, // 큐를 내구성 있게 설정
-        prefetchCount: 10, // 한 번에 처리할 메시지 수 제한
-        noAck: true, // ACK 필요 설정
-      },
+    if (info.connecting) {
+      await info.connecting.catch(() => undefined);
+    }
+
+    if (info.state !== 'connected') {
+      throw new RabbitMQConnectionError(queue);
+    }
+
+    return info;
+  }
+
+  private createClient(queue: string): ClientInfo {
+    if (this.transport === 'memory') {
+      return {
+        client: new InMemoryClient(queue),
+        state: 'disconnected',
+        reconnectAttempts: 0,
+        bufferedEmits: [],
+      };
+    }
+
+    const options: RmqOptions['options'] = {
+      urls: [this.configService.get<string>('RABBITMQ_URL') || 'amqp://localhost:5672'],
+      queue,
+      queueOptions: createRabbitMQQueueOptions(queue), // 수신 측과 동일한 durable + dead-letter 설정
+      persistent: true, // 브로커 재시작 시에도 메시지 유지
+      prefetchCount: 10, // 한 번에 처리할 메시지 수 제한
+      noAck: true, // direct reply-to 응답 큐는 noAck 만 지원
     };
 
-    const client = ClientProxyFactory.create(options);
-    this.clients.set(queue, { client, connected: true });
+    const info: ClientInfo = {
+      client: new RabbitMQClient(options, (error) => this.handleConnectionLost(queue, info, error)),
+      state: 'disconnected',
+      reconnectAttempts: 0,
+      bufferedEmits: [],
+    };
 
-    return client;
+    return info;
   }
 
-  private async reconnectClient(queue: string, client: ClientProxy): Promise<void> {
-    try {
-      await client.connect();
-      this.clients.set(queue, { client, connected: true });
-      console.log(`"${queue}" 대기열에 다시 연결되었습니다.`);
-    } catch (error) {
-      console.error(`"${queue}" 대기열에 다시 연결하지 못했습니다:`, error);
+  /**
+   * 클라이언트 연결 시도
+   *
+   * @description
+   * 1. 상태를 connecting 으로 변경하고 채널 준비까지 대기
+   * 2. 성공 시 connected 로 변경, 재시도 횟수 초기화, 버퍼에 쌓인 emit 발행
+   * 3. 실패 시 연결 끊김 처리(지수 백오프 재연결 예약)
+   */
+  private connectClient(queue: string, info: ClientInfo): Promise<void> {
+    info.state = 'connecting';
+    info.connecting = info.client
+      .connect()
+      .then(() => {
+        info.state = 'connected';
+        info.lastConnectedAt = new Date();
+
+        if (info.reconnectAttempts > 0) {
+          console.log(
+            `"${queue}" 대기열에 다시 연결되었습니다. (재시도 ${info.reconnectAttempts}회)`,
+          );
+        }
+        info.reconnectAttempts = 0;
+
+        return this.flushBufferedEmits(queue, info);
+      })
+      .catch((error) => this.handleConnectionLost(queue, info, error))
+      .finally(() => {
+        info.connecting = undefined;
+      });
+
+    return info.connecting;
+  }
+
+  private handleConnectionLost(queue: string, info: ClientInfo, error?: Error): void {
+    if (info.state === 'disconnected' || this.isShuttingDown) return;
+
+    info.state = 'disconnected';
+    info.lastDisconnectedAt = new Date();
+    info.lastError = error?.message;
+    console.error(`"${queue}" 대기열의 연결이 끊어졌습니다:`, error?.message ?? '');
+
+    // amqp-connection-manager 의 고정 간격 재연결 대신 백오프 재연결을 사용하기 위해 연결을 닫음
+    info.client.close();
+    this.scheduleReconnect(queue, info);
+  }
+
+  private scheduleReconnect(queue: string, info: ClientInfo): void {
+    if (info.reconnectTimer || this.isShuttingDown) return;
+
+    const delay = Math.min(
+      this.reconnectBaseDelay * 2 ** info.reconnectAttempts,
+      this.reconnectMaxDelay,
+    );
+    console.log(`"${queue}" 대기열 재연결 예약: ${delay}ms 후`);
+
+    info.reconnectTimer = setTimeout(() => {
+      info.reconnectTimer = undefined;
+      info.reconnectAttempts++;
+      this.connectClient(queue, info);
+    }, delay);
+  }
+
+  private async flushBufferedEmits(queue: string, info: ClientInfo): Promise<void> {
+    if (info.bufferedEmits.length === 0) return;
+
+    console.log(`"${queue}" 대기열에 보류된 메시지 ${info.bufferedEmits.length}건 발행`);
+
+    while (info.bufferedEmits.length > 0 && info.state === 'connected') {
+      const { pattern, record } = info.bufferedEmits[0];
+      try {
+        await firstValueFrom(info.client.emit(queue, record));
+        info.bufferedEmits.shift();
+      } catch (error) {
+        console.error(
+          `"${queue}" 대기열에 보류된 "${pattern}" 메시지를 발행하지 못했습니다:`,
+          error,
+        );
+        return;
+      }
+    }
+  }
+
+  private bufferEmit(queue: string, pattern: string, record: RmqRecord): void {
+    const info = this.clients.get(queue)!;
+
+    if (info.bufferedEmits.length >= this.emitBufferLimit) {
+      throw new RabbitMQConnectionError(
+        queue,
+        `"${queue}" 대기열의 보류 메시지가 한도(${this.emitBufferLimit}건)를 초과했습니다.`,
+      );
     }
+
+    info.bufferedEmits.push({ pattern, record });
+    console.warn(
+      `"${queue}" 대기열 연결 끊김 - "${pattern}" 메시지를 보류합니다. (${info.bufferedEmits.length}건)`,
+    );
   }
 
   // 메시지 발행 (Emit)
-  async emit(queue: string, pattern: string, payload: any): Promise<void> {
+  // 연결이 끊긴 경우 RABBITMQ_EMIT_WHEN_DISCONNECTED 설정에 따라 보류(buffer) 또는 즉시 실패(fail)
+  async emit<Q extends QueueName, P extends PatternOf<Q>>(
+    queue: Q,
+    pattern: P,
+    payload: PayloadOf<Q, P>,
+  ): Promise<void> {
+    // 보류 후 재발행되더라도 발행 시점의 추적 헤더를 유지하도록 먼저 생성
+    const record = this.createRecord(pattern, payload);
+    const startedAt = Date.now();
+
     try {
-      const client = await this.createClient(queue);
-      await firstValueFrom(client.emit(queue, { pattern, payload }));
+      const { client } = await this.getClient(queue);
+      await firstValueFrom(client.emit(queue, record));
+      this.audit('emit', queue, pattern, payload, startedAt);
     } catch (error) {
+      if (error instanceof RabbitMQConnectionError && this.emitStrategy === 'buffer') {
+        this.bufferEmit(queue, pattern, record);
+        this.audit('emit', queue, pattern, payload, startedAt);
+        return;
+      }
+
+      this.audit('emit', queue, pattern, payload, startedAt, { error });
       console.error(
         `"${pattern}" 패턴을 사용하여 "${queue}" 대기열에 메시지를 내보내는 중 오류가 발생했습니다:`,
         error,
@@ -72,24 +264,174 @@ export class RabbitMQService implements OnApplicationShutdown {
   }
 
   // 요청-응답 (Send)
-  async send(queue: string, pattern: string, payload: any): Promise<any> {
+  // 응답 측이 error 봉투를 돌려주면 RabbitMQRemoteError, 연결이 끊긴 경우 RabbitMQConnectionError,
+  // 응답 대기 시간을 초과하면 RabbitMQTimeoutError 를 던짐
+  async send<Q extends QueueName, P extends PatternOf<Q>>(
+    queue: Q,
+    pattern: P,
+    payload: PayloadOf<Q, P>,
+    options: RabbitMQCallOptions = {},
+  ): Promise<RabbitMQResponse<ResponseOf<Q, P>>> {
+    const {
+      timeout: timeoutMs,
+      retries,
+      retryDelay,
+    } = this.resolveCallOptions(queue, pattern, options);
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.sendOnce<Q, P>(queue, pattern, payload, timeoutMs);
+        this.audit('send', queue, pattern, payload, startedAt, { response });
+        return response;
+      } catch (error) {
+        if (attempt < retries && this.isRetryable(error)) {
+          const delay = retryDelay * 2 ** attempt;
+          console.warn(
+            `"${queue}" 대기열의 "${pattern}" 요청 재시도 ${attempt + 1}/${retries} (${delay}ms 후): ${(error as Error).message}`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+
+        this.audit('send', queue, pattern, payload, startedAt, { error });
+        console.error(
+          `"${pattern}" 패턴을 사용하여 "${queue}" 대기열에 메시지를 보내는 중 오류가 발생했습니다:`,
+          error,
+        );
+        throw error;
+      }
+    }
+  }
+
+  // RabbitMQAuditModule 이 등록된 경우에만 발신 메시지 기록 (저장 완료를 기다리지 않음)
+  private audit(
+    kind: RabbitMQMessageKind,
+    queue: string,
+    pattern: string,
+    payload: unknown,
+    startedAt: number,
+    result: { response?: unknown; error?: unknown } = {},
+  ): void {
+    void this.auditService?.record({
+      direction: 'outgoing',
+      kind,
+      queue,
+      pattern,
+      payload,
+      ...result,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+
+  private async sendOnce<Q extends QueueName, P extends PatternOf<Q>>(
+    queue: Q,
+    pattern: P,
+    payload: PayloadOf<Q, P>,
+    timeoutMs: number,
+  ): Promise<RabbitMQResponse<ResponseOf<Q, P>>> {
+    const { client } = await this.getClient(queue);
+
+    let response: RabbitMQResponse<ResponseOf<Q, P>>;
     try {
-      const client = await this.createClient(queue);
-      return await firstValueFrom(client.send(queue, { pattern, payload }));
-    } catch (error) {
-      console.error(
-        `"${pattern}" 패턴을 사용하여 "${queue}" 대기열에 메시지를 보내는 중 오류가 발생했습니다:`,
-        error,
+      response = await firstValueFrom(
+        client.send(queue, this.createRecord(pattern, payload)).pipe(timeout(timeoutMs)),
       );
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        throw new RabbitMQTimeoutError(queue, pattern, timeoutMs);
+      }
       throw error;
     }
+
+    if (response?.status === 'error') {
+      throw new RabbitMQRemoteError(
+        queue,
+        pattern,
+        response.error ?? { message: '알 수 없는 오류' },
+      );
+    }
+
+    return response;
+  }
+
+  // { pattern, payload } 본문에 추적 헤더(correlationId, origin, span, timestamp)를 붙인 메시지 생성
+  private createRecord(pattern: string, payload: unknown): RmqRecord {
+    const cronId = (payload as { cronId?: unknown } | undefined)?.cronId;
+
+    return new RmqRecordBuilder({ pattern, payload })
+      .setOptions({
+        headers: createTraceHeaders(
+          this.moduleOptions.serviceName ?? 'unknown',
+          typeof cronId === 'string' ? cronId : undefined,
+        ),
+      })
+      .build();
+  }
+
+  // 호출 옵션 > 패턴별 옵션 > 모듈 기본 옵션 > 라이브러리 기본값 순으로 적용
+  private resolveCallOptions<Q extends QueueName>(
+    queue: Q,
+    pattern: PatternOf<Q>,
+    options: RabbitMQCallOptions,
+  ): Required<RabbitMQCallOptions> {
+    const patternOptions = (
+      this.moduleOptions.patterns?.[queue] as Record<string, RabbitMQCallOptions> | undefined
+    )?.[pattern];
+
+    return {
+      ...DEFAULT_CALL_OPTIONS,
+      ...this.moduleOptions.defaults,
+      ...patternOptions,
+      ...options,
+    };
+  }
+
+  // 응답 측에서 처리된 결과(error 봉투)는 재시도해도 같은 결과이므로 전송 계층 오류만 재시도
+  private isRetryable(error: unknown): boolean {
+    return error instanceof RabbitMQTimeoutError || error instanceof RabbitMQConnectionError;
+  }
+
+  /**
+   * 큐별 연결 상태 조회 (헬스 체크용)
+   *
+   * @returns healthy - 생성된 모든 클라이언트가 연결된 상태인지 여부, queues - 큐별 상세 상태
+   */
+  getConnectionStatus(): RabbitMQConnectionStatus {
+    const queues: RabbitMQConnectionStatus['queues'] = {};
+
+    for (const [queue, info] of this.clients.entries()) {
+      queues[queue] = {
+        state: info.state,
+        reconnectAttempts: info.reconnectAttempts,
+        bufferedEmits: info.bufferedEmits.length,
+        lastConnectedAt: info.lastConnectedAt,
+        lastDisconnectedAt: info.lastDisconnectedAt,
+        lastError: info.lastError,
+      };
+    }
+
+    return {
+      healthy: Object.values(queues).every(({ state }) => state === 'connected'),
+      queues,
+    };
   }
 
   // 애플리케이션 종료 시 모든 연결 닫기
   async onApplicationShutdown(): Promise<void> {
-    for (const [queue, { client }] of this.clients.entries()) {
+    this.isShuttingDown = true;
+
+    for (const [queue, info] of this.clients.entries()) {
+      clearTimeout(info.reconnectTimer);
+
+      if (info.bufferedEmits.length > 0) {
+        console.warn(
+          `"${queue}" 대기열의 보류 메시지 ${info.bufferedEmits.length}건이 발행되지 못하고 폐기됩니다.`,
+        );
+      }
+
       try {
-        client.close();
+        info.client.close();
         console.log(`"${queue}" 대기열의 클라이언트가 닫혔습니다.`);
       } catch (error) {
         console.error(`"${queue}" 대기열의 클라이언트를 닫는 동안 오류가 발생했습니다:`, error);
@@ -0,0 +1,44 @@
+import { runWithTraceContext, setupTraceLogPrefix } from './rabbitmq.trace';
+
+describe('setupTraceLogPrefix', () => {
+  const originalLog = console.log;
+  const output = jest.fn();
+
+  beforeAll(() => {
+    console.log = output;
+    setupTraceLogPrefix();
+    // 두 번 호출해도 표기가 중복되지 않아야 함
+    setupTraceLogPrefix();
+  });
+
+  afterAll(() => {
+    console.log = originalLog;
+  });
+
+  beforeEach(() => {
+    output.mockClear();
+  });
+
+  it('추적 범위 안의 로그 앞에 correlationId/spanId 를 붙인다', () => {
+    runWithTraceContext(() => console.log('ORDERcron-1: 자동 발주 시작', 1), 'cron-1');
+
+    expect(output).toHaveBeenCalledWith(
+      expect.stringMatching(/^\[cron-1\/[0-9a-f]{16}\] ORDERcron-1: 자동 발주 시작$/),
+      1,
+    );
+  });
+
+  it('문자열이 아닌 첫 인자는 별도 인자로 표기를 붙인다', () => {
+    const error = new Error('fail');
+
+    runWithTraceContext(() => console.log(error), 'cron-1');
+
+    expect(output).toHaveBeenCalledWith(expect.stringMatching(/^\[cron-1\/[0-9a-f]{16}\]$/), error);
+  });
+
+  it('추적 범위 밖의 로그는 그대로 출력한다', () => {
+    console.log('서비스 시작');
+
+    expect(output).toHaveBeenCalledWith('서비스 시작');
+  });
+});
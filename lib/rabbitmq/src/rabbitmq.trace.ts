@@ -0,0 +1,155 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export const TRACE_HEADERS = {
+  correlationId: 'x-correlation-id',
+  origin: 'x-origin-service',
+  parentSpanId: 'x-parent-span-id',
+  spanId: 'x-span-id',
+  timestamp: 'x-timestamp',
+} as const;
+
+/**
+ * 하나의 크론 실행(order → coupang → onch → mail 등)을 서비스 간에 이어주는 추적 정보
+ */
+export interface RabbitMQTraceContext {
+  /** 크론 실행 전체를 묶는 ID (크론에서 시작된 경우 cronId) */
+  correlationId: string;
+  /** 현재 작업 단위(span) ID */
+  spanId: string;
+  /** 현재 span 을 발생시킨 상위 span ID */
+  parentSpanId?: string;
+  /** 메시지를 발행한 서비스 이름 */
+  origin?: string;
+  /** 메시지 발행 시각 (ISO 8601) */
+  timestamp?: string;
+}
+
+const traceStorage = new AsyncLocalStorage<RabbitMQTraceContext>();
+
+function createSpanId(): string {
+  return randomUUID().replace(/-/g, '').slice(0, 16);
+}
+
+/**
+ * 현재 비동기 흐름의 추적 정보 조회
+ * 메시지 핸들러 또는 runWithTraceContext 내부가 아니면 undefined
+ */
+export function getTraceContext(): RabbitMQTraceContext | undefined {
+  return traceStorage.getStore();
+}
+
+/**
+ * 새 추적 범위 안에서 함수 실행
+ * 크론 작업 등 메시지 수신 없이 시작되는 흐름의 시작점에서 사용합니다.
+ *
+ * @param fn - 실행할 함수
+ * @param correlationId - 묶을 ID (생략 시 새로 생성, 보통 cronId 전달)
+ */
+export function runWithTraceContext<T>(fn: () => T, correlationId: string = randomUUID()): T {
+  const parent = traceStorage.getStore();
+
+  return traceStorage.run(
+    {
+      correlationId,
+      spanId: createSpanId(),
+      parentSpanId: parent?.spanId,
+      origin: parent?.origin,
+      timestamp: new Date().toISOString(),
+    },
+    fn,
+  );
+}
+
+/**
+ * 수신한 메시지 헤더로 추적 정보를 구성하여 함수 실행
+ *
+ * @param headers - AMQP 메시지 헤더
+ * @param fallbackCorrelationId - 헤더가 없는 메시지(구버전 송신 측)일 때 사용할 ID
+ * @param fn - 실행할 함수
+ */
+export function runWithTraceHeaders<T>(
+  headers: Record<string, unknown> | undefined,
+  fallbackCorrelationId: string | undefined,
+  fn: () => T,
+): T {
+  const header = (name: string) => {
+    const value = headers?.[name];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  };
+
+  return traceStorage.run(
+    {
+      correlationId: header(TRACE_HEADERS.correlationId) ?? fallbackCorrelationId ?? randomUUID(),
+      spanId: header(TRACE_HEADERS.spanId) ?? createSpanId(),
+      parentSpanId: header(TRACE_HEADERS.parentSpanId),
+      origin: header(TRACE_HEADERS.origin),
+      timestamp: header(TRACE_HEADERS.timestamp),
+    },
+    fn,
+  );
+}
+
+/**
+ * 발행할 메시지에 붙일 추적 헤더 생성
+ *
+ * @description
+ * 1. 현재 추적 정보가 있으면 correlationId 를 이어받고 현재 span 을 parent 로 지정
+ * 2. 없으면 payload 의 cronId(없으면 새 UUID)를 correlationId 로 사용
+ * 3. 메시지마다 새 span ID 를 발급하여 수신 측 작업 단위로 사용
+ */
+export function createTraceHeaders(
+  origin: string,
+  fallbackCorrelationId?: string,
+): Record<string, string> {
+  const current = traceStorage.getStore();
+
+  const headers: Record<string, string> = {
+    [TRACE_HEADERS.correlationId]: current?.correlationId ?? fallbackCorrelationId ?? randomUUID(),
+    [TRACE_HEADERS.origin]: origin,
+    [TRACE_HEADERS.spanId]: createSpanId(),
+    [TRACE_HEADERS.timestamp]: new Date().toISOString(),
+  };
+  if (current?.spanId) headers[TRACE_HEADERS.parentSpanId] = current.spanId;
+
+  return headers;
+}
+
+/**
+ * 로그 / 이메일에 붙일 짧은 추적 표기 ("correlationId/spanId")
+ */
+export function formatTraceContext(context = getTraceContext()): string {
+  return context ? `${context.correlationId}/${context.spanId}` : '';
+}
+
+const TRACE_LOG_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+let traceLogPrefixInstalled = false;
+
+/**
+ * console 출력 앞에 현재 추적 표기("[correlationId/spanId]")를 붙임
+ *
+ * 크론(runWithTraceContext) / 메시지 핸들러 안에서 남긴 로그만 표기가 붙으며,
+ * 여러 서비스의 로그를 correlationId 로 검색하여 하나의 크론 실행으로 묶을 수 있습니다.
+ * 여러 번 호출해도 한 번만 적용됩니다.
+ *
+ * @example
+ * setupGlobalConsoleLogging();
+ * setupTraceLogPrefix();
+ */
+export function setupTraceLogPrefix(): void {
+  if (traceLogPrefixInstalled) return;
+  traceLogPrefixInstalled = true;
+
+  for (const method of TRACE_LOG_METHODS) {
+    const original = console[method].bind(console);
+
+    console[method] = (...args: unknown[]) => {
+      const trace = formatTraceContext();
+      if (!trace) return original(...args);
+
+      // 첫 인자가 문자열이면 포맷 문자열(%s 등)이 유지되도록 앞에 이어 붙임
+      if (typeof args[0] === 'string') return original(`[${trace}] ${args[0]}`, ...args.slice(1));
+      return original(`[${trace}]`, ...args);
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { Type } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validate } from 'class-validator';
+
+/**
+ * 패턴 이름 → payload DTO 클래스 매핑
+ *
+ * 매핑되지 않은 패턴은 검증 없이 통과시키며, 알 수 없는 패턴 처리는 컨트롤러에 맡깁니다.
+ */
+export type RabbitMQPayloadSchemas = Record<string, Type<object>>;
+
+export interface RabbitMQValidationIssue {
+  property: string;
+  constraints: string[];
+}
+
+/**
+ * payload 검증 실패 시 던져지는 에러
+ * RabbitMQResponseInterceptor 가 code / details 를 그대로 error 봉투에 담아 송신 측에 돌려줌
+ */
+export class RabbitMQValidationError extends Error {
+  readonly code = 'VALIDATION_ERROR';
+
+  constructor(
+    readonly pattern: string,
+    readonly details: RabbitMQValidationIssue[],
+  ) {
+    super(
+      `"${pattern}" 패턴의 payload 가 유효하지 않습니다: ${details
+        .map((issue) => issue.property)
+        .join(', ')}`,
+    );
+    this.name = 'RabbitMQValidationError';
+  }
+}
+
+/**
+ * 중첩된 ValidationError 트리를 "a.b.c" 경로 단위의 평탄한 목록으로 변환
+ */
+function flattenValidationErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): RabbitMQValidationIssue[] {
+  return errors.flatMap((error) => {
+    const property = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const issues: RabbitMQValidationIssue[] = error.constraints
+      ? [{ property, constraints: Object.values(error.constraints) }]
+      : [];
+
+    return issues.concat(flattenValidationErrors(error.children ?? [], property));
+  });
+}
+
+// 거부 로그에 남길 payload 최대 길이 (대량 상품 목록 등이 로그를 채우지 않도록 자름)
+const REJECTED_PAYLOAD_LOG_LENGTH = 1000;
+
+/**
+ * payload 검증 실패를 패턴, 위반한 규칙 목록, 잘린 payload 와 함께 로그로 남김
+ *
+ * @param payload - 거부된 payload
+ * @param error - validateRabbitMQPayload 가 던진 에러
+ */
+export function logRabbitMQValidationError(payload: any, error: RabbitMQValidationError): void {
+  const issues = error.details
+    .map((issue) => `  - ${issue.property}: ${issue.constraints.join(', ')}`)
+    .join('\n');
+  const serialized = JSON.stringify(payload) ?? String(payload);
+  const truncated =
+    serialized.length > REJECTED_PAYLOAD_LOG_LENGTH
+      ? `${serialized.slice(0, REJECTED_PAYLOAD_LOG_LENGTH)}... (${serialized.length}자)`
+      : serialized;
+
+  console.error(
+    `${payload?.type ?? ''}${payload?.cronId ?? ''}: 📬${error.pattern} 메시지 거부\n${issues}\npayload: ${truncated}`,
+  );
+}
+
+/**
+ * 메시지의 pattern 에 해당하는 DTO 로 payload 를 검증
+ *
+ * @param pattern - 메시지 패턴
+ * @param payload - 수신한 payload
+ * @param schemas - 패턴별 DTO 매핑
+ * @returns DTO 인스턴스로 변환된 payload (매핑이 없으면 원본 그대로)
+ * @throws RabbitMQValidationError - payload 가 DTO 규칙을 위반한 경우
+ */
+export async function validateRabbitMQPayload(
+  pattern: string,
+  payload: unknown,
+  schemas: RabbitMQPayloadSchemas,
+): Promise<unknown> {
+  const dto = schemas[pattern];
+  if (!dto) return payload;
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    throw new RabbitMQValidationError(pattern, [
+      { property: 'payload', constraints: ['payload must be an object'] },
+    ]);
+  }
+
+  const instance = plainToInstance(dto, payload);
+  const errors = await validate(instance, { forbidUnknownValues: false });
+
+  if (errors.length > 0) {
+    throw new RabbitMQValidationError(pattern, flattenValidationErrors(errors));
+  }
+
+  return instance;
+}
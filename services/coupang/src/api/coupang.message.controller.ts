@@ -1,12 +1,43 @@
-import { CronType, RabbitmqMessage } from '@daechanjo/models';
+import { RabbitmqMessage } from '@daechanjo/models';
+import {
+  CronPayloadDto,
+  DestructiveCronPayloadDto,
+  RabbitMQAuditInterceptor,
+  RabbitMQDispatcher,
+  RabbitMQResponseInterceptor,
+  RmqHandler,
+} from '@daechanjo/rabbitmq';
 import { InjectQueue } from '@nestjs/bull';
-import { Controller } from '@nestjs/common';
+import { Controller, UseInterceptors } from '@nestjs/common';
 import { MessagePattern } from '@nestjs/microservices';
 import { Queue } from 'bull';
 
 import { CoupangApiService } from '../core/coupang.api.service';
 import { CoupangService } from '../core/coupang.service';
 import { CoupangCrawlerService } from '../core/crawler/coupang.crawler.service';
+import {
+  AcknowledgeOrdersDto,
+  ApproveCancelRequestDto,
+  ConfirmExchangeReceiptDto,
+  ConfirmReturnReceiptDto,
+  GetCancelRequestsDto,
+  GetClaimRequestsDto,
+  GetBulkProductUpdateStatusDto,
+  GetCategoryMetaDto,
+  GetCoupangOrderListDto,
+  GetProductDetailDto,
+  InvoiceUploadDto,
+  MatchedProductsDto,
+  ProductRequestDto,
+  PutItemPriceDto,
+  PutItemQuantityDto,
+  PutResumeSellingItemDto,
+  PutStopSellingItemDto,
+  PutUpdateProductDto,
+  RestoreProductDto,
+  ResumeSaleProductsDto,
+  StartBulkProductUpdateDto,
+} from './dto/coupang.message.dto';
 
 @Controller()
 export class CoupangMessageController {
@@ -14,6 +45,7 @@ export class CoupangMessageController {
     private readonly coupangService: CoupangService,
     private readonly coupangApiService: CoupangApiService,
     private readonly coupangCrawlerService: CoupangCrawlerService,
+    private readonly rabbitmqDispatcher: RabbitMQDispatcher,
     @InjectQueue('coupang-message-queue') private readonly messageQueue: Queue,
   ) {}
 
@@ -55,104 +87,250 @@ export class CoupangMessageController {
   // }
 
   @MessagePattern('coupang-queue')
+  @UseInterceptors(RabbitMQResponseInterceptor, RabbitMQAuditInterceptor)
   async processMessage(message: RabbitmqMessage) {
-    const { pattern, payload } = message;
-    console.log(`${payload.type}${payload.cronId}: 📬${pattern}`);
-
-    switch (pattern) {
-      case 'orderStatusUpdate':
-        await this.coupangCrawlerService.orderStatusUpdate(payload.cronId, payload.type);
-        break;
-
-      case 'invoiceUpload':
-        return await this.coupangCrawlerService.invoiceUpload(
-          payload.cronId,
-          payload.updatedOrders,
-          payload.type,
-        );
-
-      case 'crawlCoupangDetailProducts':
-        await this.coupangCrawlerService.crawlCoupangDetailProducts(payload.cronId, payload.type);
-        return 'success';
-
-      case 'deleteConfirmedCoupangProduct':
-        const matchedProducts = await this.coupangCrawlerService.deleteConfirmedCoupangProduct(
-          payload.cronId,
-          payload.type,
-        );
-        return { status: 'success', data: matchedProducts };
-
-      case 'getProductListPaging':
-        const coupangProducts = await this.coupangApiService.getProductListPaging(
-          payload.cronId,
-          payload.type,
-        );
-        return { status: 'success', data: coupangProducts };
-
-      case 'getProductDetail':
-        const coupangProduct = await this.coupangApiService.getProductDetail(
-          payload.cronId,
-          payload.type,
-          payload.sellerProductId,
-        );
-        return { status: 'success', data: coupangProduct };
-
-      case 'getCoupangOrderList':
-        const coupangOrderList = await this.coupangApiService.getCoupangOrderList(
-          payload.cronId,
-          payload.type,
-          payload.status,
-          payload.vendorId,
-          payload.today,
-          payload.yesterday,
-        );
-        return { status: 'success', data: coupangOrderList };
-
-      case 'putStopSellingItem':
-        await this.coupangApiService.putStopSellingItem(
-          payload.cronId,
-          payload.type,
-          payload.vendorItemId,
-        );
-        break;
-
-      case 'stopSaleForMatchedProducts':
-        await this.coupangService.stopSaleForMatchedProducts(
-          payload.cronId,
-          payload.type,
-          payload.matchedProducts,
-        );
-        return { status: 'success' };
-
-      case 'deleteProducts':
-        await this.coupangService.deleteProducts(
-          payload.cronId,
-          payload.type,
-          payload.matchedProducts,
-        );
-        return { status: 'success' };
-
-      case 'coupangProductsPriceControl':
-        await this.coupangService.coupangProductsPriceControl(payload.cronId, payload.type);
-        return { status: 'success' };
-
-      case 'shippingCostManagement':
-        const shippingCostResult = await this.coupangService.shippingCostManagement(
-          payload.cronId,
-          payload.coupangProductDetails,
-          payload.type,
-        );
-        return { status: 'success', data: shippingCostResult };
-
-      case 'clearCoupangProducts':
-        await this.coupangService.clearCoupangProducts();
-        return { status: 'success' };
-
-      default:
-        console.error(
-          `${CronType.ERROR}${payload.type}${payload.cronId}: 📬알 수 없는 패턴 유형 ${pattern}`,
-        );
-        return { status: 'error', message: `알 수 없는 패턴 유형: ${pattern}` };
-    }
+    return await this.rabbitmqDispatcher.dispatch('coupang-queue', message);
+  }
+
+  @RmqHandler('coupang-queue', 'orderStatusUpdate', { dto: CronPayloadDto })
+  async orderStatusUpdate(payload: CronPayloadDto) {
+    await this.coupangCrawlerService.orderStatusUpdate(payload.cronId, payload.type);
+  }
+
+  @RmqHandler('coupang-queue', 'invoiceUpload', { dto: InvoiceUploadDto })
+  async invoiceUpload(payload: InvoiceUploadDto) {
+    return await this.coupangCrawlerService.invoiceUpload(
+      payload.cronId,
+      payload.updatedOrders,
+      payload.type,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'crawlCoupangDetailProducts', { dto: CronPayloadDto })
+  async crawlCoupangDetailProducts(payload: CronPayloadDto) {
+    await this.coupangCrawlerService.crawlCoupangDetailProducts(payload.cronId, payload.type);
+  }
+
+  @RmqHandler('coupang-queue', 'checkSelectorHealth', { dto: CronPayloadDto })
+  async checkSelectorHealth(payload: CronPayloadDto) {
+    return await this.coupangCrawlerService.checkSelectorHealth(payload.cronId, payload.type);
+  }
+
+  @RmqHandler('coupang-queue', 'deleteConfirmedCoupangProduct', {
+    dto: DestructiveCronPayloadDto,
+  })
+  async deleteConfirmedCoupangProduct(payload: DestructiveCronPayloadDto) {
+    return await this.coupangCrawlerService.deleteConfirmedCoupangProduct(
+      payload.cronId,
+      payload.type,
+      payload,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'getProductListPaging', { dto: CronPayloadDto })
+  async getProductListPaging(payload: CronPayloadDto) {
+    return await this.coupangApiService.getProductListPaging(payload.cronId, payload.type);
+  }
+
+  @RmqHandler('coupang-queue', 'getProductDetail', { dto: GetProductDetailDto })
+  async getProductDetail(payload: GetProductDetailDto) {
+    return await this.coupangApiService.getProductDetail(
+      payload.cronId,
+      payload.type,
+      payload.sellerProductId,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'getCoupangOrderList', { dto: GetCoupangOrderListDto })
+  async getCoupangOrderList(payload: GetCoupangOrderListDto) {
+    return await this.coupangApiService.getCoupangOrderList(
+      payload.cronId,
+      payload.type,
+      payload.status,
+      payload.vendorId,
+      payload.today,
+      payload.yesterday,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'getCancelRequests', { dto: GetCancelRequestsDto })
+  async getCancelRequests(payload: GetCancelRequestsDto) {
+    return await this.coupangApiService.getCancelRequests(
+      payload.cronId,
+      payload.type,
+      payload.vendorId,
+      payload.createdAtFrom,
+      payload.createdAtTo,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'acknowledgeOrders', { dto: AcknowledgeOrdersDto })
+  async acknowledgeOrders(payload: AcknowledgeOrdersDto) {
+    await this.coupangApiService.acknowledgeOrders(
+      payload.cronId,
+      payload.type,
+      payload.vendorId,
+      payload.shipmentBoxIds,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'approveCancelRequest', { dto: ApproveCancelRequestDto })
+  async approveCancelRequest(payload: ApproveCancelRequestDto) {
+    await this.coupangApiService.approveCancelRequest(
+      payload.vendorId,
+      payload.receiptId,
+      payload.cancelCount,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'getReturnRequests', { dto: GetClaimRequestsDto })
+  async getReturnRequests(payload: GetClaimRequestsDto) {
+    return await this.coupangApiService.getReturnRequests(
+      payload.cronId,
+      payload.type,
+      payload.vendorId,
+      payload.createdAtFrom,
+      payload.createdAtTo,
+      payload.status,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'confirmReturnReceipt', { dto: ConfirmReturnReceiptDto })
+  async confirmReturnReceipt(payload: ConfirmReturnReceiptDto) {
+    await this.coupangApiService.confirmReturnReceipt(payload.vendorId, payload.receiptId);
+  }
+
+  @RmqHandler('coupang-queue', 'getExchangeRequests', { dto: GetClaimRequestsDto })
+  async getExchangeRequests(payload: GetClaimRequestsDto) {
+    return await this.coupangApiService.getExchangeRequests(
+      payload.cronId,
+      payload.type,
+      payload.vendorId,
+      payload.createdAtFrom,
+      payload.createdAtTo,
+      payload.status,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'confirmExchangeReceipt', { dto: ConfirmExchangeReceiptDto })
+  async confirmExchangeReceipt(payload: ConfirmExchangeReceiptDto) {
+    await this.coupangApiService.confirmExchangeReceipt(payload.vendorId, payload.exchangeId);
+  }
+
+  @RmqHandler('coupang-queue', 'putStopSellingItem', { dto: PutStopSellingItemDto })
+  async putStopSellingItem(payload: PutStopSellingItemDto) {
+    await this.coupangApiService.putStopSellingItem(
+      payload.cronId,
+      payload.type,
+      payload.vendorItemId,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'putResumeSellingItem', { dto: PutResumeSellingItemDto })
+  async putResumeSellingItem(payload: PutResumeSellingItemDto) {
+    await this.coupangApiService.putResumeSellingItem(payload.vendorItemId);
+  }
+
+  @RmqHandler('coupang-queue', 'restoreProduct', { dto: RestoreProductDto })
+  async restoreProduct(payload: RestoreProductDto) {
+    return await this.coupangService.restoreProduct(
+      payload.cronId,
+      payload.type,
+      payload.productCode,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'resumeSaleForMatchedProducts', { dto: ResumeSaleProductsDto })
+  async resumeSaleForMatchedProducts(payload: ResumeSaleProductsDto) {
+    return await this.coupangService.resumeSaleForMatchedProducts(
+      payload.cronId,
+      payload.type,
+      payload.matchedProducts,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'putItemPrice', { dto: PutItemPriceDto })
+  async putItemPrice(payload: PutItemPriceDto) {
+    await this.coupangApiService.putItemPrice(payload.vendorItemId, payload.price);
+  }
+
+  @RmqHandler('coupang-queue', 'putItemQuantity', { dto: PutItemQuantityDto })
+  async putItemQuantity(payload: PutItemQuantityDto) {
+    await this.coupangApiService.putItemQuantity(payload.vendorItemId, payload.quantity);
+  }
+
+  @RmqHandler('coupang-queue', 'createProduct', { dto: ProductRequestDto })
+  async createProduct(payload: ProductRequestDto) {
+    return await this.coupangApiService.createProduct(
+      payload.cronId,
+      payload.type,
+      payload.product,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'updateProduct', { dto: ProductRequestDto })
+  async updateProduct(payload: ProductRequestDto) {
+    return await this.coupangApiService.updateProduct(
+      payload.cronId,
+      payload.type,
+      payload.product,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'putUpdateProduct', { dto: PutUpdateProductDto })
+  async putUpdateProduct(payload: PutUpdateProductDto) {
+    await this.coupangApiService.putUpdateProduct(payload.sellerProductId, payload.changes);
+  }
+
+  @RmqHandler('coupang-queue', 'getCategoryMeta', { dto: GetCategoryMetaDto })
+  async getCategoryMeta(payload: GetCategoryMetaDto) {
+    return await this.coupangApiService.getCategoryMeta(payload.displayCategoryCode);
+  }
+
+  @RmqHandler('coupang-queue', 'stopSaleForMatchedProducts', { dto: MatchedProductsDto })
+  async stopSaleForMatchedProducts(payload: MatchedProductsDto) {
+    return await this.coupangService.stopSaleForMatchedProducts(
+      payload.cronId,
+      payload.type,
+      payload.matchedProducts,
+      payload,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'deleteProducts', { dto: MatchedProductsDto })
+  async deleteProducts(payload: MatchedProductsDto) {
+    return await this.coupangService.deleteProducts(
+      payload.cronId,
+      payload.type,
+      payload.matchedProducts,
+      payload,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'coupangProductsPriceControl', { dto: CronPayloadDto })
+  async coupangProductsPriceControl(payload: CronPayloadDto) {
+    await this.coupangService.coupangProductsPriceControl(payload.cronId, payload.type);
+  }
+
+  @RmqHandler('coupang-queue', 'startBulkProductUpdate', { dto: StartBulkProductUpdateDto })
+  async startBulkProductUpdate(payload: StartBulkProductUpdateDto) {
+    return await this.coupangService.startBulkProductUpdate(
+      payload.cronId,
+      payload.type,
+      payload.patch,
+      payload.filter,
+    );
+  }
+
+  @RmqHandler('coupang-queue', 'getBulkProductUpdateStatus', {
+    dto: GetBulkProductUpdateStatusDto,
+  })
+  async getBulkProductUpdateStatus(payload: GetBulkProductUpdateStatusDto) {
+    return await this.coupangService.getBulkProductUpdateStatus(payload.jobId);
+  }
+
+  @RmqHandler('coupang-queue', 'clearCoupangProducts')
+  async clearCoupangProducts() {
+    await this.coupangService.clearCoupangProducts();
   }
 }
@@ -0,0 +1,255 @@
+import { CoupangPagingProduct } from '@daechanjo/models';
+import {
+  CoupangProductFilter,
+  CoupangProductPatch,
+  CoupangProductRequest,
+  CronPayloadDto,
+  DestructiveCronPayloadDto,
+  InvoiceUploadOrder,
+  PayloadOf,
+} from '@daechanjo/rabbitmq';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsNotEmptyObject,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+
+export class InvoiceUploadDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'invoiceUpload'>
+{
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsObject({ each: true })
+  updatedOrders: InvoiceUploadOrder[];
+}
+
+export class GetProductDetailDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'getProductDetail'>
+{
+  @IsNumber()
+  sellerProductId: number;
+}
+
+export class GetCoupangOrderListDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'getCoupangOrderList'>
+{
+  @IsString()
+  @IsNotEmpty()
+  status: string;
+
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @Matches(DATE_FORMAT)
+  today: string;
+
+  @Matches(DATE_FORMAT)
+  yesterday: string;
+}
+
+export class PutStopSellingItemDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'putStopSellingItem'>
+{
+  @IsNumber()
+  vendorItemId: number;
+}
+
+export class RestoreProductDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'restoreProduct'>
+{
+  @IsString()
+  @IsNotEmpty()
+  productCode: string;
+}
+
+export class ResumeSaleProductsDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'resumeSaleForMatchedProducts'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  matchedProducts: { sellerProductId: number; sellerProductName: string }[];
+}
+
+export class MatchedProductsDto
+  extends DestructiveCronPayloadDto
+  implements PayloadOf<'coupang-queue', 'deleteProducts'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  matchedProducts: CoupangPagingProduct[];
+}
+
+export class StartBulkProductUpdateDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'startBulkProductUpdate'>
+{
+  @IsObject()
+  @IsNotEmptyObject()
+  patch: CoupangProductPatch;
+
+  @IsOptional()
+  @IsObject()
+  filter?: CoupangProductFilter;
+}
+
+export class GetBulkProductUpdateStatusDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'getBulkProductUpdateStatus'>
+{
+  @IsString()
+  @IsNotEmpty()
+  jobId: string;
+}
+
+export class GetCancelRequestsDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'getCancelRequests'>
+{
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @Matches(DATE_FORMAT)
+  createdAtFrom: string;
+
+  @Matches(DATE_FORMAT)
+  createdAtTo: string;
+}
+
+export class AcknowledgeOrdersDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'acknowledgeOrders'>
+{
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsNumber({}, { each: true })
+  shipmentBoxIds: number[];
+}
+
+export class ApproveCancelRequestDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'approveCancelRequest'>
+{
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @IsNumber()
+  receiptId: number;
+
+  @IsNumber()
+  cancelCount: number;
+}
+
+export class GetClaimRequestsDto
+  extends GetCancelRequestsDto
+  implements PayloadOf<'coupang-queue', 'getReturnRequests'>
+{
+  @IsOptional()
+  @IsString()
+  status?: string;
+}
+
+export class ConfirmReturnReceiptDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'confirmReturnReceipt'>
+{
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @IsNumber()
+  receiptId: number;
+}
+
+export class ConfirmExchangeReceiptDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'confirmExchangeReceipt'>
+{
+  @IsString()
+  @IsNotEmpty()
+  vendorId: string;
+
+  @IsNumber()
+  exchangeId: number;
+}
+
+export class ProductRequestDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'createProduct'>
+{
+  @IsObject()
+  product: CoupangProductRequest;
+}
+
+export class PutUpdateProductDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'putUpdateProduct'>
+{
+  @IsNumber()
+  sellerProductId: number;
+
+  @IsObject()
+  changes: Partial<CoupangProductRequest>;
+}
+
+export class PutItemPriceDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'putItemPrice'>
+{
+  @IsNumber()
+  vendorItemId: number;
+
+  @IsNumber()
+  @IsPositive()
+  price: number;
+}
+
+export class PutItemQuantityDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'putItemQuantity'>
+{
+  @IsNumber()
+  vendorItemId: number;
+
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+}
+
+export class PutResumeSellingItemDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'putResumeSellingItem'>
+{
+  @IsNumber()
+  vendorItemId: number;
+}
+
+export class GetCategoryMetaDto
+  extends CronPayloadDto
+  implements PayloadOf<'coupang-queue', 'getCategoryMeta'>
+{
+  @IsNumber()
+  displayCategoryCode: number;
+}
@@ -1,15 +1,18 @@
 import { PlaywrightModule, PlaywrightService } from '@daechanjo/playwright';
-import { RabbitMQModule } from '@daechanjo/rabbitmq';
+import { RabbitMQApprovalModule, RabbitMQAuditModule, RabbitMQModule } from '@daechanjo/rabbitmq';
 import { BullModule, InjectQueue } from '@nestjs/bull';
 import { Module, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConditionalModule, ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RedisModule } from '@nestjs-modules/ioredis';
 import { Queue } from 'bull';
 
 import { CoupangMessageController } from './api/coupang.message.controller';
+import { rabbitmqConfig } from './config/rabbitmq.config';
 import { TypeormConfig } from './config/typeorm.config';
 import { CoupangApiService } from './core/coupang.api.service';
+import { CoupangHttpClient } from './core/coupang.http.client';
+import { BulkUpdateQueueProcessor } from './core/coupang.bulk.update.processor';
 import { MessageQueueProcessor } from './core/coupang.queue.processor';
 import { CoupangService } from './core/coupang.service';
 import { CoupangSignatureService } from './core/coupang.signature.service';
@@ -19,6 +22,7 @@ import { DeleteConfirmedCoupangProductProvider } from './core/crawler/provider/d
 import { InvoiceUploaderProvider } from './core/crawler/provider/invoiceUploader.provider';
 import { OrderStatusUpdateProvider } from './core/crawler/provider/orderStatusUpdate.provider';
 import { CoupangProductEntity } from './infrastructure/entities/coupangProduct.entity';
+import { CoupangProductArchiveEntity } from './infrastructure/entities/coupangProductArchive.entity';
 import { CoupangRepository } from './infrastructure/repository/coupang.repository';
 
 @Module({
@@ -28,7 +32,7 @@ import { CoupangRepository } from './infrastructure/repository/coupang.repositor
       envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
     }),
     TypeOrmModule.forRootAsync(TypeormConfig),
-    TypeOrmModule.forFeature([CoupangProductEntity]),
+    TypeOrmModule.forFeature([CoupangProductEntity, CoupangProductArchiveEntity]),
     BullModule.registerQueueAsync({
       name: 'coupang-message-queue',
       useFactory: async (configService: ConfigService) => ({
@@ -50,10 +54,30 @@ import { CoupangRepository } from './infrastructure/repository/coupang.repositor
       }),
       inject: [ConfigService],
     }),
+    BullModule.registerQueueAsync({
+      name: 'coupang-bulk-update-queue',
+      useFactory: async (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('REDIS_HOST'),
+          port: configService.get<number>('REDIS_PORT'),
+        },
+        prefix: '{bull}',
+        defaultJobOptions: {
+          // 진행 상황 / 결과 조회를 위해 최근 작업 보관
+          removeOnComplete: 50,
+          removeOnFail: 50,
+          attempts: 3,
+          backoff: 30000,
+        },
+      }),
+      inject: [ConfigService],
+    }),
     ConfigModule,
     RedisModule,
     PlaywrightModule,
-    RabbitMQModule,
+    RabbitMQModule.forRoot(rabbitmqConfig),
+    ConditionalModule.registerWhen(RabbitMQAuditModule, 'RABBITMQ_AUDIT_ENABLED'),
+    RabbitMQApprovalModule,
   ],
   controllers: [CoupangMessageController],
   providers: [
@@ -62,6 +86,8 @@ import { CoupangRepository } from './infrastructure/repository/coupang.repositor
     CoupangCrawlerService,
     CoupangRepository,
     MessageQueueProcessor,
+    BulkUpdateQueueProcessor,
+    CoupangHttpClient,
     CoupangApiService,
     OrderStatusUpdateProvider,
     InvoiceUploaderProvider,
@@ -0,0 +1,10 @@
+import { RabbitMQModuleOptions } from '@daechanjo/rabbitmq';
+
+export const rabbitmqConfig: RabbitMQModuleOptions = {
+  serviceName: 'coupang',
+  patterns: {
+    'price-queue': {
+      getUpdatedItems: { timeout: 5 * 60 * 1000, retries: 2 },
+    },
+  },
+};
@@ -1,15 +1,20 @@
 import { CoupangOrderInfo, CoupangProduct, CronType } from '@daechanjo/models';
+import {
+  CoupangCategoryMeta,
+  CoupangExchangeRequest,
+  CoupangProductRequest,
+  CoupangReturnRequest,
+} from '@daechanjo/rabbitmq';
 import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import axios, { AxiosResponse } from 'axios';
 
+import { CoupangApiResponse, CoupangHttpClient } from './coupang.http.client';
 import { CoupangSignatureService } from './coupang.signature.service';
 
 @Injectable()
 export class CoupangApiService {
   constructor(
+    private readonly httpClient: CoupangHttpClient,
     private readonly signatureService: CoupangSignatureService,
-    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -27,102 +32,49 @@ export class CoupangApiService {
    * 1. 쿠팡 판매자 API에 페이징 방식으로 상품 조회 요청
    * 2. nextToken을 사용하여 모든 페이지를 순차적으로 조회
    * 3. 각 페이지에서 받은 상품 데이터를 누적하여 저장
-   * 4. API 오류 발생 시 최대 3회까지 재시도
-   * 5. 모든 페이지 조회 완료 후 전체 상품 목록 반환
+   * 4. 모든 페이지 조회 완료 후 전체 상품 목록 반환
    *
-   * API 요청 중 오류가 발생하면 로그를 남기고 재시도하며,
-   * 최대 재시도 횟수를 초과하면 예외를 발생시킵니다.
+   * 요청 제한과 429 / 5xx 재시도는 CoupangHttpClient 가 처리하며,
+   * 재시도 후에도 실패하면 로그를 남기고 예외를 발생시킵니다.
    * 페이지 진행 상황을 10페이지마다 로그로 기록합니다.
    */
   async getProductListPaging(cronId: string, type: string): Promise<CoupangProduct[]> {
     console.log(`${type}${cronId}: 쿠팡 전체상품 조회...`);
     const apiPath = '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products';
+    const vendorId = await this.signatureService.getVendorId();
 
     let nextToken = '';
     let pageCount = 0;
     const allProducts: CoupangProduct[] = [];
-    const maxRetries = 3; // 최대 재시도 횟수
 
     try {
-      while (true) {
-        let retryCount = 0;
-
-        while (retryCount < maxRetries) {
-          try {
-            const { authorization, datetime } = await this.signatureService.createHmacSignature(
-              'GET',
-              apiPath,
-              nextToken,
-              true,
-            );
-
-            await new Promise((resolve) => setTimeout(resolve, 1000));
-
-            const response = await axios.get(`https://api-gateway.coupang.com${apiPath}`, {
-              headers: {
-                Authorization: authorization,
-                'Content-Type': 'application/json;charset=UTF-8',
-                'X-EXTENDED-TIMEOUT': '90000',
-                'X-Coupang-Date': datetime,
-              },
-              params: {
-                vendorId: this.configService.get<string>('COUPANG_VENDOR_ID'),
-                nextToken: nextToken,
-                maxPerPage: 100,
-                status: 'APPROVED',
-              },
-            });
-
-            const { data } = response.data;
-            allProducts.push(...data);
-
-            nextToken = response.data.nextToken;
-            pageCount++;
-
-            if (pageCount % 10 === 0)
-              console.log(
-                `${type}${cronId}: 진행중 - 현재 페이지 ${pageCount}, ${allProducts.length} 수집됨`,
-              );
-
-            if (!nextToken) {
-              // nextToken이 없으면 마지막 페이지이므로 종료
-              break;
-            }
-
-            // 성공 시 재시도 루프 종료
-            break;
-          } catch (error: any) {
-            retryCount++;
-            console.error(
-              `${CronType.ERROR}${type}${cronId}: API 요청 오류, 재시도 ${retryCount}/${maxRetries}\n`,
-              error.response?.data || error.message,
-            );
-
-            // 재시도 횟수 초과 시 throw
-            if (retryCount >= maxRetries) {
-              throw new Error(
-                `${CronType.ERROR}${type}${cronId}: 최대 재시도 횟수를 초과하여 요청 실패 (nextToken: ${nextToken || '없음'})`,
-              );
-            }
-
-            // 짧은 대기 후 재시도
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-          }
-        }
+      do {
+        const response = await this.httpClient.get<CoupangProduct[]>(apiPath, {
+          vendorId,
+          nextToken,
+          maxPerPage: 100,
+          status: 'APPROVED',
+        });
 
-        // 다음 페이지로 이동
-        if (!nextToken) break;
-      }
+        allProducts.push(...response.data);
+        nextToken = response.nextToken;
+        pageCount++;
+
+        if (pageCount % 10 === 0)
+          console.log(
+            `${type}${cronId}: 진행중 - 현재 페이지 ${pageCount}, ${allProducts.length} 수집됨`,
+          );
+      } while (nextToken);
 
       console.log(`${type}${cronId}: 쿠팡 전체상품 조회 완료 - ${allProducts.length}개`);
 
       return allProducts;
     } catch (error: any) {
       console.error(
-        `${CronType.ERROR}${type}${cronId}: API 요청 중단\n`,
-        error.response?.data || error.message,
+        `${CronType.ERROR}${type}${cronId}: API 요청 중단 (nextToken: ${nextToken || '없음'})\n`,
+        error.message,
       );
-      throw new Error('쿠팡 API 요청 실패');
+      throw error;
     }
   }
 
@@ -140,10 +92,8 @@ export class CoupangApiService {
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
    * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 상품 상세 정보 요청
-   * 5. 응답에서 data 필드 추출하여 반환
+   * 2. CoupangHttpClient 로 서명된 상품 상세 정보 요청
+   * 3. 응답에서 data 필드 추출하여 반환
    *
    * API 요청 중 오류가 발생하면 로그를 남기고 예외를 발생시킵니다.
    */
@@ -154,31 +104,17 @@ export class CoupangApiService {
   ): Promise<CoupangProduct> {
     const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${sellerProductId}`;
 
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'GET',
-      apiPath,
-      '',
-      false,
-    );
-
     try {
-      const response = await axios.get(`https://api-gateway.coupang.com${apiPath}`, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-EXTENDED-TIMEOUT': '90000',
-          'X-Coupang-Date': datetime,
-        },
-      });
+      const response = await this.httpClient.get<CoupangProduct>(apiPath);
 
-      console.log(JSON.stringify(response.data.data, null, 2));
-      return response.data.data;
+      console.log(JSON.stringify(response.data, null, 2));
+      return response.data;
     } catch (error: any) {
       console.error(
         `${CronType.ERROR}${type}${cronId}: 상품 상세 조회 오류 ${sellerProductId}\n`,
-        error.response?.data || error.message,
+        error.message,
       );
-      throw new Error('쿠팡 상품 상세 조회 실패');
+      throw error;
     }
   }
 
@@ -217,54 +153,26 @@ export class CoupangApiService {
     const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/ordersheets`;
 
     let nextToken = '';
-    const allProducts = [];
+    const allProducts: CoupangOrderInfo[] = [];
     try {
-      while (true) {
-        const { authorization, datetime } = await this.signatureService.createParamHmacSignature(
-          'GET',
-          apiPath,
-          {
-            vendorId,
-            createdAtFrom: yesterday,
-            createdAtTo: today,
-            status: status,
-            nextToken: nextToken,
-            maxPerPage: 50,
-          },
-        );
-
-        const response = await axios.get(`https://api-gateway.coupang.com${apiPath}`, {
-          headers: {
-            Authorization: authorization,
-            'Content-Type': 'application/json;charset=UTF-8',
-            'X-EXTENDED-TIMEOUT': '90000',
-            'X-Coupang-Date': datetime,
-          },
-          params: {
-            vendorId: this.configService.get<string>('COUPANG_VENDOR_ID'),
-            createdAtFrom: yesterday,
-            createdAtTo: today,
-            status: status,
-            nextToken: nextToken,
-            maxPerPage: 50,
-          },
+      do {
+        const response = await this.httpClient.get<CoupangOrderInfo[]>(apiPath, {
+          vendorId,
+          createdAtFrom: yesterday,
+          createdAtTo: today,
+          status: status,
+          nextToken: nextToken,
+          maxPerPage: 50,
         });
 
-        const { data } = response.data;
-        allProducts.push(...data);
-
-        nextToken = response.data.nextToken;
-        if (!nextToken) break;
-      }
+        allProducts.push(...response.data);
+        nextToken = response.nextToken;
+      } while (nextToken);
 
       return allProducts;
     } catch (error: any) {
-      console.error(
-        `${CronType.ERROR}${type}${cronId}: API 요청 오류\n`,
-        error.response?.data || error.message,
-      );
-
-      throw new Error('쿠팡 API 요청 실패');
+      console.error(`${CronType.ERROR}${type}${cronId}: API 요청 오류\n`, error.message);
+      throw error;
     }
   }
 
@@ -280,9 +188,7 @@ export class CoupangApiService {
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
    * 1. 상품 항목 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. PUT 메서드를 위한 HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 판매 중지 요청 실행
+   * 2. CoupangHttpClient 로 서명된 판매 중지 요청 실행
    *
    * API 요청 중 오류가 발생하면 로그를 남기지만 예외를 발생시키지 않고 계속 진행합니다.
    * 이는 일부 상품 판매 중지 실패가 전체 프로세스를 중단시키지 않도록 하기 위함입니다.
@@ -290,26 +196,12 @@ export class CoupangApiService {
   async putStopSellingItem(cronId: string, type: string, vendorItemId: number): Promise<void> {
     const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/sales/stop`;
 
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'PUT',
-      apiPath,
-      '',
-      false,
-    );
-
     try {
-      await axios.put(`https://api-gateway.coupang.com${apiPath}`, null, {
-        headers: {
-          Authorization: authorization,
-          'Content-Type': 'application/json;charset=UTF-8',
-          'X-EXTENDED-TIMEOUT': '90000',
-          'X-Coupang-Date': datetime,
-        },
-      });
+      await this.httpClient.put(apiPath);
     } catch (error: any) {
       console.error(
         `${CronType.ERROR}${type}${cronId}: 아이템 판매 중지 실패 ${vendorItemId}\n`,
-        error.response?.data || error.message,
+        error.message,
       );
     }
   }
@@ -319,73 +211,452 @@ export class CoupangApiService {
    *
    * @param product - 삭제할 상품 객체 (sellerProductId를 포함해야 함)
    *
-   * @returns {Promise<AxiosResponse>} - API 응답을 포함하는 Promise
+   * @returns {Promise<CoupangApiResponse<number>>} - API 응답 본문을 포함하는 Promise
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
    * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성
-   * 2. DELETE 메서드를 위한 HMAC 서명 생성
-   * 3. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 4. 쿠팡 API를 통해 상품 삭제 요청 실행
-   * 5. 요청의 응답을 그대로 반환
+   * 2. CoupangHttpClient 로 서명된 상품 삭제 요청 실행
+   * 3. 요청의 응답 본문을 그대로 반환
    *
    * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
    * 따라서 호출자는 API 응답을 처리하거나 오류를 적절히 처리해야 합니다.
    */
-  async deleteProduct(product: any): Promise<AxiosResponse> {
+  async deleteProduct(product: any): Promise<CoupangApiResponse<number>> {
     const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${product.sellerProductId}`;
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'DELETE',
-      apiPath,
-      '',
-      false,
-    );
-
-    return axios.delete(`https://api-gateway.coupang.com${apiPath}`, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-EXTENDED-TIMEOUT': '90000',
-        'X-Coupang-Date': datetime,
-      },
-    });
+
+    return this.httpClient.delete<number>(apiPath);
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 상품을 등록하는 메서드
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param product - 등록할 상품 (옵션, 이미지, 고시정보 포함)
+   *
+   * @returns {Promise<number>} - 등록된 판매자 상품 ID (sellerProductId)
+   *
+   * @throws {CoupangValidationError} - 필수 항목 누락 등으로 쿠팡이 등록을 거부한 경우
+   *
+   * @description
+   * 이 메서드는 다음 단계로 진행됩니다:
+   * 1. vendorId 가 없으면 스토어의 판매자 ID 로 채움
+   * 2. CoupangHttpClient 로 서명된 상품 생성 요청 실행 (중복 등록을 막기 위해 429 외에는 재시도하지 않음)
+   * 3. 응답의 sellerProductId 반환
+   *
+   * requested 가 true 면 저장과 동시에 승인 요청되며, 승인 결과는 상품 상세 조회의 statusName 으로 확인합니다.
+   * 카테고리별 필수 옵션 / 고시정보는 getCategoryMeta 로 먼저 확인하세요.
+   */
+  async createProduct(
+    cronId: string,
+    type: string,
+    product: CoupangProductRequest,
+  ): Promise<number> {
+    const apiPath = '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products';
+    const vendorId = product.vendorId ?? (await this.signatureService.getVendorId());
+
+    try {
+      const response = await this.httpClient.post<number>(apiPath, { ...product, vendorId });
+
+      console.log(
+        `${type}${cronId}: 쿠팡 상품 등록 완료 - ${response.data} ${product.sellerProductName}`,
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: 쿠팡 상품 등록 실패 ${product.sellerProductName}\n`,
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 상품 전체 정보를 수정하는 메서드
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param product - 수정할 상품 전체 정보 (sellerProductId 필수)
+   *
+   * @returns {Promise<number>} - 수정된 판매자 상품 ID
+   *
+   * @description
+   * 전체 수정은 요청 본문에 없는 옵션을 삭제하므로, getProductDetail 로 조회한 상품을
+   * 변경하여 전달해야 합니다. 기존 옵션은 sellerProductItemId / vendorItemId 를 유지해야 합니다.
+   * 가격 / 재고 / 판매 상태만 변경할 때는 putItemPrice, putItemQuantity, putResumeSellingItem 을 사용하세요.
+   */
+  async updateProduct(
+    cronId: string,
+    type: string,
+    product: CoupangProductRequest,
+  ): Promise<number> {
+    if (!product.sellerProductId) {
+      throw new Error('상품 수정에는 sellerProductId 가 필요합니다.');
+    }
+
+    const apiPath = '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products';
+    const vendorId = product.vendorId ?? (await this.signatureService.getVendorId());
+
+    try {
+      const response = await this.httpClient.put<number>(apiPath, { ...product, vendorId });
+
+      console.log(`${type}${cronId}: 쿠팡 상품 수정 완료 - ${product.sellerProductId}`);
+      return response.data;
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: 쿠팡 상품 수정 실패 ${product.sellerProductId}\n`,
+        error.message,
+      );
+      throw error;
+    }
   }
 
   /**
    * 쿠팡 판매자 API를 통해 상품 정보를 부분 업데이트하는 메서드
    *
-   * @param product - 업데이트할 상품 객체 (sellerProductId를 포함해야 함)
+   * @param sellerProductId - 업데이트할 판매자 상품 ID
+   * @param changes - 변경할 상품 필드 (배송비, 반품비 등 옵션 외 항목)
    *
    * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
    * 1. 상품 ID를 기반으로 쿠팡 API 경로 구성 (부분 업데이트용 경로 사용)
-   * 2. 업데이트할 데이터 (sellerProductId와 반품 비용)를 포함하는 요청 본문 구성
-   * 3. PUT 메서드를 위한 HMAC 서명 생성
-   * 4. API 요청 헤더에 인증 정보와 타임스탬프 추가
-   * 5. 쿠팡 API를 통해 상품 부분 업데이트 요청 실행
+   * 2. sellerProductId 와 변경할 필드로 요청 본문 구성
+   * 3. CoupangHttpClient 로 서명된 상품 부분 업데이트 요청 실행
+   *
+   * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async putUpdateProduct(
+    sellerProductId: number,
+    changes: Partial<CoupangProductRequest>,
+  ): Promise<void> {
+    const updatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${sellerProductId}/partial`;
+    const body = { ...changes, sellerProductId };
+
+    await this.httpClient.put(updatePath, body);
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 옵션의 판매가를 변경하는 메서드
+   *
+   * @param vendorItemId - 가격을 변경할 옵션 ID
+   * @param price - 새 판매가 (10원 단위)
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
    *
-   * 현재 구현에서는 반품 비용(returnCharge)을 5000원으로 고정하여 업데이트합니다.
+   * @description
    * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
    */
-  async putUpdateProduct(product: any): Promise<void> {
-    const updatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/seller-products/${product.sellerProductId}/partial`;
-    const body = { sellerProductId: product.sellerProductId, returnCharge: 5000 };
-
-    const { authorization, datetime } = await this.signatureService.createHmacSignature(
-      'PUT',
-      updatePath,
-      '',
-      false,
-    );
-
-    await axios.put(`https://api-gateway.coupang.com${updatePath}`, body, {
-      headers: {
-        Authorization: authorization,
-        'Content-Type': 'application/json;charset=UTF-8',
-        'X-Coupang-Date': datetime,
-      },
+  async putItemPrice(vendorItemId: number, price: number): Promise<void> {
+    const priceUpdatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/prices/${price}`;
+
+    await this.httpClient.put(priceUpdatePath);
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 발주서를 상품준비중으로 변경 (발주 확인)
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param vendorId - 판매자 ID
+   * @param shipmentBoxIds - 상품준비중으로 변경할 배송번호 목록
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * 윙 화면에서 결제완료 주문을 모두 선택하는 orderStatusUpdate 와 달리 지정한 배송번호만 처리하므로,
+   * 발주 직전에 취소 요청된 주문이 상품준비중으로 넘어가지 않습니다.
+   * 요청당 최대 50건까지 처리할 수 있어 나누어 전송하며, 배송번호별 실패는 로그로 남깁니다.
+   */
+  async acknowledgeOrders(
+    cronId: string,
+    type: string,
+    vendorId: string,
+    shipmentBoxIds: number[],
+  ): Promise<void> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/ordersheets/acknowledgement`;
+
+    for (let i = 0; i < shipmentBoxIds.length; i += 50) {
+      const response = await this.httpClient.request<{
+        responseList?: { shipmentBoxId: number; succeed: boolean; resultMessage?: string }[];
+      }>({
+        method: 'PATCH',
+        path: apiPath,
+        body: { vendorId, shipmentBoxIds: shipmentBoxIds.slice(i, i + 50) },
+      });
+
+      for (const result of response.data?.responseList ?? []) {
+        if (!result.succeed) {
+          console.error(
+            `${CronType.ERROR}${type}${cronId}: 상품준비중 처리 실패 ${result.shipmentBoxId} - ${result.resultMessage}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 주문 취소(출고중지) 요청 목록 조회
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param vendorId - 판매자 ID
+   * @param createdAtFrom - 조회 시작일 (YYYY-MM-DD 형식)
+   * @param createdAtTo - 조회 종료일 (YYYY-MM-DD 형식)
+   *
+   * @returns {Promise<CoupangReturnRequest[]>} - receiptType 이 CANCEL 인 접수 목록
+   *
+   * @description
+   * 취소 요청은 반품 요청과 같은 returnRequests API 를 cancelType=CANCEL 로 조회합니다.
+   * 발주 전에 이 목록의 배송번호 / 옵션 ID 와 발주서를 비교하여 이미 취소된 상품의 발주를 막는 데 사용합니다.
+   */
+  async getCancelRequests(
+    cronId: string,
+    type: string,
+    vendorId: string,
+    createdAtFrom: string,
+    createdAtTo: string,
+  ): Promise<CoupangReturnRequest[]> {
+    return this.getReturnRequestsPaging(cronId, type, vendorId, {
+      createdAtFrom,
+      createdAtTo,
+      cancelType: 'CANCEL',
     });
   }
+
+  /**
+   * 쿠팡 오픈 API를 통해 취소(출고중지) 요청을 승인
+   *
+   * @param vendorId - 판매자 ID
+   * @param receiptId - 취소 접수 ID
+   * @param cancelCount - 출고중지할 수량 (접수의 cancelCountSum)
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * 상품준비중 상태에서 접수된 출고중지요청을 출고중지 완료로 처리합니다.
+   * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async approveCancelRequest(
+    vendorId: string,
+    receiptId: number,
+    cancelCount: number,
+  ): Promise<void> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/returnRequests/${receiptId}/stoppedShipment`;
+
+    // 중복 승인되지 않도록 429 외에는 재시도하지 않음
+    await this.httpClient.request({
+      method: 'PUT',
+      path: apiPath,
+      body: { vendorId, receiptId, cancelCount },
+      idempotent: false,
+    });
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 반품 요청 목록 조회
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param vendorId - 판매자 ID
+   * @param createdAtFrom - 조회 시작일 (YYYY-MM-DD 형식)
+   * @param createdAtTo - 조회 종료일 (YYYY-MM-DD 형식)
+   * @param status - 반품 상태 (RU: 출고중지요청, UC: 반품접수, CC: 반품완료, PR: 쿠팡확인요청, 생략 시 전체)
+   *
+   * @returns {Promise<CoupangReturnRequest[]>} - receiptType 이 RETURN 인 접수 목록
+   */
+  async getReturnRequests(
+    cronId: string,
+    type: string,
+    vendorId: string,
+    createdAtFrom: string,
+    createdAtTo: string,
+    status?: string,
+  ): Promise<CoupangReturnRequest[]> {
+    return this.getReturnRequestsPaging(cronId, type, vendorId, {
+      createdAtFrom,
+      createdAtTo,
+      cancelType: 'RETURN',
+      ...(status ? { status } : {}),
+    });
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 반품 상품 입고를 확인
+   *
+   * @param vendorId - 판매자 ID
+   * @param receiptId - 반품 접수 ID
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * 회수된 반품 상품을 입고 확인 처리합니다. 이후 쿠팡에서 반품 승인을 진행할 수 있습니다.
+   * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async confirmReturnReceipt(vendorId: string, receiptId: number): Promise<void> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/returnRequests/${receiptId}/receiveConfirmation`;
+
+    await this.httpClient.request({
+      method: 'PUT',
+      path: apiPath,
+      body: { vendorId, receiptId },
+      idempotent: false,
+    });
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 교환 요청 목록 조회
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param vendorId - 판매자 ID
+   * @param createdAtFrom - 조회 시작일 (YYYY-MM-DD 형식)
+   * @param createdAtTo - 조회 종료일 (YYYY-MM-DD 형식)
+   * @param status - 교환 상태 (RECEIPT, PROGRESS, SUCCESS, REJECT, CANCEL, 생략 시 전체)
+   *
+   * @returns {Promise<CoupangExchangeRequest[]>} - 교환 접수 목록
+   *
+   * @description
+   * 교환 API 는 조회 기간을 일시(yyyy-MM-ddTHH:mm:ss)로 받으므로
+   * 시작일 00:00:00 부터 종료일 23:59:59 까지로 변환하여 조회합니다.
+   */
+  async getExchangeRequests(
+    cronId: string,
+    type: string,
+    vendorId: string,
+    createdAtFrom: string,
+    createdAtTo: string,
+    status?: string,
+  ): Promise<CoupangExchangeRequest[]> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/exchangeRequests`;
+
+    let nextToken = '';
+    const allRequests: CoupangExchangeRequest[] = [];
+    try {
+      do {
+        const response = await this.httpClient.get<CoupangExchangeRequest[]>(apiPath, {
+          createdAtFrom: `${createdAtFrom}T00:00:00`,
+          createdAtTo: `${createdAtTo}T23:59:59`,
+          ...(status ? { status } : {}),
+          nextToken,
+          maxPerPage: 50,
+        });
+
+        allRequests.push(...response.data);
+        nextToken = response.nextToken ?? '';
+      } while (nextToken);
+
+      return allRequests;
+    } catch (error: any) {
+      console.error(`${CronType.ERROR}${type}${cronId}: 교환 요청 조회 오류\n`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * 쿠팡 오픈 API를 통해 교환 회수 상품 입고를 확인
+   *
+   * @param vendorId - 판매자 ID
+   * @param exchangeId - 교환 접수 ID
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async confirmExchangeReceipt(vendorId: string, exchangeId: number): Promise<void> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/exchangeRequests/${exchangeId}/receiveConfirmation`;
+
+    await this.httpClient.request({
+      method: 'PUT',
+      path: apiPath,
+      body: { exchangeId, vendorId },
+      idempotent: false,
+    });
+  }
+
+  // returnRequests API 페이징 조회 (cancelType 으로 취소 / 반품 구분)
+  private async getReturnRequestsPaging(
+    cronId: string,
+    type: string,
+    vendorId: string,
+    query: Record<string, string>,
+  ): Promise<CoupangReturnRequest[]> {
+    const apiPath = `/v2/providers/openapi/apis/api/v4/vendors/${vendorId}/returnRequests`;
+
+    let nextToken = '';
+    const allRequests: CoupangReturnRequest[] = [];
+    try {
+      do {
+        const response = await this.httpClient.get<CoupangReturnRequest[]>(apiPath, {
+          ...query,
+          nextToken,
+          maxPerPage: 50,
+        });
+
+        allRequests.push(...response.data);
+        nextToken = response.nextToken ?? '';
+      } while (nextToken);
+
+      return allRequests;
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: ${query.cancelType} 요청 조회 오류\n`,
+        error.message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 옵션의 재고 수량을 변경하는 메서드
+   *
+   * @param vendorItemId - 재고를 변경할 옵션 ID
+   * @param quantity - 새 재고 수량
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * 이 메서드는 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async putItemQuantity(vendorItemId: number, quantity: number): Promise<void> {
+    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/quantities/${quantity}`;
+
+    await this.httpClient.put(apiPath);
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 판매 중지된 옵션의 판매를 재개하는 메서드
+   *
+   * @param vendorItemId - 판매를 재개할 옵션 ID
+   *
+   * @returns {Promise<void>} - 작업 완료 후 반환되는 Promise
+   *
+   * @description
+   * putStopSellingItem 과 달리 오류를 캐치하지 않고 호출자에게 전달합니다.
+   */
+  async putResumeSellingItem(vendorItemId: number): Promise<void> {
+    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/sales/resume`;
+
+    await this.httpClient.put(apiPath);
+  }
+
+  /**
+   * 쿠팡 판매자 API를 통해 카테고리 메타 정보를 조회하는 메서드
+   *
+   * @param displayCategoryCode - 노출 카테고리 코드
+   *
+   * @returns {Promise<CoupangCategoryMeta>} - 카테고리의 옵션 / 상품고시정보 / 구비서류 / 인증정보
+   *
+   * @description
+   * 상품 등록 전에 카테고리별 필수 옵션(attributes)과 고시정보(noticeCategories)를 확인하는 데 사용합니다.
+   */
+  async getCategoryMeta(displayCategoryCode: number): Promise<CoupangCategoryMeta> {
+    const apiPath = `/v2/providers/seller_api/apis/api/v1/marketplace/meta/category-related-metas/display-category-codes/${displayCategoryCode}`;
+
+    const response = await this.httpClient.get<CoupangCategoryMeta>(apiPath);
+    return response.data;
+  }
 }
@@ -0,0 +1,33 @@
+import { CronType } from '@daechanjo/models';
+import { Process, Processor } from '@nestjs/bull';
+import { Injectable } from '@nestjs/common';
+import { Job } from 'bull';
+
+import { BulkProductUpdateJobData, CoupangService } from './coupang.service';
+
+/**
+ * 상품 일괄 수정 작업 프로세서
+ *
+ * coupang-message-queue 와 달리 서비스 시작 시 대기열을 비우지 않으므로,
+ * 재시작 / 재시도된 작업은 job 데이터에 저장된 결과 이후부터 이어서 처리됩니다.
+ * 실패한 상품이 남으면 작업을 실패로 돌려 Bull 재시도(attempts)에서 해당 상품만 다시 수정합니다.
+ */
+@Processor('coupang-bulk-update-queue')
+@Injectable()
+export class BulkUpdateQueueProcessor {
+  constructor(private readonly coupangService: CoupangService) {}
+
+  @Process('bulk-update')
+  async processBulkUpdate(job: Job<BulkProductUpdateJobData>) {
+    const { cronId, type } = job.data;
+
+    console.log(`${type}${cronId}: 🔥bulk-update ${job.id} (시도 ${job.attemptsMade + 1})`);
+
+    try {
+      return await this.coupangService.processBulkProductUpdate(job);
+    } catch (error: any) {
+      console.error(`${CronType.ERROR}${type}${cronId}: 🔥bulk-update ${job.id}\n`, error.message);
+      throw error;
+    }
+  }
+}
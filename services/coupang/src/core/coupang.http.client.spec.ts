@@ -0,0 +1,85 @@
+import axios from 'axios';
+
+import { CoupangApiError, CoupangHttpClient, CoupangThrottledError } from './coupang.http.client';
+
+jest.mock('axios');
+
+describe('CoupangHttpClient', () => {
+  const request = axios.request as jest.Mock;
+
+  const networkError = Object.assign(new Error('timeout of 90000ms exceeded'), {
+    code: 'ECONNABORTED',
+  });
+  const httpError = (status: number) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), {
+      response: { status, headers: {}, data: { message: `status ${status}` } },
+    });
+
+  let client: CoupangHttpClient;
+
+  beforeEach(() => {
+    request.mockReset();
+
+    const env: Record<string, string> = {
+      COUPANG_API_MAX_RETRIES: '2',
+      COUPANG_API_RETRY_DELAY_MS: '1',
+      COUPANG_API_RATE_LIMIT: '1000',
+    };
+    const configService = { get: jest.fn((key: string) => env[key]) };
+    const signatureService = {
+      sign: jest.fn().mockResolvedValue({ authorization: 'CEA test', datetime: '250101T000000Z' }),
+      getVendorId: jest.fn().mockResolvedValue('A00000000'),
+    };
+
+    client = new CoupangHttpClient(configService as any, signatureService as any);
+  });
+
+  it('GET 은 네트워크 오류 / 5xx 를 재시도한다', async () => {
+    request
+      .mockRejectedValueOnce(networkError)
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ data: { code: 'SUCCESS', message: '', data: 1 } });
+
+    const response = await client.get<number>('/v2/test');
+
+    expect(response.data).toBe(1);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('POST 는 시간 초과 / 5xx 를 재시도하지 않는다', async () => {
+    request.mockRejectedValueOnce(networkError);
+    await expect(client.post('/v2/test', {})).rejects.toBeInstanceOf(CoupangApiError);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    request.mockReset();
+    request.mockRejectedValueOnce(httpError(500));
+    await expect(client.post('/v2/test', {})).rejects.toBeInstanceOf(CoupangApiError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('POST 도 429 는 재시도한다', async () => {
+    request
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce({ data: { code: 'SUCCESS', message: '', data: 1 } });
+
+    await client.post('/v2/test', {});
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('멱등하지 않은 PUT 은 5xx 를 재시도하지 않는다', async () => {
+    request.mockRejectedValueOnce(httpError(502));
+
+    await expect(
+      client.request({ method: 'PUT', path: '/v2/test', idempotent: false }),
+    ).rejects.toBeInstanceOf(CoupangApiError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('429 가 계속되면 재시도 후 CoupangThrottledError 를 던진다', async () => {
+    request.mockRejectedValue(httpError(429));
+
+    await expect(client.get('/v2/test')).rejects.toBeInstanceOf(CoupangThrottledError);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,277 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosError } from 'axios';
+
+import { CoupangSignatureService, toCanonicalQuery } from './coupang.signature.service';
+
+export type CoupangHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type CoupangQuery = Record<string, string | number | boolean>;
+
+// 응답을 받지 못해도 같은 요청을 다시 보내도 되는 메서드
+// (DELETE 는 이미 처리된 요청을 다시 보내면 404 로 실패하므로 제외)
+const IDEMPOTENT_METHODS: CoupangHttpMethod[] = ['GET', 'PUT'];
+
+export interface CoupangRequestOptions {
+  method: CoupangHttpMethod;
+  /** 쿼리를 제외한 API 경로 */
+  path: string;
+  /** 쿼리 파라미터 (작성한 순서대로 서명 및 전송) */
+  query?: CoupangQuery;
+  body?: unknown;
+  /** 사용할 스토어 (생략 시 STORE 환경 변수의 스토어) */
+  store?: string;
+  /** 재시도 횟수 (생략 시 COUPANG_API_MAX_RETRIES) */
+  retries?: number;
+  /**
+   * 같은 요청을 다시 보내도 결과가 같은지 여부 (생략 시 GET / PUT 만 true)
+   * false 면 쿠팡이 처리했는지 알 수 없는 네트워크 오류 / 시간 초과 / 5xx 는 재시도하지 않고 429 만 재시도
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * 쿠팡 Open API 공통 응답 본문
+ */
+export interface CoupangApiResponse<T> {
+  code: string | number;
+  message: string;
+  data: T;
+  nextToken?: string;
+}
+
+/**
+ * 쿠팡 Open API 요청 실패
+ * 응답 상태 코드에 따라 아래 하위 클래스로 구분되며, 응답 본문은 details 에 보관합니다.
+ */
+export class CoupangApiError extends Error {
+  readonly code: string = 'API_ERROR';
+
+  constructor(
+    readonly method: string,
+    readonly path: string,
+    readonly status: number | undefined,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(`쿠팡 API ${method} ${path} 실패${status ? ` (${status})` : ''}: ${message}`);
+    this.name = 'CoupangApiError';
+  }
+}
+
+/**
+ * 인증 실패 (401, 403) - 키 또는 서명 오류, 재시도하지 않음
+ */
+export class CoupangAuthError extends CoupangApiError {
+  readonly code = 'AUTH_ERROR';
+  name = 'CoupangAuthError';
+}
+
+/**
+ * 대상 리소스 없음 (404)
+ */
+export class CoupangNotFoundError extends CoupangApiError {
+  readonly code = 'NOT_FOUND';
+  name = 'CoupangNotFoundError';
+}
+
+/**
+ * 요청 값 검증 실패 (400, 422)
+ */
+export class CoupangValidationError extends CoupangApiError {
+  readonly code = 'VALIDATION_ERROR';
+  name = 'CoupangValidationError';
+}
+
+/**
+ * 요청 한도 초과 (429) - 재시도 횟수를 모두 사용한 경우
+ */
+export class CoupangThrottledError extends CoupangApiError {
+  readonly code = 'THROTTLED';
+  name = 'CoupangThrottledError';
+}
+
+/**
+ * 초당 요청 수를 제한하는 토큰 버킷
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  // 대기 순서를 보장하기 위해 acquire 를 직렬화
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  acquire(): Promise<void> {
+    const next = this.queue.then(() => this.take());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      const wait = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * 쿠팡 Open API 서명 요청 클라이언트
+ *
+ * 모든 쿠팡 Open API 호출은 이 클라이언트를 통해 전송합니다.
+ * - 요청마다 CEA HMAC 서명과 공통 헤더 생성 (서명한 쿼리 문자열을 그대로 전송)
+ * - 판매자(vendorId)별 토큰 버킷으로 초당 요청 수 제한 (COUPANG_API_RATE_LIMIT, 기본값 초당 5회)
+ * - 429 / 5xx / 네트워크 오류는 지수 백오프로 재시도 (COUPANG_API_MAX_RETRIES, 기본값 3회)
+ *   단, 상품 생성 / 취소 승인 등 멱등하지 않은 요청은 중복 처리를 막기 위해 429 만 재시도
+ * - 실패 시 상태 코드별 오류 타입(CoupangAuthError 등)으로 변환
+ */
+@Injectable()
+export class CoupangHttpClient {
+  // 쿠팡 Open API 주소 (로컬 목 서버 등으로 교체할 때 COUPANG_API_BASE_URL 설정)
+  readonly baseUrl: string;
+
+  private readonly ratePerSecond: number;
+  private readonly burst: number;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly signatureService: CoupangSignatureService,
+  ) {
+    this.baseUrl = (
+      this.configService.get<string>('COUPANG_API_BASE_URL') || 'https://api-gateway.coupang.com'
+    ).replace(/\/+$/, '');
+    this.ratePerSecond = Number(this.configService.get('COUPANG_API_RATE_LIMIT') ?? 5);
+    this.burst = Number(this.configService.get('COUPANG_API_BURST') ?? this.ratePerSecond);
+    this.maxRetries = Number(this.configService.get('COUPANG_API_MAX_RETRIES') ?? 3);
+    this.retryDelay = Number(this.configService.get('COUPANG_API_RETRY_DELAY_MS') ?? 1000);
+    this.timeout = Number(this.configService.get('COUPANG_API_TIMEOUT_MS') ?? 90000);
+  }
+
+  async get<T>(path: string, query?: CoupangQuery, store?: string): Promise<CoupangApiResponse<T>> {
+    return this.request<T>({ method: 'GET', path, query, store });
+  }
+
+  async post<T>(path: string, body?: unknown, store?: string): Promise<CoupangApiResponse<T>> {
+    return this.request<T>({ method: 'POST', path, body, store });
+  }
+
+  async put<T>(path: string, body?: unknown, store?: string): Promise<CoupangApiResponse<T>> {
+    return this.request<T>({ method: 'PUT', path, body, store });
+  }
+
+  async delete<T>(path: string, store?: string): Promise<CoupangApiResponse<T>> {
+    return this.request<T>({ method: 'DELETE', path, store });
+  }
+
+  /**
+   * 서명된 쿠팡 Open API 요청을 전송합니다.
+   *
+   * @param options - 메서드, 경로, 쿼리, 본문, 스토어, 재시도 횟수, 멱등 여부
+   * @returns 쿠팡 응답 본문
+   * @throws 재시도 후에도 실패하면 CoupangApiError 또는 하위 오류 타입
+   *
+   * @description
+   * 1. 판매자별 토큰 버킷에서 요청 슬롯 획득
+   * 2. 전송할 경로 + 쿼리 문자열 그대로 HMAC 서명을 생성 (재시도마다 서명 일시를 새로 생성)
+   * 3. 요청 전송
+   * 4. 429 / 5xx / 네트워크 오류면 Retry-After 또는 지수 백오프만큼 대기 후 재시도
+   *    (멱등하지 않은 요청은 쿠팡이 처리하지 않은 것이 확실한 429 만 재시도)
+   * 5. 그 외 오류 또는 재시도 초과 시 상태 코드별 오류 타입으로 변환하여 throw
+   */
+  async request<T>(options: CoupangRequestOptions): Promise<CoupangApiResponse<T>> {
+    const { method, path, query = {}, body, store } = options;
+    const retries = options.retries ?? this.maxRetries;
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    const queryString = toCanonicalQuery(query);
+    const url = `${path}${queryString ? `?${queryString}` : ''}`;
+    const bucket = await this.getBucket(store);
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.acquire();
+
+      const { authorization, datetime } = await this.signatureService.sign(method, url, store);
+
+      try {
+        const response = await axios.request<CoupangApiResponse<T>>({
+          method,
+          url: `${this.baseUrl}${url}`,
+          data: body,
+          timeout: this.timeout,
+          headers: {
+            Authorization: authorization,
+            'Content-Type': 'application/json;charset=UTF-8',
+            'X-EXTENDED-TIMEOUT': String(this.timeout),
+            'X-Coupang-Date': datetime,
+          },
+        });
+        return response.data;
+      } catch (error) {
+        const status = (error as AxiosError).response?.status;
+        const retryable = status === 429 || (idempotent && (status === undefined || status >= 500));
+
+        if (retryable && attempt < retries) {
+          const delay = this.getRetryDelay(error as AxiosError, attempt);
+          console.warn(
+            `쿠팡 API ${method} ${path} 재시도 ${attempt + 1}/${retries} (${delay}ms 후): ${status ?? (error as Error).message}`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+
+        throw this.toApiError(method, path, error);
+      }
+    }
+  }
+
+  private async getBucket(store?: string): Promise<TokenBucket> {
+    const vendorId = await this.signatureService.getVendorId(store);
+    let bucket = this.buckets.get(vendorId);
+    if (!bucket) {
+      bucket = new TokenBucket(this.ratePerSecond, this.burst);
+      this.buckets.set(vendorId, bucket);
+    }
+    return bucket;
+  }
+
+  // Retry-After(초) 가 있으면 우선 사용, 없으면 지수 백오프
+  private getRetryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) return retryAfter * 1000;
+    return this.retryDelay * 2 ** attempt;
+  }
+
+  private toApiError(method: string, path: string, error: unknown): CoupangApiError {
+    const response = (error as AxiosError<{ message?: string }>).response;
+    const status = response?.status;
+    const message = response?.data?.message || (error as Error).message;
+    const args = [method, path, status, message, response?.data] as const;
+
+    if (status === 401 || status === 403) return new CoupangAuthError(...args);
+    if (status === 404) return new CoupangNotFoundError(...args);
+    if (status === 400 || status === 422) return new CoupangValidationError(...args);
+    if (status === 429) return new CoupangThrottledError(...args);
+    return new CoupangApiError(...args);
+  }
+}
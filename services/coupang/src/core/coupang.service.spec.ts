@@ -0,0 +1,252 @@
+import { DestructiveRunResult } from '@daechanjo/rabbitmq';
+
+import { CoupangService } from './coupang.service';
+
+describe('CoupangService', () => {
+  const matchedProducts = [
+    { sellerProductId: 1001, sellerProductName: 'CH0000001 테스트 상품' },
+    { sellerProductId: 1002, sellerProductName: 'CH0000002 테스트 상품' },
+  ];
+
+  const executed = (action: string): DestructiveRunResult => ({
+    status: 'executed',
+    plan: {
+      action,
+      items: matchedProducts.map((product) => ({
+        id: product.sellerProductId,
+        name: product.sellerProductName,
+      })),
+      catalogSize: 100,
+    },
+  });
+
+  let configService: { get: jest.Mock };
+  let coupangRepository: {
+    saveProductArchive: jest.Mock;
+    removeProductArchive: jest.Mock;
+    getLatestProductArchive: jest.Mock;
+    markProductArchiveRestored: jest.Mock;
+  };
+  let rabbitmqService: { send: jest.Mock; emit: jest.Mock };
+  let coupangApiService: {
+    getProductDetail: jest.Mock;
+    getProductListPaging: jest.Mock;
+    deleteProduct: jest.Mock;
+    putStopSellingItem: jest.Mock;
+    createProduct: jest.Mock;
+    putUpdateProduct: jest.Mock;
+  };
+  let approvalService: { guard: jest.Mock };
+  let service: CoupangService;
+
+  beforeEach(() => {
+    configService = { get: jest.fn().mockReturnValue('test-store') };
+    coupangRepository = {
+      saveProductArchive: jest.fn().mockResolvedValue({ id: 1 }),
+      removeProductArchive: jest.fn().mockResolvedValue(undefined),
+      getLatestProductArchive: jest.fn().mockResolvedValue({
+        id: 7,
+        detail: { sellerProductId: 1001, sellerProductName: 'CH0000001 테스트 상품', items: [] },
+      }),
+      markProductArchiveRestored: jest.fn().mockResolvedValue(undefined),
+    };
+    rabbitmqService = {
+      send: jest.fn().mockResolvedValue({
+        status: 'success',
+        data: [{ productCode: 'CH0000001', available: true }],
+      }),
+      emit: jest.fn().mockResolvedValue(undefined),
+    };
+    coupangApiService = {
+      getProductDetail: jest.fn(async (_cronId, _type, sellerProductId: number) => ({
+        sellerProductId,
+        sellerProductName: `CH000000${sellerProductId - 1000} 테스트 상품`,
+        items: [{ vendorItemId: sellerProductId * 10 }],
+      })),
+      getProductListPaging: jest.fn().mockResolvedValue(new Array(100).fill({})),
+      deleteProduct: jest.fn().mockResolvedValue({ code: 'SUCCESS' }),
+      putStopSellingItem: jest.fn().mockResolvedValue(undefined),
+      createProduct: jest.fn().mockResolvedValue(2001),
+      putUpdateProduct: jest.fn().mockResolvedValue(undefined),
+    };
+    approvalService = {
+      guard: jest.fn(async ({ action }) => executed(action)),
+    };
+
+    service = new CoupangService(
+      configService as any,
+      coupangRepository as any,
+      rabbitmqService as any,
+      coupangApiService as any,
+      approvalService as any,
+      {} as any,
+    );
+  });
+
+  describe('deleteProducts', () => {
+    it('삭제를 실행한 뒤 실행 결과를 반환한다', async () => {
+      const result = await service.deleteProducts('cron-1', 'SOLDOUT', matchedProducts);
+
+      expect(result).toEqual(executed('coupang-queue:deleteProducts'));
+      expect(coupangApiService.deleteProduct).toHaveBeenCalledTimes(2);
+      expect(coupangRepository.saveProductArchive).toHaveBeenCalledTimes(2);
+      expect(rabbitmqService.emit).toHaveBeenCalledWith(
+        'mail-queue',
+        'sendBatchDeletionEmail',
+        expect.objectContaining({ platformName: 'coupang' }),
+      );
+    });
+
+    it('보류된 계획은 삭제하지 않고 그대로 반환한다', async () => {
+      const held: DestructiveRunResult = {
+        ...executed('coupang-queue:deleteProducts'),
+        status: 'held',
+        approvalId: 7,
+        reason: '최대 삭제 수 초과',
+      };
+      approvalService.guard.mockResolvedValueOnce(held);
+
+      const result = await service.deleteProducts('cron-1', 'SOLDOUT', matchedProducts);
+
+      expect(result).toBe(held);
+      expect(coupangApiService.deleteProduct).not.toHaveBeenCalled();
+    });
+
+    it('보관하지 못한 상품은 삭제하지 않는다', async () => {
+      coupangRepository.saveProductArchive.mockRejectedValueOnce(new Error('db down'));
+
+      const result = await service.deleteProducts('cron-1', 'SOLDOUT', matchedProducts);
+
+      expect(result.status).toBe('executed');
+      expect(coupangApiService.deleteProduct).toHaveBeenCalledTimes(1);
+      expect(coupangApiService.deleteProduct).toHaveBeenCalledWith(matchedProducts[1]);
+    });
+
+    it('삭제에 실패하면 보관 기록을 제거한다', async () => {
+      coupangApiService.deleteProduct.mockRejectedValueOnce(new Error('API 실패'));
+
+      await service.deleteProducts('cron-1', 'SOLDOUT', matchedProducts);
+
+      expect(coupangRepository.removeProductArchive).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('stopSaleForMatchedProducts', () => {
+    it('모든 옵션을 판매 중지한 뒤 실행 결과를 반환한다', async () => {
+      const result = await service.stopSaleForMatchedProducts('cron-1', 'SOLDOUT', matchedProducts);
+
+      expect(result).toEqual(executed('coupang-queue:stopSaleForMatchedProducts'));
+      expect(coupangApiService.putStopSellingItem).toHaveBeenCalledWith('cron-1', 'SOLDOUT', 10010);
+      expect(coupangApiService.putStopSellingItem).toHaveBeenCalledWith('cron-1', 'SOLDOUT', 10020);
+    });
+
+    it('전체 상품 수를 전달받으면 상품 목록을 다시 조회하지 않는다', async () => {
+      await service.stopSaleForMatchedProducts('cron-1', 'SOLDOUT', matchedProducts, {
+        catalogSize: 100,
+      });
+
+      expect(coupangApiService.getProductListPaging).not.toHaveBeenCalled();
+      expect(approvalService.guard).toHaveBeenCalledWith(
+        expect.objectContaining({ catalogSize: 100 }),
+      );
+    });
+  });
+
+  describe('restoreProduct', () => {
+    it('온채널 재고를 확인한 뒤 보관한 상품을 다시 등록한다', async () => {
+      const result = await service.restoreProduct('cron-1', 'RESTORE', 'CH0000001');
+
+      expect(result).toEqual({
+        productCode: 'CH0000001',
+        status: 'restored',
+        archiveId: 7,
+        sellerProductId: 2001,
+      });
+      expect(rabbitmqService.send).toHaveBeenCalledWith(
+        'onch-queue',
+        'checkProductStock',
+        expect.objectContaining({ productCodes: ['CH0000001'] }),
+      );
+      expect(coupangRepository.markProductArchiveRestored).toHaveBeenCalledWith(7, 2001);
+    });
+
+    it.each([false, null])('재고가 %s 이면 등록하지 않는다', async (available) => {
+      rabbitmqService.send.mockResolvedValueOnce({
+        status: 'success',
+        data: [{ productCode: 'CH0000001', available }],
+      });
+
+      const result = await service.restoreProduct('cron-1', 'RESTORE', 'CH0000001');
+
+      expect(result.status).toBe('out-of-stock');
+      expect(coupangApiService.createProduct).not.toHaveBeenCalled();
+      expect(coupangRepository.markProductArchiveRestored).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processBulkProductUpdate', () => {
+    const createJob = (attemptsMade: number, results: any[]) => {
+      const job = {
+        id: 5,
+        attemptsMade,
+        opts: { attempts: 3 },
+        data: {
+          cronId: 'cron-1',
+          type: 'BULK',
+          patch: { returnCharge: 5000 },
+          targets: matchedProducts,
+          results,
+        },
+        update: jest.fn(async (data) => {
+          job.data = data;
+        }),
+        progress: jest.fn(),
+      };
+      return job;
+    };
+
+    it('이전 시도에서 실패한 상품만 다시 수정한다', async () => {
+      const job = createJob(1, [
+        { ...matchedProducts[0], status: 'success' },
+        { ...matchedProducts[1], status: 'failed', error: 'timeout' },
+      ]);
+
+      const result = await service.processBulkProductUpdate(job as any);
+
+      expect(coupangApiService.putUpdateProduct).toHaveBeenCalledTimes(1);
+      expect(coupangApiService.putUpdateProduct).toHaveBeenCalledWith(1002, { returnCharge: 5000 });
+      expect(result).toEqual({ total: 2, successCount: 2, failedCount: 0 });
+      expect(job.data.results.map((item: any) => item.status)).toEqual(['success', 'success']);
+    });
+
+    it('재시도 횟수가 남아 있으면 실패 결과를 저장하고 에러를 던진다', async () => {
+      coupangApiService.putUpdateProduct.mockRejectedValueOnce(new Error('timeout'));
+      const job = createJob(0, []);
+
+      await expect(service.processBulkProductUpdate(job as any)).rejects.toThrow('재시도 예정');
+
+      expect(job.data.results.map((item: any) => item.status)).toEqual(['failed', 'success']);
+      expect(rabbitmqService.emit).not.toHaveBeenCalled();
+    });
+
+    it('마지막 시도가 끝나면 결과 엑셀을 메일에 첨부하여 보낸다', async () => {
+      coupangApiService.putUpdateProduct.mockRejectedValueOnce(new Error('timeout'));
+      const job = createJob(2, []);
+
+      const result = await service.processBulkProductUpdate(job as any);
+
+      expect(result).toEqual({ total: 2, successCount: 1, failedCount: 1 });
+      expect(rabbitmqService.emit).toHaveBeenCalledWith(
+        'mail-queue',
+        'sendBulkProductUpdateReport',
+        {
+          jobId: '5',
+          successCount: 1,
+          failedCount: 1,
+          report: expect.any(String),
+          store: 'test-store',
+        },
+      );
+    });
+  });
+});
@@ -1,27 +1,112 @@
 import * as path from 'path';
 
 import { CronType } from '@daechanjo/models';
-import { RabbitMQService } from '@daechanjo/rabbitmq';
+import {
+  BulkProductUpdateResult,
+  BulkProductUpdateStatus,
+  CoupangProductFilter,
+  CoupangProductPatch,
+  CoupangProductRequest,
+  DestructiveOptions,
+  DestructiveRunResult,
+  ProductRestoreResult,
+  RabbitMQApprovalService,
+  RabbitMQService,
+  ResumedProduct,
+} from '@daechanjo/rabbitmq';
+import { InjectQueue } from '@nestjs/bull';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { Job, Queue } from 'bull';
 import * as XLSX from 'xlsx';
 
 import { CoupangApiService } from './coupang.api.service';
-import { CoupangSignatureService } from './coupang.signature.service';
 import { CoupangRepository } from '../infrastructure/repository/coupang.repository';
 
+// 상품 일괄 수정에서 허용하는 patch 필드 (CoupangProductPatch)
+const BULK_PATCH_FIELDS = [
+  'deliveryMethod',
+  'deliveryCompanyCode',
+  'deliveryChargeType',
+  'deliveryCharge',
+  'freeShipOverAmount',
+  'deliveryChargeOnReturn',
+  'returnCenterCode',
+  'returnCharge',
+  'outboundShippingPlaceCode',
+];
+
+/**
+ * 상품 일괄 수정 Bull 작업 데이터
+ * targets 와 results 는 처리 중 job.update 로 저장되어, 재시도 시 처리한 상품을 건너뜁니다.
+ */
+export interface BulkProductUpdateJobData {
+  cronId: string;
+  type: string;
+  patch: CoupangProductPatch;
+  filter?: CoupangProductFilter;
+  targets?: { sellerProductId: number; sellerProductName: string }[];
+  results: BulkProductUpdateResult[];
+}
+
 @Injectable()
 export class CoupangService {
   constructor(
     private readonly configService: ConfigService,
-    private readonly signatureService: CoupangSignatureService,
     private readonly coupangRepository: CoupangRepository,
     private readonly rabbitmqService: RabbitMQService,
     private readonly coupangApiService: CoupangApiService,
+    private readonly approvalService: RabbitMQApprovalService,
+    @InjectQueue('coupang-bulk-update-queue') private readonly bulkUpdateQueue: Queue,
   ) {}
 
-  async stopSaleForMatchedProducts(cronId: string, type: string, matchedProducts: any[]) {
+  /**
+   * 상품 목록으로 삭제 / 판매 중지 계획을 만들고 실행 가능 여부를 확인합니다.
+   *
+   * @description
+   * 호출부가 전체 상품 수(catalogSize)를 전달하지 않았고 상위 승인으로 실행하는 것이 아니면
+   * 비율 기준 계산을 위해 쿠팡 전체 상품 목록을 조회합니다.
+   */
+  private async guardProducts(
+    action: string,
+    cronId: string,
+    type: string,
+    products: any[],
+    options: DestructiveOptions,
+  ): Promise<DestructiveRunResult> {
+    let catalogSize = options.catalogSize;
+    if (catalogSize === undefined && !options.approvalId && products.length > 0) {
+      catalogSize = (await this.coupangApiService.getProductListPaging(cronId, type)).length;
+    }
+
+    return await this.approvalService.guard({
+      action,
+      cronId,
+      type,
+      items: products.map((product) => ({
+        id: product.sellerProductId,
+        name: product.sellerProductName,
+      })),
+      catalogSize,
+      options,
+    });
+  }
+
+  async stopSaleForMatchedProducts(
+    cronId: string,
+    type: string,
+    matchedProducts: any[],
+    options: DestructiveOptions = {},
+  ): Promise<DestructiveRunResult> {
+    const result = await this.guardProducts(
+      'coupang-queue:stopSaleForMatchedProducts',
+      cronId,
+      type,
+      matchedProducts,
+      options,
+    );
+    if (result.status !== 'executed') return result;
+
     console.log(`${type}${cronId}: 쿠팡 아이템 판매 중지 시작`);
     if (matchedProducts.length === 0) {
       console.warn(`${type}${cronId}: 중지할 아이템이 없습니다`);
@@ -41,7 +126,6 @@ export class CoupangService {
         product.sellerProductId,
       );
       detailedProducts.push(details);
-      await new Promise((resolve) => setTimeout(resolve, 500));
     }
 
     for (const [i, productDetail] of detailedProducts.entries()) {
@@ -56,18 +140,31 @@ export class CoupangService {
 
         for (const item of items) {
           await this.coupangApiService.putStopSellingItem(cronId, type, item.vendorItemId);
-          await new Promise((resolve) => setTimeout(resolve, 500));
         }
       }
     }
-    return { status: 'success' };
+    return result;
   }
 
-  async deleteProducts(cronId: string, type: string, matchedProducts: any[]) {
+  async deleteProducts(
+    cronId: string,
+    type: string,
+    matchedProducts: any[],
+    options: DestructiveOptions = {},
+  ): Promise<DestructiveRunResult> {
+    const result = await this.guardProducts(
+      'coupang-queue:deleteProducts',
+      cronId,
+      type,
+      matchedProducts,
+      options,
+    );
+    if (result.status !== 'executed') return result;
+
     console.log(`${type}${cronId}: 쿠팡 상품 삭제 시작`);
     if (matchedProducts.length === 0) {
       console.warn(`${type}${cronId}: 삭제할 상품이 없습니다`);
-      return;
+      return result;
     }
 
     const deletedProducts: { sellerProductId: number; productName: string }[] = [];
@@ -78,6 +175,18 @@ export class CoupangService {
           `${type}${cronId}: 아이템 삭제중 ${i + 1}/${matchedProducts.length} - ${progress}%`,
         );
 
+      // 복원할 수 있도록 삭제 전 상품 상세 보관 (보관하지 못하면 삭제하지 않음)
+      let archiveId: number;
+      try {
+        archiveId = await this.archiveProduct(cronId, type, product);
+      } catch (error: any) {
+        console.error(
+          `${CronType.ERROR}${type}${cronId}: 쿠팡 상품 보관 실패로 삭제 건너뜀-${product.sellerProductId}\n`,
+          error.message,
+        );
+        continue;
+      }
+
       try {
         await this.coupangApiService.deleteProduct(product);
 
@@ -87,12 +196,11 @@ export class CoupangService {
             ? product.sellerProductName
             : product.onchItems[0].itemName.trim(),
         });
-
-        await new Promise((resolve) => setTimeout(resolve, 500));
       } catch (error: any) {
+        await this.coupangRepository.removeProductArchive(archiveId);
         console.error(
           `${CronType.ERROR}${type}${cronId}: 쿠팡 상품 삭제 실패-${product.sellerProductId})\n`,
-          error.response?.data || error.message,
+          error.message,
         );
       }
     }
@@ -112,6 +220,169 @@ export class CoupangService {
         );
       }
     }
+
+    return result;
+  }
+
+  /**
+   * 품절로 판매 중지했던 상품의 모든 옵션 판매를 재개합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param matchedProducts - 판매를 재개할 상품 (sellerProductId, sellerProductName)
+   *
+   * @returns {Promise<ResumedProduct[]>} - 하나 이상의 옵션 판매를 재개한 상품 목록
+   *
+   * @description
+   * 1. 상품 상세를 조회하여 옵션(vendorItemId) 목록 확인
+   * 2. 옵션별로 판매 재개 API 호출 (실패한 옵션은 로그만 남기고 계속 진행)
+   * 3. 상품 조회 실패 시 해당 상품만 건너뜀
+   */
+  async resumeSaleForMatchedProducts(
+    cronId: string,
+    type: string,
+    matchedProducts: { sellerProductId: number; sellerProductName: string }[],
+  ): Promise<ResumedProduct[]> {
+    console.log(`${type}${cronId}: 쿠팡 아이템 판매 재개 시작`);
+
+    const resumedProducts: ResumedProduct[] = [];
+    for (const product of matchedProducts) {
+      let productDetail: any;
+      try {
+        productDetail = await this.coupangApiService.getProductDetail(
+          cronId,
+          type,
+          product.sellerProductId,
+        );
+      } catch (error: any) {
+        console.error(
+          `${CronType.ERROR}${type}${cronId}: 판매 재개 상품 조회 실패-${product.sellerProductId}\n`,
+          error.message,
+        );
+        continue;
+      }
+
+      const vendorItemIds: number[] = [];
+      for (const item of productDetail?.items ?? []) {
+        try {
+          await this.coupangApiService.putResumeSellingItem(item.vendorItemId);
+          vendorItemIds.push(item.vendorItemId);
+        } catch (error: any) {
+          console.error(
+            `${CronType.ERROR}${type}${cronId}: 아이템 판매 재개 실패 ${item.vendorItemId}\n`,
+            error.message,
+          );
+        }
+      }
+
+      if (vendorItemIds.length > 0) {
+        resumedProducts.push({
+          sellerProductId: product.sellerProductId,
+          productName: product.sellerProductName,
+          vendorItemIds,
+        });
+      }
+    }
+
+    console.log(
+      `${type}${cronId}: 쿠팡 상품 ${resumedProducts.length}/${matchedProducts.length}개 판매 재개 완료`,
+    );
+    return resumedProducts;
+  }
+
+  /**
+   * 삭제할 상품의 상세 정보를 조회하여 보관 테이블에 저장합니다.
+   *
+   * @returns 보관 기록 ID
+   */
+  private async archiveProduct(cronId: string, type: string, product: any): Promise<number> {
+    const detail = await this.coupangApiService.getProductDetail(
+      cronId,
+      type,
+      product.sellerProductId,
+    );
+
+    const archive = await this.coupangRepository.saveProductArchive({
+      sellerProductId: String(product.sellerProductId),
+      sellerProductName: detail.sellerProductName ?? product.sellerProductName,
+      productCode: (detail.sellerProductName ?? product.sellerProductName)?.match(/CH\d{7}/)?.[0],
+      type,
+      cronId,
+      detail,
+    });
+    return archive.id;
+  }
+
+  /**
+   * 삭제 시 보관한 상품 상세로 쿠팡에 상품을 다시 등록합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param productCode - 복원할 상품의 온채널 상품 코드 (CH0000000)
+   *
+   * @returns {Promise<ProductRestoreResult>} - 복원 결과와 새로 발급된 판매자 상품 ID
+   *
+   * @description
+   * 재입고 확인(restockCron)에서 자동으로 호출하지 않는 수동 실행 전용 패턴입니다.
+   * 1. 상품 코드로 아직 복원하지 않은 가장 최근 보관 기록 조회
+   * 2. 온채널 재고 확인 (품절이거나 확인하지 못하면 등록하지 않음)
+   * 3. 보관한 상품 상세에서 등록 시 발급되는 값(sellerProductId, vendorItemId, 상태 등)을 제거하여 등록 요청 생성
+   * 4. 상품 생성 API 로 다시 등록 (승인 요청 포함)
+   * 5. 보관 기록에 새 판매자 상품 ID 와 복원 일시 기록
+   */
+  async restoreProduct(
+    cronId: string,
+    type: string,
+    productCode: string,
+  ): Promise<ProductRestoreResult> {
+    const archive = await this.coupangRepository.getLatestProductArchive(productCode);
+    if (!archive) {
+      console.warn(`${type}${cronId}: 복원할 쿠팡 상품 보관 기록이 없습니다 - ${productCode}`);
+      return { productCode, status: 'not-found' };
+    }
+
+    try {
+      const stock = await this.rabbitmqService.send('onch-queue', 'checkProductStock', {
+        cronId,
+        type,
+        store: this.configService.get<string>('STORE')!,
+        productCodes: [productCode],
+      });
+      if (stock.data?.[0]?.available !== true) {
+        console.warn(`${type}${cronId}: 온채널 품절 상품은 복원하지 않습니다 - ${productCode}`);
+        return { productCode, status: 'out-of-stock', archiveId: archive.id };
+      }
+
+      const sellerProductId = await this.coupangApiService.createProduct(
+        cronId,
+        type,
+        this.toRestoreRequest(archive.detail),
+      );
+      await this.coupangRepository.markProductArchiveRestored(archive.id, sellerProductId);
+
+      console.log(`${type}${cronId}: 쿠팡 상품 복원 완료 - ${productCode} → ${sellerProductId}`);
+      return { productCode, status: 'restored', archiveId: archive.id, sellerProductId };
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: 쿠팡 상품 복원 실패 - ${productCode}\n`,
+        error.message,
+      );
+      return { productCode, status: 'failed', archiveId: archive.id, error: error.message };
+    }
+  }
+
+  // 상품 상세 응답을 등록 요청으로 변환 (등록 시 새로 발급되는 값 제거)
+  private toRestoreRequest(detail: any): CoupangProductRequest {
+    const { sellerProductId, productId, statusName, status, mdId, mdName, createdAt, ...product } =
+      detail;
+
+    return {
+      ...product,
+      requested: true,
+      items: (detail.items ?? []).map(
+        ({ sellerProductItemId, vendorItemId, itemId, onSale, ...item }: any) => item,
+      ),
+    };
   }
 
   // todo 삭제
@@ -146,31 +417,15 @@ export class CoupangService {
 
       const vendorItemId = item.vendorItemId;
 
-      const priceUpdatePath = `/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/${vendorItemId}/prices/${item.newPrice}`;
-
-      const { authorization, datetime } = await this.signatureService.createHmacSignature(
-        'PUT',
-        priceUpdatePath,
-        '',
-        false,
-      );
-
       try {
-        await axios.put(`https://api-gateway.coupang.com${priceUpdatePath}`, null, {
-          headers: {
-            Authorization: authorization,
-            'Content-Type': 'application/json;charset=UTF-8',
-            'X-Coupang-Date': datetime,
-          },
-        });
+        await this.coupangApiService.putItemPrice(vendorItemId, item.newPrice);
 
         successCount++;
-        await new Promise((resolve) => setTimeout(resolve, 100));
       } catch (error: any) {
         failedCount++;
         console.error(
           `${CronType.ERROR}${type}${cronId}: 가격 업데이트 오류-${vendorItemId}\n`,
-          error.response?.data || error.message,
+          error.message,
         );
       }
     }
@@ -218,28 +473,183 @@ export class CoupangService {
     console.log(`${type}${cronId}: 상품 가격 업데이트 완료`);
   }
 
-  async shippingCostManagement(cronId: string, coupangProductDetails: any, type: string) {
-    let successCount = 0;
-    let failedCount = 0;
+  /**
+   * 상품 배송 / 반품 정보 일괄 수정 작업을 등록합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param patch - 변경할 필드 (반품비, 배송비, 무료배송 기준 금액, 출고지, 택배사 등)
+   * @param filter - 수정 대상 조건 (생략 시 전체 승인 상품)
+   * @returns 등록된 작업 ID (getBulkProductUpdateStatus 로 진행 상황 조회)
+   * @throws patch 가 비어 있거나 허용하지 않는 필드가 포함된 경우
+   */
+  async startBulkProductUpdate(
+    cronId: string,
+    type: string,
+    patch: CoupangProductPatch,
+    filter?: CoupangProductFilter,
+  ): Promise<{ jobId: string }> {
+    const fields = Object.keys(patch);
+    const unknownFields = fields.filter((field) => !BULK_PATCH_FIELDS.includes(field));
+    if (fields.length === 0 || unknownFields.length > 0) {
+      throw new Error(
+        `일괄 수정할 수 없는 patch 입니다: ${unknownFields.join(', ') || '변경할 필드 없음'} (허용: ${BULK_PATCH_FIELDS.join(', ')})`,
+      );
+    }
 
-    console.log(`${type}${cronId}: ${coupangProductDetails.length}개 수정 시작...`);
+    const data: BulkProductUpdateJobData = { cronId, type, patch, filter, results: [] };
+    const job = await this.bulkUpdateQueue.add('bulk-update', data);
 
-    for (const product of coupangProductDetails) {
-      try {
-        await this.coupangApiService.putUpdateProduct(product);
+    console.log(`${type}${cronId}: 상품 일괄 수정 작업 등록 - ${job.id} ${JSON.stringify(patch)}`);
+    return { jobId: String(job.id) };
+  }
 
-        successCount++;
+  /**
+   * 상품 일괄 수정 작업의 진행 상황과 상품별 결과를 조회합니다.
+   *
+   * @param jobId - startBulkProductUpdate 가 반환한 작업 ID
+   * @returns 작업 상태 또는 작업이 없으면 null (완료 후 보관 개수를 넘어 삭제된 경우 포함)
+   */
+  async getBulkProductUpdateStatus(jobId: string): Promise<BulkProductUpdateStatus | null> {
+    const job: Job<BulkProductUpdateJobData> | null = await this.bulkUpdateQueue.getJob(jobId);
+    if (!job) return null;
+
+    const results = job.data.results ?? [];
+    const successCount = results.filter((result) => result.status === 'success').length;
+
+    return {
+      jobId: String(job.id),
+      state: await job.getState(),
+      progress: Number(job.progress()) || 0,
+      total: job.data.targets?.length ?? 0,
+      successCount,
+      failedCount: results.length - successCount,
+      results,
+      failedReason: job.failedReason,
+    };
+  }
+
+  /**
+   * 상품 일괄 수정 작업을 실행합니다. (coupang-bulk-update-queue 프로세서에서 호출)
+   *
+   * @param job - 일괄 수정 Bull 작업
+   * @returns 처리 건수
+   * @throws 실패한 상품이 남아 있고 재시도 횟수가 남은 경우 (실패한 상품만 다시 처리)
+   *
+   * @description
+   * 1. 첫 실행이면 승인 상품 목록을 조회하고 filter 로 대상을 추려 job 데이터에 저장
+   * 2. 성공 결과가 없는 대상만 putUpdateProduct 로 부분 수정 (재시도 / 재시작 시 실패한 상품부터 이어서 처리)
+   * 3. 10건마다 결과와 진행률을 job 에 저장
+   * 4. 실패한 상품이 있으면 마지막 시도가 아닌 한 에러를 던져 Bull 재시도에 맡김
+   * 5. 완료 후 상품별 결과 엑셀을 메일에 첨부하여 전송
+   */
+  async processBulkProductUpdate(
+    job: Job<BulkProductUpdateJobData>,
+  ): Promise<{ total: number; successCount: number; failedCount: number }> {
+    const { cronId, type, patch, filter } = job.data;
+    // 이전 시도에서 실패한 상품은 결과에서 빼고 다시 수정
+    const results = (job.data.results ?? []).filter((result) => result.status === 'success');
+
+    if (!job.data.targets) {
+      const products = await this.coupangApiService.getProductListPaging(cronId, type);
+      const targets = products
+        .filter((product) => this.matchesProductFilter(product, filter))
+        .map((product) => ({
+          sellerProductId: product.sellerProductId,
+          sellerProductName: product.sellerProductName,
+        }));
+      await job.update({ ...job.data, targets, results });
+    }
+
+    const targets = job.data.targets!;
+    const processed = new Set(results.map((result) => result.sellerProductId));
+
+    console.log(
+      `${type}${cronId}: 상품 일괄 수정 ${targets.length}개 중 ${targets.length - processed.size}개 수정 시작...`,
+    );
+
+    for (const target of targets) {
+      if (processed.has(target.sellerProductId)) continue;
+
+      try {
+        await this.coupangApiService.putUpdateProduct(target.sellerProductId, patch);
+        results.push({ ...target, status: 'success' });
       } catch (error: any) {
         console.error(
-          `${CronType.ERROR}${type}${cronId}: 반품 배송비 업데이트 실패-${product.sellerProductId}\n`,
-          error.response?.data || error.message,
+          `${CronType.ERROR}${type}${cronId}: 상품 일괄 수정 실패-${target.sellerProductId}\n`,
+          error.message,
         );
-        failedCount++;
+        results.push({ ...target, status: 'failed', error: error.message });
+      }
+
+      if (results.length % 10 === 0 || results.length === targets.length) {
+        await job.update({ ...job.data, results });
+        await job.progress(Math.floor((results.length / targets.length) * 100));
       }
-      await new Promise((resolve) => setTimeout(resolve, 300));
     }
 
-    return { successCount: successCount, failedCount: failedCount };
+    const successCount = results.filter((result) => result.status === 'success').length;
+    const failedCount = results.length - successCount;
+    const attempts = job.opts.attempts ?? 1;
+
+    if (failedCount > 0 && job.attemptsMade + 1 < attempts) {
+      throw new Error(
+        `상품 일괄 수정 실패 ${failedCount}건 - 재시도 예정 (${job.attemptsMade + 1}/${attempts})`,
+      );
+    }
+
+    const worksheet = XLSX.utils.json_to_sheet(
+      results.map((result) => ({
+        'Seller Product ID': result.sellerProductId,
+        'Product Name': result.sellerProductName,
+        Status: result.status,
+        Error: result.error ?? '',
+      })),
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'BulkUpdate');
+
+    // 메일 서비스와 파일 시스템을 공유하지 않으므로 파일 대신 내용을 메시지로 전달
+    const report: string = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
+
+    console.log(
+      `${type}${cronId}: 상품 일괄 수정 완료 - 성공 ${successCount}, 실패 ${failedCount}`,
+    );
+
+    try {
+      await this.rabbitmqService.emit('mail-queue', 'sendBulkProductUpdateReport', {
+        jobId: String(job.id),
+        successCount,
+        failedCount,
+        report,
+        store: this.configService.get<string>('STORE')!,
+      });
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: 일괄 수정 결과 메일 전송 실패\n`,
+        error.response?.data || error.message,
+      );
+    }
+
+    return { total: targets.length, successCount, failedCount };
+  }
+
+  private matchesProductFilter(
+    product: { sellerProductId: number; sellerProductName: string; displayCategoryCode?: number },
+    filter: CoupangProductFilter = {},
+  ): boolean {
+    if (
+      filter.sellerProductIds?.length &&
+      !filter.sellerProductIds.includes(product.sellerProductId)
+    )
+      return false;
+    if (filter.keyword && !product.sellerProductName?.includes(filter.keyword)) return false;
+    if (
+      filter.displayCategoryCodes?.length &&
+      !filter.displayCategoryCodes.includes(Number(product.displayCategoryCode))
+    )
+      return false;
+    return true;
   }
 
   async clearCoupangProducts() {
@@ -0,0 +1,104 @@
+import {
+  CoupangSignatureService,
+  createCeaSignature,
+  formatSignedDate,
+  toCanonicalQuery,
+} from './coupang.signature.service';
+
+/**
+ * 쿠팡 Open API 문서의 서명 규칙 (HmacSHA256, 메시지 = signed-date + method + path + query) 을 따르는 예시
+ * 기대 서명값은 같은 메시지를 `openssl dgst -sha256 -hmac <secretKey>` 로 계산한 값
+ */
+describe('CoupangSignatureService', () => {
+  const secretKey = 'test-secret-key';
+  const datetime = '250102T030405Z';
+
+  const examples = [
+    {
+      name: '상품 목록 조회 (GET + 쿼리)',
+      method: 'GET',
+      path: '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products',
+      query: { vendorId: 'A00012345', nextToken: '', maxPerPage: 50, status: 'APPROVED' },
+      canonical: 'vendorId=A00012345&nextToken=&maxPerPage=50&status=APPROVED',
+      signature: '69cca99d744047c475589c0f0dd66f2e5e7409f8005b07b055f58031579b8f7e',
+    },
+    {
+      name: '판매 중지 (PUT, 쿼리 없음)',
+      method: 'PUT',
+      path: '/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items/3000000001/sales/stop',
+      query: {},
+      canonical: '',
+      signature: 'b73794148a83f8ce5dee546f8dc11a5ebc28d7efbba44b23f959adca3ee8afd4',
+    },
+    {
+      name: '발주서 조회 (한글 / 공백 / 예약 문자 인코딩)',
+      method: 'GET',
+      path: '/v2/providers/openapi/apis/api/v4/vendors/A00012345/ordersheets',
+      query: {
+        createdAtFrom: '2025-01-01',
+        createdAtTo: '2025-01-02',
+        status: 'ACCEPT',
+        searchKeyword: '상품 A',
+        memo: 'a+b&c',
+      },
+      canonical:
+        'createdAtFrom=2025-01-01&createdAtTo=2025-01-02&status=ACCEPT' +
+        '&searchKeyword=%EC%83%81%ED%92%88+A&memo=a%2Bb%26c',
+      signature: 'cf5515deccdecafbe637fcbea6513921c4f2ea8b42762cc01a2d40fa0e9f4720',
+    },
+  ];
+
+  describe('formatSignedDate', () => {
+    it("UTC 기준 yyMMdd'T'HHmmss'Z' 형식으로 변환한다", () => {
+      expect(formatSignedDate(new Date('2025-01-02T03:04:05.678Z'))).toBe(datetime);
+    });
+  });
+
+  describe('toCanonicalQuery', () => {
+    it.each(examples)('$name', ({ query, canonical }) => {
+      expect(toCanonicalQuery(query)).toBe(canonical);
+    });
+
+    it('작성한 순서를 유지하고 undefined / null 값은 제외한다', () => {
+      expect(toCanonicalQuery({ b: 2, a: 1, c: undefined, d: null })).toBe('b=2&a=1');
+    });
+  });
+
+  describe('createCeaSignature', () => {
+    it.each(examples)('$name', ({ method, path, canonical, signature }) => {
+      expect(createCeaSignature(secretKey, datetime, method, path, canonical)).toBe(signature);
+    });
+  });
+
+  describe('sign', () => {
+    const credentialService = {
+      getCredential: jest.fn().mockResolvedValue({
+        accessKey: 'test-access-key',
+        secretKey,
+        vendorId: 'A00012345',
+      }),
+    };
+    const configService = { get: jest.fn().mockReturnValue('test-store') };
+    const service = new CoupangSignatureService(configService as any, credentialService as any);
+
+    beforeAll(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-01-02T03:04:05Z'));
+    });
+
+    afterAll(() => {
+      jest.useRealTimers();
+    });
+
+    it.each(examples)('$name', async ({ method, path, canonical, signature }) => {
+      const url = `${path}${canonical ? `?${canonical}` : ''}`;
+
+      const result = await service.sign(method, url);
+
+      expect(result).toEqual({
+        datetime,
+        authorization: `CEA algorithm=HmacSHA256, access-key=test-access-key, signed-date=${datetime}, signature=${signature}`,
+      });
+      expect(credentialService.getCredential).toHaveBeenCalledWith('coupang', 'test-store');
+    });
+  });
+});
@@ -1,58 +1,99 @@
 import crypto from 'crypto';
 
+import { CoupangCredential, CredentialService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
-@Injectable()
-export class CoupangSignatureService {
-  private readonly secretKey: string;
-  private readonly accessKey: string;
-  private readonly vendorId: string;
-
-  constructor(private readonly configService: ConfigService) {
-    this.secretKey = this.configService.get<string>('COUPANG_SECRET_KEY')!;
-    this.accessKey = this.configService.get<string>('COUPANG_ACCESS_KEY')!;
-    this.vendorId = this.configService.get<string>('COUPANG_VENDOR_ID')!;
-  }
-
-  async createHmacSignature(
-    method: string,
-    path: string,
-    nextToken: string = '',
-    useQuery: boolean = true,
-  ) {
-    const datetime =
-      new Date().toISOString().substr(2, 17).replace(/:/gi, '').replace(/-/gi, '') + 'Z';
-
-    const query = useQuery
-      ? new URLSearchParams({
-          vendorId: this.vendorId,
-          nextToken,
-          maxPerPage: '100',
-          status: 'APPROVED',
-        }).toString()
-      : '';
+/**
+ * 서명 일시를 쿠팡 CEA 형식(yyMMdd'T'HHmmss'Z', UTC)으로 변환합니다.
+ *
+ * @param date - 서명 일시
+ */
+export function formatSignedDate(date: Date): string {
+  return date.toISOString().slice(2, 19).replace(/[-:]/g, '') + 'Z';
+}
 
-    const message = datetime + method + path + query;
+/**
+ * 요청 파라미터를 쿠팡 서명 / 전송에 사용하는 쿼리 문자열로 변환합니다.
+ * 작성한 순서를 유지하며, undefined / null 값은 제외합니다.
+ *
+ * @param query - 쿼리 파라미터
+ */
+export function toCanonicalQuery(query: Record<string, unknown> = {}): string {
+  return new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)]),
+  ).toString();
+}
 
-    const signature = crypto.createHmac('sha256', this.secretKey).update(message).digest('hex');
+/**
+ * 쿠팡 Open API CEA HmacSHA256 서명값을 계산합니다.
+ *
+ * @param secretKey - 쿠팡 Open API secret key
+ * @param datetime - formatSignedDate 로 만든 서명 일시
+ * @param method - 요청 메서드
+ * @param path - 쿼리를 제외한 요청 경로
+ * @param query - "?" 를 제외한 쿼리 문자열 (없으면 빈 문자열)
+ * @returns 16진수 서명값
+ */
+export function createCeaSignature(
+  secretKey: string,
+  datetime: string,
+  method: string,
+  path: string,
+  query: string,
+): string {
+  return crypto
+    .createHmac('sha256', secretKey)
+    .update(datetime + method + path + query)
+    .digest('hex');
+}
 
-    const authorization = `CEA algorithm=HmacSHA256, access-key=${this.accessKey}, signed-date=${datetime}, signature=${signature}`;
+@Injectable()
+export class CoupangSignatureService {
+  private readonly defaultStore: string;
 
-    return { authorization, datetime };
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly credentialService: CredentialService,
+  ) {
+    this.defaultStore = this.configService.get<string>('STORE')!;
   }
 
-  async createParamHmacSignature(method: string, path: string, params: Record<string, any>) {
-    const datetime =
-      new Date().toISOString().slice(2, 19).replace(/:/gi, '').replace(/-/gi, '') + 'Z';
-
-    const query = new URLSearchParams(params).toString(); // params로 queryString 생성
+  // 스토어의 쿠팡 Open API 키 조회 (store 생략 시 STORE 환경 변수의 스토어)
+  private async getCredential(store: string = this.defaultStore): Promise<CoupangCredential> {
+    return await this.credentialService.getCredential('coupang', store);
+  }
 
-    const message = datetime + method + path + query;
+  async getVendorId(store?: string): Promise<string> {
+    const { vendorId } = await this.getCredential(store);
+    return vendorId;
+  }
 
-    const signature = crypto.createHmac('sha256', this.secretKey).update(message).digest('hex');
+  /**
+   * 전송할 요청 그대로 쿠팡 Open API CEA HMAC 서명을 생성합니다.
+   *
+   * @param method - 요청 메서드 (GET, PUT 등)
+   * @param url - 전송할 경로 + 쿼리 문자열 (예: "/v2/.../seller-products?vendorId=A0&nextToken=")
+   * @param store - 사용할 스토어 (생략 시 STORE 환경 변수의 스토어)
+   * @returns Authorization 헤더 값과 X-Coupang-Date 헤더에 사용할 서명 일시
+   *
+   * @description
+   * 서명 메시지는 "서명 일시 + 메서드 + 경로 + 쿼리" 이며, 쿠팡은 실제로 전송된 쿼리 문자열로
+   * 서명을 검증하므로 url 은 전송할 문자열과 같아야 합니다 (CoupangHttpClient 가 보장).
+   */
+  async sign(
+    method: string,
+    url: string,
+    store?: string,
+  ): Promise<{ authorization: string; datetime: string }> {
+    const { accessKey, secretKey } = await this.getCredential(store);
+    const [path, query = ''] = url.split(/\?(.*)/s);
 
-    const authorization = `CEA algorithm=HmacSHA256, access-key=${this.accessKey}, signed-date=${datetime}, signature=${signature}`;
+    const datetime = formatSignedDate(new Date());
+    const signature = createCeaSignature(secretKey, datetime, method, path, query);
+    const authorization = `CEA algorithm=HmacSHA256, access-key=${accessKey}, signed-date=${datetime}, signature=${signature}`;
 
     return { authorization, datetime };
   }
@@ -1,5 +1,10 @@
 import { CoupangExtractDetail, CronType } from '@daechanjo/models';
-import { PlaywrightService } from '@daechanjo/playwright';
+import {
+  DestructiveOptions,
+  DestructiveRunResult,
+  RabbitMQApprovalService,
+} from '@daechanjo/rabbitmq';
+import { PlaywrightService, SelectorHealthReport, SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
@@ -15,6 +20,7 @@ import { CoupangRepository } from '../../infrastructure/repository/coupang.repos
 export class CoupangCrawlerService {
   constructor(
     private readonly playwrightService: PlaywrightService,
+    private readonly selectorService: SelectorService,
     private readonly coupangRepository: CoupangRepository,
     private readonly coupangService: CoupangService,
     private readonly coupangApiService: CoupangApiService,
@@ -23,6 +29,7 @@ export class CoupangCrawlerService {
     private readonly orderStatusUpdateProvider: OrderStatusUpdateProvider,
     private readonly crawlCoupangDetailProductsProvider: CrawlCoupangDetailProductsProvider,
     private readonly deleteConfirmedCoupangProductProvider: DeleteConfirmedCoupangProductProvider,
+    private readonly approvalService: RabbitMQApprovalService,
   ) {}
 
   /**
@@ -59,7 +66,12 @@ export class CoupangCrawlerService {
 
     try {
       // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
+      const coupangPage = await this.playwrightService.loginToCoupangSite(
+        contextId,
+        pageId,
+        'chromium',
+        store,
+      );
 
       // 주문 상태 업데이트 프로바이더에 처리 위임
       await this.orderStatusUpdateProvider.updateOrderStatus(coupangPage, cronId, type);
@@ -94,7 +106,8 @@ export class CoupangCrawlerService {
    *    c. 지정된 배송사 선택
    *    d. 운송장 번호 입력
    *    e. 변경사항 적용 및 페이지 새로고침
-   * 5. 모든 주문 처리 후 결과 반환
+   * 5. 실패한 주문은 스크린샷 / HTML / 트레이스 경로를 결과의 artifacts 에 기록
+   * 6. 모든 주문 처리 후 결과 반환
    *
    * 주문 행을 찾지 못한 경우 여러 페이지를 순회하며 검색합니다.
    * 모든 작업 완료 후 Playwright 컨텍스트 리소스를 해제하여 메모리 누수를 방지합니다.
@@ -108,7 +121,12 @@ export class CoupangCrawlerService {
     const contextId = `context-${store}-${cronId}`;
     const pageId = `page-${store}-${cronId}`;
 
-    const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
+    const coupangPage = await this.playwrightService.loginToCoupangSite(
+      contextId,
+      pageId,
+      'chromium',
+      store,
+    );
 
     try {
       // 배송 관리 페이지로 이동
@@ -128,6 +146,15 @@ export class CoupangCrawlerService {
           type,
           cronId,
         );
+
+        // 실패한 주문은 디버깅을 위해 현재 페이지 상태를 저장
+        if (result.status === 'failed') {
+          result.artifacts = await this.playwrightService.captureFailureArtifacts(
+            coupangPage,
+            cronId,
+            `invoice-${order.orderId}`,
+          );
+        }
         results.push(result);
       }
 
@@ -167,7 +194,12 @@ export class CoupangCrawlerService {
 
     try {
       // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
+      const coupangPage = await this.playwrightService.loginToCoupangSite(
+        contextId,
+        pageId,
+        'chromium',
+        store,
+      );
 
       let isLastPage = false;
       let currentPage = 1;
@@ -202,13 +234,47 @@ export class CoupangCrawlerService {
     }
   }
 
+  /**
+   * 쿠팡 윙 크롤러에서 사용하는 셀렉터가 여전히 동작하는지 점검하는 메서드
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   *
+   * @returns {Promise<SelectorHealthReport>} - 셀렉터별 점검 결과
+   *
+   * @description
+   * 1. 쿠팡 윙 관리자 사이트에 로그인
+   * 2. 셀렉터 레지스트리에 등록된 윙 페이지(배송 관리, 상품 목록)를 순회하며 셀렉터 점검
+   * 3. 작업 완료 후 Playwright 컨텍스트 리소스 해제
+   */
+  async checkSelectorHealth(cronId: string, type: string): Promise<SelectorHealthReport> {
+    console.log(`${type}${cronId}: 쿠팡 윙 셀렉터 상태 점검 시작`);
+
+    const store = this.configService.get<string>('STORE');
+    const contextId = `context-${store}-${cronId}`;
+    const pageId = `page-${store}-${cronId}`;
+
+    try {
+      const coupangPage = await this.playwrightService.loginToCoupangSite(
+        contextId,
+        pageId,
+        'chromium',
+        store,
+      );
+      return await this.selectorService.checkHealth(coupangPage, 'coupang');
+    } finally {
+      await this.playwrightService.releaseContext(contextId);
+    }
+  }
+
   /**
    * 쿠팡 윙에서 비준수(컨펌) 상품을 찾아 판매 중지 및 삭제하는 메서드
    *
    * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
    * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param options - dry-run / 승인 옵션
    *
-   * @returns {Promise<{matchedProducts: any[]} | undefined>} - 일치하는 상품 목록 또는 없을 경우 undefined
+   * @returns {Promise<DestructiveRunResult | undefined>} - 삭제 계획과 실행 결과 또는 비준수 상품이 없을 경우 undefined
    *
    * @description
    * 이 메서드는 쿠팡 윙에서 비준수(컨펌) 상태의 상품을 식별하고 삭제하는 전체 프로세스를 관리합니다:
@@ -218,16 +284,18 @@ export class CoupangCrawlerService {
    * 3. 페이지에서 모든 비준수 상품의 상품 코드 추출
    * 4. API를 통해 판매자의 전체 상품 목록 조회
    * 5. 비준수 상품 코드와 일치하는 상품 식별
-   * 6. 일치하는 상품에 대해 판매 중지 및 삭제 처리
+   * 6. 삭제 계획을 안전 기준과 비교 (dry-run 이거나 기준을 넘으면 계획만 반환하고 종료)
+   * 7. 일치하는 상품에 대해 판매 중지 및 삭제 처리
    *
    * 이 메서드는 비준수 상품이 없는 경우 undefined를 반환하며,
-   * 모든 작업이 완료되면 일치하는 상품 목록을 포함한 객체를 반환합니다.
+   * 그 외에는 삭제 계획과 실행 여부(dry-run, held, executed)를 포함한 결과를 반환합니다.
    * 작업 중 발생하는 오류는 로그로 기록되며, 컨텍스트 리소스는 항상 해제됩니다.
    */
   async deleteConfirmedCoupangProduct(
     cronId: string,
     type: string,
-  ): Promise<{ matchedProducts: any[] } | undefined> {
+    options: DestructiveOptions = {},
+  ): Promise<DestructiveRunResult | undefined> {
     // 브라우저 컨텍스트 및 페이지 설정
     const store = this.configService.get<string>('STORE');
     const contextId = `context-${store}-${cronId}`;
@@ -235,7 +303,12 @@ export class CoupangCrawlerService {
 
     try {
       // 쿠팡 윙 로그인 및 페이지 객체 가져오기
-      const coupangPage = await this.playwrightService.loginToCoupangSite(contextId, pageId);
+      const coupangPage = await this.playwrightService.loginToCoupangSite(
+        contextId,
+        pageId,
+        'chromium',
+        store,
+      );
 
       // 비준수 상품 목록 페이지로 이동
       await this.deleteConfirmedCoupangProductProvider.navigateToNonConformingProductsPage(
@@ -275,20 +348,42 @@ export class CoupangCrawlerService {
 
       console.log(`${type}${cronId}: 컨펌 상품\n`, matchedProducts);
 
+      // 삭제 계획 확인 (dry-run 이거나 안전 기준을 넘으면 여기서 종료)
+      const result = await this.approvalService.guard({
+        action: 'coupang-queue:deleteConfirmedCoupangProduct',
+        cronId,
+        type,
+        store,
+        items: matchedProducts.map((product) => ({
+          id: product.sellerProductId,
+          name: product.sellerProductName,
+        })),
+        catalogSize: coupangProducts.length,
+        options,
+      });
+      if (result.status !== 'executed') return result;
+
       if (matchedProducts.length > 0) {
-        // 일치하는 상품 판매 중지 및 삭제
+        // 일치하는 상품 판매 중지 및 삭제 (이미 확인한 계획이므로 승인 번호와 전체 상품 수를 전달)
+        const downstream = { approvalId: result.approvalId, catalogSize: coupangProducts.length };
         await this.coupangService.stopSaleForMatchedProducts(
           cronId,
           CronType.CONFORM,
           matchedProducts,
+          downstream,
+        );
+        await this.coupangService.deleteProducts(
+          cronId,
+          CronType.CONFORM,
+          matchedProducts,
+          downstream,
         );
-        await this.coupangService.deleteProducts(cronId, CronType.CONFORM, matchedProducts);
         console.log(`${type}${cronId}: 쿠팡 컨펌상품 삭제 완료`);
       } else {
         console.log(`${type}${cronId}: 삭제할 컨펌상품이 없습니다`);
       }
 
-      return { matchedProducts };
+      return result;
     } catch (error) {
       console.error(`${type}${cronId}: 컨펌상품 삭제 중 오류 발생`, error);
       await this.playwrightService.releaseContext(contextId);
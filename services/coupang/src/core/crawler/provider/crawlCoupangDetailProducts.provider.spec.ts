@@ -0,0 +1,51 @@
+import * as path from 'node:path';
+
+import {
+  FixturePage,
+  openFixturePage,
+  SELECTOR_REGISTRY,
+  SelectorService,
+} from '@daechanjo/playwright';
+
+import { CrawlCoupangDetailProductsProvider } from './crawlCoupangDetailProducts.provider';
+
+// 쿠팡 윙 상품 목록 페이지 스냅샷 (test/fixtures, 갱신: npm run fixtures:record -- --site coupang)
+const FIXTURE_DIR = path.resolve(__dirname, '../../../../test/fixtures');
+
+describe('CrawlCoupangDetailProductsProvider', () => {
+  let fixture: FixturePage;
+  const provider = new CrawlCoupangDetailProductsProvider(new SelectorService());
+
+  beforeAll(async () => {
+    fixture = await openFixturePage(FIXTURE_DIR);
+  }, 60000);
+
+  afterAll(async () => {
+    await fixture?.close();
+  });
+
+  it('상품 목록 행에서 등록상품 ID, 코드, 아이템위너, 가격, 배송비를 추출한다', async () => {
+    await fixture.page.goto(SELECTOR_REGISTRY.coupang.inventory.url!);
+
+    // 스크롤 / 대기 없이 추출 단계만 검증
+    const result = await provider['extractProductDetails'](fixture.page);
+
+    expect(result).toEqual([
+      {
+        sellerProductId: '1000000001',
+        productCode: 'CH0000001',
+        isWinner: true,
+        price: 12900,
+        shippingCost: 3000,
+      },
+      {
+        sellerProductId: '1000000002',
+        productCode: 'CH0000002',
+        isWinner: false,
+        price: 25000,
+        shippingCost: 0,
+      },
+    ]);
+    expect(fixture.server.missing).toEqual([]);
+  });
+});
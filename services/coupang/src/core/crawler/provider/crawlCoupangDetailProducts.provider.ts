@@ -1,4 +1,5 @@
 import { CoupangExtractDetail } from '@daechanjo/models';
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
@@ -12,7 +13,7 @@ import { Page } from 'playwright';
  */
 @Injectable()
 export class CrawlCoupangDetailProductsProvider {
-  constructor() {}
+  constructor(private readonly selectorService: SelectorService) {}
 
   /**
    * 특정 페이지의 상품 목록을 스크래핑하는 메서드
@@ -99,31 +100,42 @@ export class CrawlCoupangDetailProductsProvider {
    * @returns {Promise<any[]>} - 추출된 상품 정보 배열
    *
    * @description
-   * 페이지 내의 모든 상품 행('tr.inventory-line')에서 필요한 정보를 추출합니다.
+   * 페이지 내의 모든 상품 행(셀렉터 레지스트리의 coupang.inventory)에서 필요한 정보를 추출합니다.
    * DOM에서 상품 ID, 코드, 가격, 배송비, 아이템 위너 상태 등의 정보를 파싱합니다.
    */
   private async extractProductDetails(page: Page): Promise<CoupangExtractDetail[]> {
-    return page.evaluate(() => {
+    // evaluate 안에서는 레지스트리를 조회할 수 없으므로 CSS 셀렉터를 미리 결정하여 전달
+    const selectors = {
+      row: await this.selectorService.resolveCss(page, 'coupang.inventory.productRow'),
+      title: await this.selectorService.resolveCss(page, 'coupang.inventory.productTitle'),
+      sellerProductId: await this.selectorService.resolveCss(
+        page,
+        'coupang.inventory.sellerProductId',
+      ),
+      itemWinner: await this.selectorService.resolveCss(page, 'coupang.inventory.itemWinner'),
+      price: await this.selectorService.resolveCss(page, 'coupang.inventory.price'),
+      shippingCost: await this.selectorService.resolveCss(page, 'coupang.inventory.shippingCost'),
+    };
+
+    return page.evaluate((selectors) => {
       const getPrice = (text: string) => text?.replace(/[^0-9]/g, '') || null;
 
       // 모든 상품 행을 순회하며 데이터 추출
-      return Array.from(document.querySelectorAll('tr.inventory-line')).map((row) => {
-        const ipContentDiv = row.querySelector('.ip-right .ip-content div:nth-child(3)');
+      return Array.from(document.querySelectorAll(selectors.row)).map((row) => {
+        const ipContentDiv = row.querySelector(selectors.sellerProductId);
         const sellerProductId = ipContentDiv
           ? ipContentDiv.textContent.replace(/[^0-9]/g, '')
           : null;
 
         const productCode =
-          row.querySelector('.ip-title')?.textContent?.trim().split(' ')[0] || null;
+          row.querySelector(selectors.title)?.textContent?.trim().split(' ')[0] || null;
 
-        const isWinnerContainer = row.querySelector('.ies-container');
         const isWinnerText =
-          isWinnerContainer?.querySelector('.ies-top')?.textContent?.trim().replace(/\s/g, '') ||
-          '';
+          row.querySelector(selectors.itemWinner)?.textContent?.trim().replace(/\s/g, '') || '';
         const isWinner = isWinnerText === 'Itemwinner';
 
-        const priceText = row.querySelector('.isp-top')?.textContent || '';
-        const shippingText = row.querySelector('.isp-bottom')?.textContent || '';
+        const priceText = row.querySelector(selectors.price)?.textContent || '';
+        const shippingText = row.querySelector(selectors.shippingCost)?.textContent || '';
 
         return {
           sellerProductId,
@@ -133,6 +145,6 @@ export class CrawlCoupangDetailProductsProvider {
           shippingCost: shippingText ? parseInt(getPrice(shippingText)) : 0,
         };
       });
-    });
+    }, selectors);
   }
 }
@@ -1,3 +1,4 @@
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
@@ -11,6 +12,8 @@ import { Page } from 'playwright';
  */
 @Injectable()
 export class DeleteConfirmedCoupangProductProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
   /**
    * 비준수 상품 목록 페이지로 이동하고 페이지 로딩을 기다림
    *
@@ -39,7 +42,7 @@ export class DeleteConfirmedCoupangProductProvider {
    * @throws {Error} - 상품을 찾을 수 없는 경우 예외 발생
    *
    * @description
-   * 페이지에서 상품 행(tr.inventory-line)을 찾아 각 상품의 제목에서 상품 코드를 추출합니다.
+   * 페이지에서 상품 행(셀렉터 레지스트리의 coupang.inventory.productRow)을 찾아 각 상품의 제목에서 상품 코드를 추출합니다.
    * 상품 코드는 제목의 첫 번째 단어로 가정합니다.
    * 상품이 없는 경우 timeout 예외가 발생할 수 있으며, 이 경우 적절한 메시지를 출력합니다.
    */
@@ -51,18 +54,23 @@ export class DeleteConfirmedCoupangProductProvider {
     try {
       console.log(`${type}${cronId}: 컨펌 상품 확인중...`);
       // 상품 행이 로드될 때까지 대기
-      await page.waitForSelector('tr.inventory-line', { timeout: 6000 });
+      await this.selectorService.locate(page, 'coupang.inventory.productRow', { timeout: 6000 });
+
+      const selectors = {
+        row: await this.selectorService.resolveCss(page, 'coupang.inventory.productRow'),
+        title: await this.selectorService.resolveCss(page, 'coupang.inventory.productTitle'),
+      };
 
       // 페이지에서 상품 코드 추출
-      return page.evaluate(() => {
-        return Array.from(document.querySelectorAll('tr.inventory-line'))
+      return page.evaluate((selectors) => {
+        return Array.from(document.querySelectorAll(selectors.row))
           .map((row) => {
-            const titleElement = row.querySelector('.ip-title');
+            const titleElement = row.querySelector(selectors.title);
             const text = titleElement?.textContent?.trim();
             return text ? text.split(' ')[0] : null;
           })
           .filter((code): code is string => code !== null);
-      });
+      }, selectors);
     } catch (error: any) {
       console.log(
         `${type}${cronId}: 새로운 컨펌 상품이 없습니다\n`,
@@ -1,3 +1,4 @@
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page, ElementHandle } from 'playwright';
 
@@ -11,7 +12,7 @@ import { Page, ElementHandle } from 'playwright';
  */
 @Injectable()
 export class InvoiceUploaderProvider {
-  constructor() {}
+  constructor(private readonly selectorService: SelectorService) {}
 
   /**
    * 쿠팡 윙의 배송 관리 페이지로 이동
@@ -39,25 +40,22 @@ export class InvoiceUploaderProvider {
    * @throws {Error} - Processing 버튼을 찾을 수 없는 경우 예외 발생
    *
    * @description
-   * 페이지 내의 모든 span 요소 중 텍스트가 'Processing'인 요소를 찾아 클릭합니다.
+   * 셀렉터 레지스트리의 processingTab 후보(텍스트가 'Processing'인 span 등)를 순서대로 찾아 클릭합니다.
    * 페이지의 DOM 구조에 따라 유연하게 요소를 검색하여 UI 변경에도 대응할 수 있습니다.
    * 버튼을 찾지 못한 경우 명시적인 에러를 발생시켜 문제를 즉시 파악할 수 있게 합니다.
    */
   async clickProcessingButton(page: Page): Promise<void> {
-    const found = await page.evaluate(() => {
-      const elements = Array.from(document.querySelectorAll('span'));
-      const target = elements.find((el) => el.textContent === 'Processing');
-      if (target) {
-        (target as HTMLElement).click();
-        return true;
-      }
-      return false;
-    });
+    const target = await this.selectorService.query(
+      page,
+      'coupang.deliveryManagement.processingTab',
+    );
 
-    if (!found) {
+    if (!target) {
       throw new Error('Processing 버튼을 찾을 수 없습니다.');
     }
 
+    await target.evaluate((el) => (el as HTMLElement).click());
+
     await this.delay(1000);
   }
 
@@ -166,7 +164,7 @@ export class InvoiceUploaderProvider {
    * @returns {Promise<ElementHandle | null>} - 일치하는 행의 ElementHandle 또는 찾지 못한 경우 null
    *
    * @description
-   * 페이지 내의 '#tableContext tr' 선택자로 모든 테이블 행을 찾아,
+   * 셀렉터 레지스트리의 주문 행 선택자('#tableContext tr' 등)로 모든 테이블 행을 찾아,
    * 그 중 지정된 수취인 이름과 안심번호를 모두 포함하는 행을 찾습니다.
    * 브라우저 컨텍스트에서 실행되는 자바스크립트 로직을 evaluateHandle을 통해 구현하여,
    * DOM 탐색을 효율적으로 수행합니다.
@@ -176,15 +174,19 @@ export class InvoiceUploaderProvider {
     name: string,
     safeNumber: string,
   ): Promise<ElementHandle | null> {
+    const rowSelector = await this.selectorService.resolveCss(
+      page,
+      'coupang.deliveryManagement.orderRow',
+    );
     const matchingRowHandle = await page.evaluateHandle(
-      ({ name, safeNumber }) => {
-        const rows = Array.from(document.querySelectorAll('#tableContext tr'));
+      ({ name, safeNumber, rowSelector }) => {
+        const rows = Array.from(document.querySelectorAll(rowSelector));
         return rows.find((row) => {
           const rowText = (row as HTMLElement).textContent || '';
           return rowText.includes(name) && rowText.includes(safeNumber);
         });
       },
-      { name, safeNumber },
+      { name, safeNumber, rowSelector },
     );
 
     return matchingRowHandle ? matchingRowHandle.asElement() : null;
@@ -202,7 +204,10 @@ export class InvoiceUploaderProvider {
    * 이는 UI에서 기술적으로 비활성화된 체크박스에 대한 우회 방법을 제공합니다.
    */
   private async selectCheckbox(row: ElementHandle): Promise<void> {
-    const checkbox = await row.$('input[type="checkbox"]');
+    const checkbox = await this.selectorService.query(
+      row,
+      'coupang.deliveryManagement.rowCheckbox',
+    );
     if (checkbox) {
       const isDisabled = await checkbox.isDisabled();
       if (isDisabled) {
@@ -229,7 +234,10 @@ export class InvoiceUploaderProvider {
    * 쿠팡 윙의 UI 업데이트 로직이 정상적으로 작동하도록 합니다.
    */
   private async selectCourier(row: ElementHandle, courier: string): Promise<void> {
-    const dropdown = await row.$('select');
+    const dropdown = await this.selectorService.query(
+      row,
+      'coupang.deliveryManagement.rowCourierSelect',
+    );
     if (dropdown) {
       await dropdown.evaluate((dropdownElement: any, courier: any) => {
         const options = Array.from(dropdownElement.options);
@@ -257,10 +265,16 @@ export class InvoiceUploaderProvider {
    * 데이터 입력 후 일정 시간(1초) 대기하여 UI가 안정화되도록 합니다.
    */
   private async enterTrackingNumber(row: ElementHandle, trackingNumber: string): Promise<void> {
-    const editIcon = await row.$('i[data-wuic-props*="name:ico icon:edit"]');
+    const editIcon = await this.selectorService.query(
+      row,
+      'coupang.deliveryManagement.rowTrackingEditIcon',
+    );
     if (editIcon) {
       await editIcon.click();
-      const trackingInput = await row.$('div[deliverytrackingmodal] input[type="text"]');
+      const trackingInput = await this.selectorService.query(
+        row,
+        'coupang.deliveryManagement.rowTrackingInput',
+      );
       if (trackingInput) {
         await trackingInput.fill(trackingNumber);
       }
@@ -282,17 +296,17 @@ export class InvoiceUploaderProvider {
    * 버튼이 나타날 때까지 최대 5초간 대기하며, 시간 내에 나타나지 않으면 작업이 실패합니다.
    */
   private async applyChangesAndReload(page: Page, result: any): Promise<void> {
-    const applyButton = await page.waitForSelector(
-      'button[data-wuic-props*="name:btn type:primary"]',
-      { state: 'visible', timeout: 5000 },
-    );
+    const applyButton = (
+      await this.selectorService.locate(page, 'coupang.deliveryManagement.applyButton', {
+        timeout: 5000,
+      })
+    ).first();
+    await applyButton.waitFor({ state: 'visible', timeout: 5000 });
 
-    if (applyButton) {
-      await applyButton.click();
-      result.status = 'success';
-      await this.delay(1000);
-      await page.reload({ waitUntil: 'domcontentloaded' });
-    }
+    await applyButton.click();
+    result.status = 'success';
+    await this.delay(1000);
+    await page.reload({ waitUntil: 'domcontentloaded' });
   }
 
   /**
@@ -322,7 +336,9 @@ export class InvoiceUploaderProvider {
     if (nextPage) {
       console.log(`${type}${cronId}: 다음 페이지로 이동: ${currentPage + 1}`);
       await nextPage.click();
-      await page.waitForSelector('#tableContext', { timeout: 5000 });
+      await this.selectorService.locate(page, 'coupang.deliveryManagement.orderTable', {
+        timeout: 5000,
+      });
       await this.delay(1000);
       return true;
     }
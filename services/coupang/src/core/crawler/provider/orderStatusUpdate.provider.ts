@@ -1,10 +1,11 @@
 import { CronType } from '@daechanjo/models';
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
 @Injectable()
 export class OrderStatusUpdateProvider {
-  constructor() {}
+  constructor(private readonly selectorService: SelectorService) {}
 
   /**
    * 쿠팡 윙에서 주문 상태를 업데이트하는 메서드
@@ -73,14 +74,13 @@ export class OrderStatusUpdateProvider {
    * @returns - 체크박스 요소의 배열
    */
   private async findCompletedOrderCheckboxes(page: Page, cronId: string, type: string) {
-    const checkboxSelector =
-      '.search-table tbody span[data-wuic-props="name:check"] input[type="checkbox"]';
+    const checkboxKey = 'coupang.deliveryManagement.completedOrderCheckbox';
 
-    await page
-      .waitForSelector(checkboxSelector, { state: 'attached', timeout: 10000 })
+    await this.selectorService
+      .locate(page, checkboxKey, { timeout: 10000 })
       .catch(() => console.log(`${type}${cronId}: 체크박스 요소를 찾을 수 없습니다.`));
 
-    return await page.$$(checkboxSelector);
+    return await this.selectorService.queryAll(page, checkboxKey);
   }
 
   /**
@@ -113,9 +113,12 @@ export class OrderStatusUpdateProvider {
    */
   private async confirmOrderAndFillForm(page: Page): Promise<void> {
     // 주문 확인 버튼 클릭
-    const confirmOrderButtonSelector = '#confirmOrder';
-    await page.waitForSelector(confirmOrderButtonSelector, { state: 'visible' });
-    await page.click(confirmOrderButtonSelector);
+    const confirmOrderButton = await this.selectorService.locate(
+      page,
+      'coupang.deliveryManagement.confirmOrderButton',
+      { timeout: 30000 },
+    );
+    await confirmOrderButton.first().click();
 
     // 페이지 로딩 대기
     await page.waitForLoadState('networkidle');
@@ -136,9 +139,12 @@ export class OrderStatusUpdateProvider {
    * @param page - Playwright의 Page 객체
    */
   private async selectCourierCompany(page: Page): Promise<void> {
-    const selectSelector = 'select[data-v-305197cb]';
-    await page.waitForSelector(selectSelector, { state: 'visible' });
-    await page.selectOption(selectSelector, 'CJGLS'); // CJ 대한통운 선택
+    const courierSelect = await this.selectorService.locate(
+      page,
+      'coupang.deliveryManagement.courierSelect',
+      { timeout: 30000 },
+    );
+    await courierSelect.first().selectOption('CJGLS'); // CJ 대한통운 선택
   }
 
   /**
@@ -147,9 +153,12 @@ export class OrderStatusUpdateProvider {
    * @param page - Playwright의 Page 객체
    */
   private async enterDetailReason(page: Page): Promise<void> {
-    const textareaSelector = 'textarea[placeholder="Enter reason in detail"]';
-    await page.waitForSelector(textareaSelector, { state: 'visible' });
-    await page.fill(textareaSelector, '상품을 준비합니다');
+    const textarea = await this.selectorService.locate(
+      page,
+      'coupang.deliveryManagement.detailReasonTextarea',
+      { timeout: 30000 },
+    );
+    await textarea.first().fill('상품을 준비합니다');
   }
 
   /**
@@ -158,8 +167,10 @@ export class OrderStatusUpdateProvider {
    * @param page - Playwright의 Page 객체
    */
   private async clickDownloadButton(page: Page): Promise<void> {
-    const downloadButtonSelector =
-      'button#submitConfirm[style="float: right; margin: 0px 0px 0px 8px; padding: 6px 16px 8px;"][data-wuic-props*="icon-name:download"]';
+    const downloadButtonSelector = await this.selectorService.resolveCss(
+      page,
+      'coupang.deliveryManagement.downloadButton',
+    );
 
     await page.evaluate((downloadButtonSelector) => {
       const button = document.querySelector(downloadButtonSelector) as HTMLElement;
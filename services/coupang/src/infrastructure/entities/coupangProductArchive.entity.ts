@@ -0,0 +1,48 @@
+import { CoupangProduct } from '@daechanjo/models';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 삭제한 쿠팡 상품의 보관 기록
+ * 삭제 직전의 상품 상세(getProductDetail) 전체를 보관하여 restoreProduct 로 다시 등록할 수 있습니다.
+ */
+@Entity({ name: 'coupang_product_archive' })
+export class CoupangProductArchiveEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'seller_product_id', type: 'varchar', length: 255 })
+  sellerProductId: string;
+
+  @Column({ name: 'seller_product_name', type: 'varchar', length: 255, nullable: true })
+  sellerProductName: string;
+
+  /** 상품명의 온채널 상품 코드 (CH0000000) */
+  @Index()
+  @Column({ name: 'product_code', type: 'varchar', length: 255, nullable: true })
+  productCode: string;
+
+  /** 삭제한 작업 유형 (품절, 컨펌 등) */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  type: string;
+
+  @Column({ name: 'cron_id', type: 'varchar', length: 255, nullable: true })
+  cronId: string;
+
+  /** 삭제를 실행한 크론 흐름의 추적 ID (로그 / 감사 기록과 연결) */
+  @Index()
+  @Column({ name: 'correlation_id', type: 'varchar', length: 255, nullable: true })
+  correlationId: string;
+
+  @Column({ type: 'jsonb' })
+  detail: CoupangProduct;
+
+  /** 복원 시 새로 발급된 판매자 상품 ID */
+  @Column({ name: 'restored_seller_product_id', type: 'varchar', length: 255, nullable: true })
+  restoredSellerProductId: string;
+
+  @Column({ name: 'restored_at', type: 'timestamp', nullable: true })
+  restoredAt: Date;
+
+  @CreateDateColumn({ name: 'archived_at' })
+  archivedAt: Date;
+}
@@ -1,12 +1,16 @@
+import { getTraceContext } from '@daechanjo/rabbitmq';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 
 import { CoupangProductEntity } from '../entities/coupangProduct.entity';
+import { CoupangProductArchiveEntity } from '../entities/coupangProductArchive.entity';
 
 export class CoupangRepository {
   constructor(
     @InjectRepository(CoupangProductEntity)
     private readonly coupangRepository: Repository<CoupangProductEntity>,
+    @InjectRepository(CoupangProductArchiveEntity)
+    private readonly archiveRepository: Repository<CoupangProductArchiveEntity>,
   ) {}
 
   async saveCoupangProductDetails(details: Partial<CoupangProductEntity>[]) {
@@ -20,4 +24,31 @@ export class CoupangRepository {
   async clearCoupangProducts() {
     return await this.coupangRepository.delete({});
   }
+
+  // 현재 추적 정보의 correlationId 를 함께 기록 (없으면 cronId)
+  async saveProductArchive(archive: Partial<CoupangProductArchiveEntity>) {
+    return await this.archiveRepository.save({
+      correlationId: getTraceContext()?.correlationId ?? archive.cronId,
+      ...archive,
+    });
+  }
+
+  async removeProductArchive(id: number) {
+    return await this.archiveRepository.delete({ id });
+  }
+
+  // 아직 복원하지 않은 가장 최근 보관 기록
+  async getLatestProductArchive(productCode: string) {
+    return await this.archiveRepository.findOne({
+      where: { productCode, restoredAt: IsNull() },
+      order: { archivedAt: 'DESC' },
+    });
+  }
+
+  async markProductArchiveRestored(id: number, restoredSellerProductId: number) {
+    return await this.archiveRepository.update(
+      { id },
+      { restoredSellerProductId: String(restoredSellerProductId), restoredAt: new Date() },
+    );
+  }
 }
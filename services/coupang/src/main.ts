@@ -1,8 +1,9 @@
 import * as process from 'node:process';
 
 import { setupGlobalConsoleLogging } from '@daechanjo/log';
+import { createRabbitMQMicroserviceOptions, setupTraceLogPrefix } from '@daechanjo/rabbitmq';
 import { NestFactory } from '@nestjs/core';
-import { MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { MicroserviceOptions } from '@nestjs/microservices';
 import * as dotenv from 'dotenv';
 import { initializeTransactionalContext } from 'typeorm-transactional';
 
@@ -15,15 +16,12 @@ dotenv.config({
 async function bootstrap() {
   initializeTransactionalContext();
   setupGlobalConsoleLogging();
+  setupTraceLogPrefix();
 
-  const app = await NestFactory.createMicroservice<MicroserviceOptions>(AppModule, {
-    transport: Transport.RMQ,
-    options: {
-      urls: [String(process.env.RABBITMQ_URL)],
-      queue: 'coupang-queue',
-      queueOptions: { durable: false },
-    },
-  });
+  const app = await NestFactory.createMicroservice<MicroserviceOptions>(
+    AppModule,
+    createRabbitMQMicroserviceOptions('coupang-queue', String(process.env.RABBITMQ_URL)),
+  );
 
   await app.listen();
   console.log('쿠팡 서비스 시작');
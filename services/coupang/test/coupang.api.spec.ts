@@ -0,0 +1,150 @@
+import { CoupangProductRequest } from '@daechanjo/rabbitmq';
+
+import { CoupangApiService } from '../src/core/coupang.api.service';
+import { CoupangAuthError, CoupangHttpClient } from '../src/core/coupang.http.client';
+import { CoupangSignatureService } from '../src/core/coupang.signature.service';
+import {
+  CoupangMockCredential,
+  CoupangMockServer,
+  createCoupangMockServer,
+  DEFAULT_MOCK_CREDENTIAL,
+} from './mock/coupang.mock.server';
+
+/**
+ * 쿠팡 목 API 서버를 띄우고 COUPANG_API_BASE_URL 로 연결하여
+ * 서명 → 전송 → 응답 변환까지 API 계층 전체를 오프라인으로 검증합니다.
+ */
+describe('CoupangApiService (목 API 서버)', () => {
+  let mock: CoupangMockServer;
+  let baseUrl: string;
+
+  const createApiService = (credential: CoupangMockCredential = DEFAULT_MOCK_CREDENTIAL) => {
+    const env: Record<string, string> = {
+      STORE: 'test-store',
+      COUPANG_API_BASE_URL: baseUrl,
+      COUPANG_API_RETRY_DELAY_MS: '1',
+      COUPANG_API_RATE_LIMIT: '1000',
+    };
+    const configService = { get: (key: string) => env[key] };
+    const credentialService = { getCredential: jest.fn().mockResolvedValue(credential) };
+
+    const signatureService = new CoupangSignatureService(
+      configService as any,
+      credentialService as any,
+    );
+    const httpClient = new CoupangHttpClient(configService as any, signatureService);
+    return new CoupangApiService(httpClient, signatureService);
+  };
+
+  beforeEach(async () => {
+    mock = createCoupangMockServer();
+    baseUrl = await mock.listen();
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  it('nextToken 으로 모든 페이지의 상품을 조회한다', async () => {
+    const products = await createApiService().getProductListPaging('cron-1', 'TEST');
+
+    expect(products).toHaveLength(250);
+    expect(mock.state.requests.filter((request) => request.method === 'GET')).toHaveLength(3);
+  });
+
+  it('판매 중지 후 삭제한다', async () => {
+    const apiService = createApiService();
+    const [product] = mock.state.products;
+
+    await apiService.putStopSellingItem('cron-1', 'TEST', product.items[0].vendorItemId);
+    await apiService.deleteProduct(product);
+
+    expect(mock.state.products.map((p) => p.sellerProductId)).not.toContain(
+      product.sellerProductId,
+    );
+  });
+
+  it('상품 등록 시 vendorId 를 채워 sellerProductId 를 반환한다', async () => {
+    const product: CoupangProductRequest = {
+      displayCategoryCode: 56137,
+      sellerProductName: 'CH9999999 신규 상품',
+      saleStartedAt: '2025-01-01T00:00:00',
+      saleEndedAt: '2099-01-01T23:59:59',
+      deliveryMethod: 'SEQUENCIAL',
+      deliveryCompanyCode: 'CJGLS',
+      deliveryChargeType: 'NOT_FREE',
+      deliveryCharge: 3000,
+      freeShipOverAmount: 0,
+      deliveryChargeOnReturn: 3000,
+      returnCenterCode: 'RC0000',
+      returnCharge: 5000,
+      outboundShippingPlaceCode: 100000,
+      vendorUserId: 'test-user',
+      requested: false,
+      items: [
+        {
+          itemName: '단일상품',
+          originalPrice: 20000,
+          salePrice: 15000,
+          maximumBuyCount: 100,
+          maximumBuyForPerson: 0,
+          maximumBuyForPersonPeriod: 1,
+          outboundShippingTimeDay: 2,
+          images: [],
+          notices: [],
+          attributes: [],
+          contents: [],
+        },
+      ],
+    };
+
+    const sellerProductId = await createApiService().createProduct('cron-1', 'TEST', product);
+
+    expect(sellerProductId).toBe(10000250);
+    expect(mock.state.requests.at(-1)).toMatchObject({
+      method: 'POST',
+      status: 200,
+      body: expect.objectContaining({ vendorId: DEFAULT_MOCK_CREDENTIAL.vendorId }),
+    });
+  });
+
+  it('출고중지 요청을 조회하고 승인한다', async () => {
+    const apiService = createApiService();
+    const today = new Date().toISOString().slice(0, 10);
+
+    const [request] = await apiService.getCancelRequests(
+      'cron-1',
+      'TEST',
+      DEFAULT_MOCK_CREDENTIAL.vendorId,
+      today,
+      today,
+    );
+    await apiService.approveCancelRequest(
+      DEFAULT_MOCK_CREDENTIAL.vendorId,
+      request.receiptId,
+      request.cancelCountSum,
+    );
+
+    expect(mock.state.returnRequests[0].receiptStatus).toBe('RETURNS_COMPLETED');
+  });
+
+  it('지정한 배송번호만 상품준비중으로 변경한다', async () => {
+    const [first, second] = mock.state.orders;
+
+    await createApiService().acknowledgeOrders('cron-1', 'TEST', DEFAULT_MOCK_CREDENTIAL.vendorId, [
+      first.shipmentBoxId,
+    ]);
+
+    expect(first.status).toBe('INSTRUCT');
+    expect(second.status).toBe('ACCEPT');
+  });
+
+  it('서명이 맞지 않으면 재시도하지 않고 CoupangAuthError 를 던진다', async () => {
+    const apiService = createApiService({ ...DEFAULT_MOCK_CREDENTIAL, secretKey: 'wrong-key' });
+
+    await expect(apiService.getProductDetail('cron-1', 'TEST', 10000000)).rejects.toBeInstanceOf(
+      CoupangAuthError,
+    );
+    expect(mock.state.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,795 @@
+import crypto from 'crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * 목 서버가 서명을 검증할 때 사용하는 쿠팡 Open API 키
+ */
+export interface CoupangMockCredential {
+  accessKey: string;
+  secretKey: string;
+  vendorId: string;
+}
+
+export interface CoupangMockItem {
+  vendorItemId: number;
+  itemName: string;
+  originalPrice: number;
+  salePrice: number;
+  maximumBuyCount: number;
+  onSale: boolean;
+}
+
+export interface CoupangMockProduct {
+  sellerProductId: number;
+  sellerProductName: string;
+  displayCategoryCode: number;
+  brand: string;
+  /** 목록 조회의 status 파라미터와 비교하는 상태 코드 (APPROVED 등) */
+  status: string;
+  statusName: string;
+  deliveryCharge: number;
+  returnCharge: number;
+  createdAt: string;
+  items: CoupangMockItem[];
+  [field: string]: any;
+}
+
+export interface CoupangMockOrder {
+  shipmentBoxId: number;
+  orderId: number;
+  orderedAt: string;
+  status: string;
+  orderer: { name: string; safeNumber: string };
+  receiver: { name: string; safeNumber: string; addr1: string; addr2: string; postCode: string };
+  orderItems: {
+    vendorItemId: number;
+    vendorItemName: string;
+    shippingCount: number;
+    sellerProductId: number;
+    sellerProductName: string;
+    sellerProductItemName: string;
+  }[];
+  parcelPrintMessage?: string;
+  [field: string]: any;
+}
+
+/**
+ * 취소 / 반품 접수 (receiptType: CANCEL, RETURN)
+ */
+export interface CoupangMockReturnRequest {
+  receiptId: number;
+  orderId: number;
+  receiptType: 'CANCEL' | 'RETURN';
+  receiptStatus: string;
+  createdAt: string;
+  cancelCountSum: number;
+  returnItems: { vendorItemId: number; shipmentBoxId: number; cancelCount: number }[];
+  [field: string]: any;
+}
+
+export interface CoupangMockExchangeRequest {
+  exchangeId: number;
+  orderId: number;
+  exchangeStatus: string;
+  createdAt: string;
+  [field: string]: any;
+}
+
+/**
+ * 목 서버가 받은 요청 기록 (테스트 검증용)
+ */
+export interface CoupangMockRequest {
+  method: string;
+  path: string;
+  query: string;
+  status: number;
+  body?: any;
+}
+
+export interface CoupangMockState {
+  products: CoupangMockProduct[];
+  orders: CoupangMockOrder[];
+  returnRequests: CoupangMockReturnRequest[];
+  exchangeRequests: CoupangMockExchangeRequest[];
+  requests: CoupangMockRequest[];
+}
+
+export interface CoupangMockServerOptions {
+  credential?: CoupangMockCredential;
+  products?: CoupangMockProduct[];
+  orders?: CoupangMockOrder[];
+  returnRequests?: CoupangMockReturnRequest[];
+  exchangeRequests?: CoupangMockExchangeRequest[];
+  /** 서명 일시 허용 오차 (ms, 기본값 5분) */
+  signatureTolerance?: number;
+}
+
+export interface CoupangMockServer {
+  server: http.Server;
+  state: CoupangMockState;
+  /** 서버를 시작하고 COUPANG_API_BASE_URL 로 사용할 주소를 반환 (port 생략 시 임의 포트) */
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  state: CoupangMockState;
+  credential: CoupangMockCredential;
+}
+
+interface RouteResult {
+  status: number;
+  body: any;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle(context: RouteContext): RouteResult;
+}
+
+const SELLER_PRODUCTS_PATH = '/v2/providers/seller_api/apis/api/v1/marketplace/seller-products';
+const VENDOR_ITEMS_PATH = '/v2/providers/seller_api/apis/api/v1/marketplace/vendor-items';
+const VENDORS_PATH = '/v2/providers/openapi/apis/api/v4/vendors/([^/]+)';
+
+// returnRequests 조회의 status 파라미터 → receiptStatus
+const RETURN_STATUS_CODES: Record<string, string> = {
+  RU: 'RELEASE_STOP_UNCHECKED',
+  UC: 'RETURNS_UNCHECKED',
+  CC: 'RETURNS_COMPLETED',
+  PR: 'REQUEST_COUPANG_CHECK',
+};
+
+export const DEFAULT_MOCK_CREDENTIAL: CoupangMockCredential = {
+  accessKey: 'mock-access-key',
+  secretKey: 'mock-secret-key',
+  vendorId: 'A00000000',
+};
+
+/**
+ * CEA 서명 일시(yyMMddTHHmmssZ)를 Date 로 변환합니다.
+ */
+function parseSignedDate(signedDate: string): Date | null {
+  const match = signedDate.match(/^(\d{2})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+
+  const [, yy, MM, dd, HH, mm, ss] = match.map(Number);
+  return new Date(Date.UTC(2000 + yy, MM - 1, dd, HH, mm, ss));
+}
+
+/**
+ * CoupangSignatureService 가 생성한 CEA HMAC Authorization 헤더를 검증합니다.
+ *
+ * @param authorization - Authorization 헤더 값
+ * @param method - 요청 메서드
+ * @param path - 쿼리를 제외한 요청 경로
+ * @param query - "?" 를 제외한 원본 쿼리 문자열 (쿠팡과 같이 실제 전송된 쿼리로 서명을 계산)
+ * @param credential - 서명에 사용된 키
+ * @param tolerance - 서명 일시 허용 오차 (ms)
+ * @returns 검증 실패 사유 또는 성공 시 null
+ *
+ * @description
+ * 1. "CEA algorithm=HmacSHA256, access-key=..., signed-date=..., signature=..." 형식 확인
+ * 2. access-key 일치 여부 확인
+ * 3. signed-date 가 허용 오차 안에 있는지 확인
+ * 4. signed-date + method + path + query 의 HmacSHA256 값과 signature 비교
+ */
+export function verifyCeaAuthorization(
+  authorization: string | undefined,
+  method: string,
+  path: string,
+  query: string,
+  credential: CoupangMockCredential,
+  tolerance: number = 5 * 60 * 1000,
+): string | null {
+  if (!authorization?.startsWith('CEA ')) return 'Authorization 헤더가 CEA 형식이 아닙니다.';
+
+  const fields = Object.fromEntries(
+    authorization
+      .slice(4)
+      .split(',')
+      .map((field) => field.trim().split('='))
+      .map(([key, ...value]) => [key, value.join('=')]),
+  );
+
+  if (fields['algorithm'] !== 'HmacSHA256') return `지원하지 않는 알고리즘: ${fields['algorithm']}`;
+  if (fields['access-key'] !== credential.accessKey) return 'access-key 가 일치하지 않습니다.';
+
+  const signedAt = parseSignedDate(fields['signed-date'] ?? '');
+  if (!signedAt) return `signed-date 형식 오류: ${fields['signed-date']}`;
+  if (Math.abs(Date.now() - signedAt.getTime()) > tolerance)
+    return 'signed-date 가 만료되었습니다.';
+
+  const expected = crypto
+    .createHmac('sha256', credential.secretKey)
+    .update(fields['signed-date'] + method + path + query)
+    .digest('hex');
+  const signature = String(fields['signature'] ?? '');
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return `서명이 일치하지 않습니다. (message: ${fields['signed-date']}${method}${path}${query})`;
+  }
+
+  return null;
+}
+
+/**
+ * nextToken 방식 페이징 (nextToken 은 다음 페이지 시작 위치, 마지막 페이지면 빈 문자열)
+ */
+function paginate<T>(items: T[], query: URLSearchParams, defaultSize: number) {
+  const start = Number(query.get('nextToken') || 0);
+  const size = Number(query.get('maxPerPage') || defaultSize);
+  const end = start + size;
+
+  return {
+    data: items.slice(start, end),
+    nextToken: end < items.length ? String(end) : '',
+  };
+}
+
+const success = (data: any, extra: Record<string, any> = {}): RouteResult => ({
+  status: 200,
+  body: { code: 'SUCCESS', message: '', data, ...extra },
+});
+
+const failure = (status: number, message: string): RouteResult => ({
+  status,
+  body: { code: 'ERROR', message },
+});
+
+function findReturnRequest(state: CoupangMockState, receiptId: number) {
+  return state.returnRequests.find((request) => request.receiptId === receiptId);
+}
+
+// 상품 등록 / 전체 수정 요청 본문 검증 (필수 항목만 확인)
+function validateProductBody(body: any, credential: CoupangMockCredential): string | undefined {
+  if (body?.vendorId !== credential.vendorId) return 'vendorId 불일치';
+  for (const field of ['displayCategoryCode', 'sellerProductName', 'vendorUserId']) {
+    if (!body[field]) return `${field} 는 필수입니다.`;
+  }
+  if (!Array.isArray(body.items) || body.items.length === 0) return 'items 는 필수입니다.';
+  if (body.items.some((item: any) => Number(item.salePrice) % 10 !== 0))
+    return '판매가는 10원 단위로 입력해야 합니다.';
+  return undefined;
+}
+
+// 등록 / 수정 요청 본문을 목 상품으로 변환 (vendorItemId 가 없는 옵션은 새로 발급)
+function toMockProduct(
+  state: CoupangMockState,
+  body: any,
+  sellerProductId: number,
+): CoupangMockProduct {
+  let nextVendorItemId =
+    Math.max(70000000, ...state.products.flatMap((p) => p.items.map((i) => i.vendorItemId))) + 1;
+
+  return {
+    ...body,
+    sellerProductId,
+    brand: body.brand ?? '기타',
+    status: 'APPROVED',
+    statusName: body.requested ? '승인완료' : '임시저장',
+    createdAt: new Date().toISOString(),
+    items: body.items.map((item: any) => ({
+      ...item,
+      vendorItemId: item.vendorItemId ?? nextVendorItemId++,
+      onSale: true,
+    })),
+  };
+}
+
+function findItem(state: CoupangMockState, vendorItemId: number) {
+  for (const product of state.products) {
+    const item = product.items.find((candidate) => candidate.vendorItemId === vendorItemId);
+    if (item) return item;
+  }
+  return undefined;
+}
+
+const ROUTES: Route[] = [
+  // 등록 상품 목록 페이징 조회
+  {
+    method: 'GET',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}$`),
+    handle: ({ query, state, credential }) => {
+      if (query.get('vendorId') !== credential.vendorId) return failure(403, 'vendorId 불일치');
+
+      const status = query.get('status');
+      const products = state.products
+        .filter((product) => !status || product.status === status)
+        .map(({ items: _items, ...summary }) => ({ ...summary, vendorId: credential.vendorId }));
+      const { data, nextToken } = paginate(products, query, 100);
+
+      return success(data, { nextToken });
+    },
+  },
+  // 상품 등록
+  {
+    method: 'POST',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}$`),
+    handle: ({ body, state, credential }) => {
+      const error = validateProductBody(body, credential);
+      if (error) return failure(400, error);
+
+      const sellerProductId =
+        Math.max(10000000, ...state.products.map((p) => p.sellerProductId)) + 1;
+      state.products.push(toMockProduct(state, body, sellerProductId));
+      return success(sellerProductId);
+    },
+  },
+  // 상품 전체 수정
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}$`),
+    handle: ({ body, state, credential }) => {
+      const error = validateProductBody(body, credential);
+      if (error) return failure(400, error);
+
+      const index = state.products.findIndex(
+        (p) => p.sellerProductId === Number(body.sellerProductId),
+      );
+      if (index === -1) return failure(404, `상품을 찾을 수 없습니다: ${body.sellerProductId}`);
+
+      state.products[index] = toMockProduct(state, body, state.products[index].sellerProductId);
+      return success(state.products[index].sellerProductId);
+    },
+  },
+  // 등록 상품 상세 조회
+  {
+    method: 'GET',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}/(\\d+)$`),
+    handle: ({ params, state, credential }) => {
+      const product = state.products.find((p) => p.sellerProductId === Number(params[0]));
+      if (!product) return failure(404, `상품을 찾을 수 없습니다: ${params[0]}`);
+
+      return success({ ...product, vendorId: credential.vendorId });
+    },
+  },
+  // 상품 삭제
+  {
+    method: 'DELETE',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}/(\\d+)$`),
+    handle: ({ params, state }) => {
+      const index = state.products.findIndex((p) => p.sellerProductId === Number(params[0]));
+      if (index === -1) return failure(404, `상품을 찾을 수 없습니다: ${params[0]}`);
+
+      const product = state.products[index];
+      if (product.items.some((item) => item.onSale)) {
+        return failure(400, '판매중인 옵션이 있어 삭제할 수 없습니다. 판매 중지 후 삭제하세요.');
+      }
+
+      state.products.splice(index, 1);
+      return success(product.sellerProductId);
+    },
+  },
+  // 상품 부분 수정
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${SELLER_PRODUCTS_PATH}/(\\d+)/partial$`),
+    handle: ({ params, body, state }) => {
+      const product = state.products.find((p) => p.sellerProductId === Number(params[0]));
+      if (!product) return failure(404, `상품을 찾을 수 없습니다: ${params[0]}`);
+      if (
+        body?.sellerProductId !== undefined &&
+        Number(body.sellerProductId) !== product.sellerProductId
+      ) {
+        return failure(400, 'sellerProductId 불일치');
+      }
+
+      const { sellerProductId: _sellerProductId, items: _items, ...changes } = body ?? {};
+      Object.assign(product, changes);
+      return success(product.sellerProductId);
+    },
+  },
+  // 옵션 판매 중지
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDOR_ITEMS_PATH}/(\\d+)/sales/stop$`),
+    handle: ({ params, state }) => {
+      const item = findItem(state, Number(params[0]));
+      if (!item) return failure(404, `옵션을 찾을 수 없습니다: ${params[0]}`);
+
+      item.onSale = false;
+      return success(null);
+    },
+  },
+  // 옵션 판매 재개
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDOR_ITEMS_PATH}/(\\d+)/sales/resume$`),
+    handle: ({ params, state }) => {
+      const item = findItem(state, Number(params[0]));
+      if (!item) return failure(404, `옵션을 찾을 수 없습니다: ${params[0]}`);
+
+      item.onSale = true;
+      return success(null);
+    },
+  },
+  // 옵션 재고 변경
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDOR_ITEMS_PATH}/(\\d+)/quantities/(\\d+)$`),
+    handle: ({ params, state }) => {
+      const item = findItem(state, Number(params[0]));
+      if (!item) return failure(404, `옵션을 찾을 수 없습니다: ${params[0]}`);
+
+      item.maximumBuyCount = Number(params[1]);
+      return success(null);
+    },
+  },
+  // 카테고리 메타 정보 조회
+  {
+    method: 'GET',
+    pattern:
+      /^\/v2\/providers\/seller_api\/apis\/api\/v1\/marketplace\/meta\/category-related-metas\/display-category-codes\/(\d+)$/,
+    handle: () =>
+      success({
+        isAllowSingleItem: true,
+        attributes: [
+          {
+            attributeTypeName: '수량',
+            dataType: 'NUMBER',
+            required: 'MANDATORY',
+            basicUnit: '개',
+            exposed: 'EXPOSED',
+          },
+        ],
+        noticeCategories: [
+          {
+            noticeCategoryName: '기타 재화',
+            noticeCategoryDetailNames: [
+              { noticeCategoryDetailName: '품명 및 모델명', required: 'MANDATORY' },
+              { noticeCategoryDetailName: '제조자(수입자)', required: 'MANDATORY' },
+            ],
+          },
+        ],
+        requiredDocumentNames: [],
+        certifications: [],
+      }),
+  },
+  // 옵션 가격 변경
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDOR_ITEMS_PATH}/(\\d+)/prices/(\\d+)$`),
+    handle: ({ params, state }) => {
+      const item = findItem(state, Number(params[0]));
+      if (!item) return failure(404, `옵션을 찾을 수 없습니다: ${params[0]}`);
+
+      const price = Number(params[1]);
+      if (price % 10 !== 0) return failure(400, '판매가는 10원 단위로 입력해야 합니다.');
+
+      item.salePrice = price;
+      return success(null);
+    },
+  },
+  // 발주서 목록 조회
+  {
+    method: 'GET',
+    pattern: /^\/v2\/providers\/openapi\/apis\/api\/v4\/vendors\/([^/]+)\/ordersheets$/,
+    handle: ({ params, query, state, credential }) => {
+      if (params[0] !== credential.vendorId) return failure(403, 'vendorId 불일치');
+
+      const status = query.get('status');
+      const from = query.get('createdAtFrom');
+      const to = query.get('createdAtTo');
+      if (!status || !from || !to)
+        return failure(400, 'status, createdAtFrom, createdAtTo 는 필수입니다.');
+
+      const orders = state.orders.filter((order) => {
+        const orderedDate = order.orderedAt.slice(0, 10);
+        return order.status === status && orderedDate >= from && orderedDate <= to;
+      });
+      const { data, nextToken } = paginate(orders, query, 50);
+
+      return success(data, { nextToken });
+    },
+  },
+  // 발주 확인 (상품준비중 처리)
+  {
+    method: 'PATCH',
+    pattern: new RegExp(`^${VENDORS_PATH}/ordersheets/acknowledgement$`),
+    handle: ({ params, body, state, credential }) => {
+      if (params[0] !== credential.vendorId) return failure(403, 'vendorId 불일치');
+
+      const shipmentBoxIds: number[] = body?.shipmentBoxIds ?? [];
+      if (shipmentBoxIds.length === 0 || shipmentBoxIds.length > 50)
+        return failure(400, 'shipmentBoxIds 는 1 ~ 50 건이어야 합니다.');
+
+      const responseList = shipmentBoxIds.map((shipmentBoxId) => {
+        const order = state.orders.find((candidate) => candidate.shipmentBoxId === shipmentBoxId);
+        if (!order || order.status !== 'ACCEPT')
+          return { shipmentBoxId, succeed: false, resultMessage: '결제완료 상태가 아닙니다.' };
+
+        order.status = 'INSTRUCT';
+        return { shipmentBoxId, succeed: true, resultMessage: 'OK' };
+      });
+
+      return success({ responseCode: 0, responseList });
+    },
+  },
+  // 취소 / 반품 요청 목록 조회
+  {
+    method: 'GET',
+    pattern: new RegExp(`^${VENDORS_PATH}/returnRequests$`),
+    handle: ({ params, query, state, credential }) => {
+      if (params[0] !== credential.vendorId) return failure(403, 'vendorId 불일치');
+
+      const cancelType = query.get('cancelType') || 'RETURN';
+      const status = query.get('status');
+      const from = query.get('createdAtFrom');
+      const to = query.get('createdAtTo');
+      if (!from || !to) return failure(400, 'createdAtFrom, createdAtTo 는 필수입니다.');
+      if (cancelType === 'CANCEL' && status)
+        return failure(400, '취소 요청 조회에는 status 를 사용할 수 없습니다.');
+      if (status && !RETURN_STATUS_CODES[status])
+        return failure(400, `지원하지 않는 status: ${status}`);
+
+      const requests = state.returnRequests.filter((request) => {
+        const createdDate = request.createdAt.slice(0, 10);
+        return (
+          request.receiptType === cancelType &&
+          (!status || request.receiptStatus === RETURN_STATUS_CODES[status]) &&
+          createdDate >= from &&
+          createdDate <= to
+        );
+      });
+      const { data, nextToken } = paginate(requests, query, 50);
+
+      return success(data, { nextToken });
+    },
+  },
+  // 취소(출고중지) 요청 승인
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDORS_PATH}/returnRequests/(\\d+)/stoppedShipment$`),
+    handle: ({ params, body, state }) => {
+      const request = findReturnRequest(state, Number(params[1]));
+      if (!request) return failure(404, `접수를 찾을 수 없습니다: ${params[1]}`);
+      if (request.receiptStatus !== 'RELEASE_STOP_UNCHECKED')
+        return failure(400, '출고중지요청 상태가 아닙니다.');
+      if (Number(body?.cancelCount) !== request.cancelCountSum)
+        return failure(400, 'cancelCount 가 접수 수량과 다릅니다.');
+
+      request.receiptStatus = 'RETURNS_COMPLETED';
+      return success(null);
+    },
+  },
+  // 반품 상품 입고 확인
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDORS_PATH}/returnRequests/(\\d+)/receiveConfirmation$`),
+    handle: ({ params, state }) => {
+      const request = findReturnRequest(state, Number(params[1]));
+      if (!request || request.receiptType !== 'RETURN')
+        return failure(404, `반품 접수를 찾을 수 없습니다: ${params[1]}`);
+
+      request.receiptStatus = 'VENDOR_WAREHOUSE_CONFIRM';
+      return success(null);
+    },
+  },
+  // 교환 요청 목록 조회
+  {
+    method: 'GET',
+    pattern: new RegExp(`^${VENDORS_PATH}/exchangeRequests$`),
+    handle: ({ params, query, state, credential }) => {
+      if (params[0] !== credential.vendorId) return failure(403, 'vendorId 불일치');
+
+      const status = query.get('status');
+      const from = query.get('createdAtFrom');
+      const to = query.get('createdAtTo');
+      if (!from || !to) return failure(400, 'createdAtFrom, createdAtTo 는 필수입니다.');
+
+      const requests = state.exchangeRequests.filter(
+        (request) =>
+          (!status || request.exchangeStatus === status) &&
+          request.createdAt >= from &&
+          request.createdAt <= to,
+      );
+      const { data, nextToken } = paginate(requests, query, 50);
+
+      return success(data, { nextToken });
+    },
+  },
+  // 교환 회수 상품 입고 확인
+  {
+    method: 'PUT',
+    pattern: new RegExp(`^${VENDORS_PATH}/exchangeRequests/(\\d+)/receiveConfirmation$`),
+    handle: ({ params, state }) => {
+      const request = state.exchangeRequests.find((r) => r.exchangeId === Number(params[1]));
+      if (!request) return failure(404, `교환 접수를 찾을 수 없습니다: ${params[1]}`);
+
+      request.exchangeStatus = 'PROGRESS';
+      return success(null);
+    },
+  },
+];
+
+/**
+ * 오프라인 테스트용 샘플 상품 / 발주서 / 취소 요청을 생성합니다.
+ * 마지막 발주서에는 출고중지요청이 접수되어 있습니다.
+ *
+ * @param productCount - 생성할 상품 수 (기본값 250, 목록 조회 3페이지)
+ */
+export function createSampleData(productCount: number = 250): {
+  products: CoupangMockProduct[];
+  orders: CoupangMockOrder[];
+  returnRequests: CoupangMockReturnRequest[];
+} {
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+
+  const products: CoupangMockProduct[] = Array.from({ length: productCount }, (_, i) => ({
+    sellerProductId: 10000000 + i,
+    sellerProductName: `CH${String(1000000 + i).padStart(7, '0')} 샘플 상품 ${i + 1}`,
+    displayCategoryCode: 56137,
+    brand: '기타',
+    status: 'APPROVED',
+    statusName: '승인완료',
+    deliveryCharge: 3000,
+    returnCharge: 5000,
+    createdAt: now.toISOString(),
+    items: [
+      {
+        vendorItemId: 70000000 + i,
+        itemName: '단일상품',
+        originalPrice: 20000,
+        salePrice: 15000,
+        maximumBuyCount: 100,
+        onSale: true,
+      },
+    ],
+  }));
+
+  const orders: CoupangMockOrder[] = products.slice(0, 3).map((product, i) => ({
+    shipmentBoxId: 500000000 + i,
+    orderId: 300000000 + i,
+    orderedAt: `${today}T09:0${i}:00`,
+    status: 'ACCEPT',
+    orderer: { name: `주문자${i + 1}`, safeNumber: '0502-0000-0000' },
+    receiver: {
+      name: `수취인${i + 1}`,
+      safeNumber: '0502-0000-0000',
+      addr1: '서울특별시 중구 세종대로 110',
+      addr2: `${i + 1}층`,
+      postCode: '04524',
+    },
+    orderItems: [
+      {
+        vendorItemId: product.items[0].vendorItemId,
+        vendorItemName: `${product.sellerProductName}, ${product.items[0].itemName}`,
+        shippingCount: 1,
+        sellerProductId: product.sellerProductId,
+        sellerProductName: product.sellerProductName,
+        sellerProductItemName: product.items[0].itemName,
+      },
+    ],
+    parcelPrintMessage: '문 앞에 놓아주세요',
+  }));
+
+  const cancelledOrder = orders[orders.length - 1];
+  const returnRequests: CoupangMockReturnRequest[] = cancelledOrder
+    ? [
+        {
+          receiptId: 900000000,
+          orderId: cancelledOrder.orderId,
+          receiptType: 'CANCEL',
+          receiptStatus: 'RELEASE_STOP_UNCHECKED',
+          createdAt: `${today}T10:00:00`,
+          cancelCountSum: 1,
+          returnItems: [
+            {
+              vendorItemId: cancelledOrder.orderItems[0].vendorItemId,
+              shipmentBoxId: cancelledOrder.shipmentBoxId,
+              cancelCount: 1,
+            },
+          ],
+        },
+      ]
+    : [];
+
+  return { products, orders, returnRequests };
+}
+
+/**
+ * 쿠팡 Open API 목 서버를 생성합니다.
+ *
+ * @param options - 서명 검증 키, 초기 상품 / 발주서 / 취소·반품·교환 요청, 서명 일시 허용 오차
+ * @returns 서버와 변경 가능한 상태 (요청 기록 포함)
+ *
+ * @description
+ * CoupangApiService 가 호출하는 엔드포인트(상품 목록 / 상세 / 등록 / 수정 / 삭제,
+ * 옵션 판매 중지·재개 / 가격 / 재고 변경, 카테고리 메타 정보, 발주서 목록 / 발주 확인,
+ * 취소 / 반품 / 교환 요청 조회와 처리)를 메모리 상태로 구현합니다.
+ * 모든 요청은 실제 쿠팡과 같이 Authorization 헤더의 CEA HMAC 서명을 검증하며, 실패 시 401 을 반환합니다.
+ * COUPANG_API_BASE_URL 을 listen 이 반환한 주소로 설정하면 API 계층 전체를 오프라인으로 실행할 수 있습니다.
+ */
+export function createCoupangMockServer(options: CoupangMockServerOptions = {}): CoupangMockServer {
+  const credential = options.credential ?? DEFAULT_MOCK_CREDENTIAL;
+  const sample = options.products && options.orders ? undefined : createSampleData();
+  const state: CoupangMockState = {
+    products: options.products ?? sample!.products,
+    orders: options.orders ?? sample!.orders,
+    returnRequests: options.returnRequests ?? sample?.returnRequests ?? [],
+    exchangeRequests: options.exchangeRequests ?? [],
+    requests: [],
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const method = req.method ?? 'GET';
+      const [path, query = ''] = (req.url ?? '/').split(/\?(.*)/s);
+      const raw = Buffer.concat(chunks).toString('utf8');
+
+      let result: RouteResult;
+      let body: any;
+      try {
+        body = raw ? JSON.parse(raw) : undefined;
+
+        const authError = verifyCeaAuthorization(
+          req.headers['authorization'],
+          method,
+          path,
+          query,
+          credential,
+          options.signatureTolerance,
+        );
+
+        const route = ROUTES.find((r) => r.method === method && r.pattern.test(path));
+        if (authError) {
+          result = failure(401, authError);
+        } else if (!route) {
+          result = failure(404, `지원하지 않는 API: ${method} ${path}`);
+        } else {
+          result = route.handle({
+            params: path.match(route.pattern)!.slice(1),
+            query: new URLSearchParams(query),
+            body,
+            state,
+            credential,
+          });
+        }
+      } catch (error) {
+        result = failure(400, error instanceof Error ? error.message : String(error));
+      }
+
+      state.requests.push({ method, path, query, status: result.status, body });
+      res.writeHead(result.status, { 'Content-Type': 'application/json;charset=UTF-8' });
+      res.end(JSON.stringify(result.body));
+    });
+  });
+
+  return {
+    server,
+    state,
+    listen: (port = 0) =>
+      new Promise((resolve) => {
+        server.listen(port, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
+
+// npm run start:mock-api 로 단독 실행
+if (require.main === module) {
+  const credential: CoupangMockCredential = {
+    accessKey: process.env.COUPANG_ACCESS_KEY || DEFAULT_MOCK_CREDENTIAL.accessKey,
+    secretKey: process.env.COUPANG_SECRET_KEY || DEFAULT_MOCK_CREDENTIAL.secretKey,
+    vendorId: process.env.COUPANG_VENDOR_ID || DEFAULT_MOCK_CREDENTIAL.vendorId,
+  };
+
+  createCoupangMockServer({ credential })
+    .listen(Number(process.env.COUPANG_MOCK_PORT || 4010))
+    .then((url) => console.log(`쿠팡 목 API 서버 시작: COUPANG_API_BASE_URL=${url}`));
+}
@@ -1,12 +1,13 @@
 import { PlaywrightModule } from '@daechanjo/playwright';
-import { RabbitMQModule } from '@daechanjo/rabbitmq';
+import { RabbitMQAuditModule, RabbitMQModule } from '@daechanjo/rabbitmq';
 import { UtilModule } from '@daechanjo/util';
 import { Module, OnApplicationBootstrap } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConditionalModule, ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RedisModule } from '@nestjs-modules/ioredis';
 
+import { rabbitmqConfig } from './config/rabbitmq.config';
 import { redisConfig } from './config/redis.config';
 import { TypeormConfig } from './config/typeorm.config';
 import { DeliveryService } from './core/delivery.service';
@@ -24,7 +25,8 @@ import { DeliveryService } from './core/delivery.service';
     }),
     UtilModule,
     PlaywrightModule,
-    RabbitMQModule,
+    RabbitMQModule.forRoot(rabbitmqConfig),
+    ConditionalModule.registerWhen(RabbitMQAuditModule, 'RABBITMQ_AUDIT_ENABLED'),
   ],
   controllers: [],
   providers: [DeliveryService],
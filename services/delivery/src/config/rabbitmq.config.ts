@@ -0,0 +1,15 @@
+import { RabbitMQModuleOptions } from '@daechanjo/rabbitmq';
+
+export const rabbitmqConfig: RabbitMQModuleOptions = {
+  serviceName: 'delivery',
+  patterns: {
+    'onch-queue': {
+      deliveryExtraction: { timeout: 30 * 60 * 1000, retries: 0 },
+    },
+    'coupang-queue': {
+      getCoupangOrderList: { timeout: 60 * 1000, retries: 2 },
+      // 재시도 시 운송장이 중복 등록될 수 있으므로 재시도하지 않음
+      invoiceUpload: { timeout: 30 * 60 * 1000, retries: 0 },
+    },
+  },
+};
@@ -1,5 +1,5 @@
-import { CronType, DeliveryData } from '@daechanjo/models';
-import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { CronType } from '@daechanjo/models';
+import { RabbitMQService, runWithTraceContext } from '@daechanjo/rabbitmq';
 import { UtilService } from '@daechanjo/util';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -20,15 +20,11 @@ export class DeliveryService {
   ) {}
 
   async deliveryManagement(cronId: string) {
-    const onchResults: { status: string; data: DeliveryData[] } = await this.rabbitmqService.send(
-      'onch-queue',
-      'deliveryExtraction',
-      {
-        cronId: cronId,
-        store: this.configService.get<string>('STORE'),
-        type: CronType.SHIPPING,
-      },
-    );
+    const onchResults = await this.rabbitmqService.send('onch-queue', 'deliveryExtraction', {
+      cronId: cronId,
+      store: this.configService.get<string>('STORE'),
+      type: CronType.SHIPPING,
+    });
 
     if (!onchResults || !Array.isArray(onchResults.data) || onchResults.data.length === 0) {
       console.log(`${CronType.SHIPPING}${cronId}: 새로 등록된 운송장이 없습니다.`);
@@ -126,7 +122,7 @@ export class DeliveryService {
         try {
           setImmediate(async () => {
             await this.rabbitmqService.emit('mail-queue', `sendFailedInvoiceUpload`, {
-              successInvoiceUploads: failedInvoiceUploads,
+              failedInvoiceUploads: failedInvoiceUploads,
               store: this.configService.get<string>('STORE'),
             });
           });
@@ -149,7 +145,7 @@ export class DeliveryService {
       const nowTime = moment().format('HH:mm:ss');
       console.log(`${CronType.SHIPPING}${cronId}-${nowTime}: 운송장 등록 시작`);
 
-      await this.deliveryManagement(cronId);
+      await runWithTraceContext(() => this.deliveryManagement(cronId), cronId);
     } catch (error: any) {
       setImmediate(async () => {
         await this.rabbitmqService.emit('mail-queue', 'sendErrorMail', {
@@ -0,0 +1,138 @@
+import { CronType } from '@daechanjo/models';
+import {
+  AutomaticOrderingResult,
+  DeletedProduct,
+  InvoiceUploadResult,
+  PayloadOf,
+  ResumedProduct,
+} from '@daechanjo/rabbitmq';
+import { IsArray, IsEnum, IsNotEmpty, IsNumber, IsObject, IsString } from 'class-validator';
+
+class MailStorePayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  store: string;
+}
+
+export class SendBatchDeletionEmailDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendBatchDeletionEmail'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  deletedProducts: DeletedProduct[];
+
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsString()
+  @IsNotEmpty()
+  platformName: string;
+}
+
+export class SendResumedProductsEmailDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendResumedProductsEmail'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  resumedProducts: ResumedProduct[];
+
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @IsString()
+  @IsNotEmpty()
+  platformName: string;
+}
+
+export class SendUpdateEmailDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendUpdateEmail'>
+{
+  @IsString()
+  @IsNotEmpty()
+  filePath: string;
+
+  @IsNumber()
+  successCount: number;
+
+  @IsNumber()
+  filedCount: number;
+
+  @IsString()
+  @IsNotEmpty()
+  smartStore: string;
+}
+
+export class SendBulkProductUpdateReportDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendBulkProductUpdateReport'>
+{
+  @IsString()
+  @IsNotEmpty()
+  jobId: string;
+
+  @IsNumber()
+  successCount: number;
+
+  @IsNumber()
+  failedCount: number;
+
+  @IsString()
+  @IsNotEmpty()
+  report: string;
+}
+
+export class SendSuccessOrdersDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendSuccessOrders'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  result: AutomaticOrderingResult[];
+}
+
+export class SendFailedOrdersDto
+  extends SendSuccessOrdersDto
+  implements PayloadOf<'mail-queue', 'sendFailedOrders'>
+{
+  @IsString()
+  @IsNotEmpty()
+  cronId: string;
+}
+
+export class SendErrorMailDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendErrorMail'>
+{
+  @IsEnum(CronType)
+  cronType: CronType;
+
+  @IsString()
+  @IsNotEmpty()
+  cronId: string;
+
+  @IsString()
+  message: string;
+}
+
+export class SendSuccessInvoiceUploadDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendSuccessInvoiceUpload'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  successInvoiceUploads: InvoiceUploadResult[];
+}
+
+export class SendFailedInvoiceUploadDto
+  extends MailStorePayloadDto
+  implements PayloadOf<'mail-queue', 'sendFailedInvoiceUpload'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  failedInvoiceUploads: InvoiceUploadResult[];
+}
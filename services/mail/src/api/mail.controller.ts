@@ -1,67 +1,104 @@
-import { Controller } from '@nestjs/common';
+import { RabbitMQDispatcher, RabbitMQResponseInterceptor, RmqHandler } from '@daechanjo/rabbitmq';
+import { Controller, UseInterceptors } from '@nestjs/common';
 import { MessagePattern } from '@nestjs/microservices';
 
 import { MailService } from '../core/mail.service';
+import {
+  SendBatchDeletionEmailDto,
+  SendBulkProductUpdateReportDto,
+  SendErrorMailDto,
+  SendFailedInvoiceUploadDto,
+  SendFailedOrdersDto,
+  SendResumedProductsEmailDto,
+  SendSuccessInvoiceUploadDto,
+  SendSuccessOrdersDto,
+  SendUpdateEmailDto,
+} from './dto/mail.message.dto';
 
 @Controller()
 export class MailController {
-  constructor(private readonly mailService: MailService) {}
+  constructor(
+    private readonly mailService: MailService,
+    private readonly rabbitmqDispatcher: RabbitMQDispatcher,
+  ) {}
 
   @MessagePattern('mail-queue')
-  async handleMailMessage(message: any): Promise<void> {
-    const { pattern, payload } = message;
-    console.log(`송신 패턴: ${pattern}\npayload: ${payload}`);
+  @UseInterceptors(RabbitMQResponseInterceptor)
+  async handleMailMessage(message: any) {
+    return await this.rabbitmqDispatcher.dispatch('mail-queue', message);
+  }
 
-    switch (pattern) {
-      case 'sendBatchDeletionEmail':
-        await this.mailService.sendBatchDeletionEmail(
-          payload.deletedProducts,
-          payload.type,
-          payload.store,
-          payload.platformName,
-        );
-        break;
+  @RmqHandler('mail-queue', 'sendBatchDeletionEmail', { dto: SendBatchDeletionEmailDto })
+  async sendBatchDeletionEmail(payload: SendBatchDeletionEmailDto) {
+    await this.mailService.sendBatchDeletionEmail(
+      payload.deletedProducts,
+      payload.type,
+      payload.store,
+      payload.platformName,
+    );
+  }
 
-      case 'sendUpdateEmail':
-        await this.mailService.sendUpdateEmail(
-          payload.filePath,
-          payload.successCount,
-          payload.filedCount,
-          payload.store,
-          payload.smartStore,
-        );
-        break;
+  @RmqHandler('mail-queue', 'sendResumedProductsEmail', { dto: SendResumedProductsEmailDto })
+  async sendResumedProductsEmail(payload: SendResumedProductsEmailDto) {
+    await this.mailService.sendResumedProductsEmail(
+      payload.resumedProducts,
+      payload.type,
+      payload.store,
+      payload.platformName,
+    );
+  }
+
+  @RmqHandler('mail-queue', 'sendUpdateEmail', { dto: SendUpdateEmailDto })
+  async sendUpdateEmail(payload: SendUpdateEmailDto) {
+    await this.mailService.sendUpdateEmail(
+      payload.filePath,
+      payload.successCount,
+      payload.filedCount,
+      payload.store,
+      payload.smartStore,
+    );
+  }
 
-      case 'sendSuccessOrders':
-        await this.mailService.sendSuccessOrders(payload.result, payload.store);
-        break;
+  @RmqHandler('mail-queue', 'sendBulkProductUpdateReport', {
+    dto: SendBulkProductUpdateReportDto,
+  })
+  async sendBulkProductUpdateReport(payload: SendBulkProductUpdateReportDto) {
+    await this.mailService.sendBulkProductUpdateReport(
+      payload.jobId,
+      payload.successCount,
+      payload.failedCount,
+      payload.report,
+      payload.store,
+    );
+  }
 
-      case 'sendFailedOrders':
-        await this.mailService.sendFailedOrders(payload.result, payload.store, payload.cronId);
-        break;
+  @RmqHandler('mail-queue', 'sendSuccessOrders', { dto: SendSuccessOrdersDto })
+  async sendSuccessOrders(payload: SendSuccessOrdersDto) {
+    await this.mailService.sendSuccessOrders(payload.result, payload.store);
+  }
 
-      case 'sendErrorMail':
-        await this.mailService.sendErrorMail(
-          payload.cronType,
-          payload.store,
-          payload.cronId,
-          payload.message,
-        );
-        break;
+  @RmqHandler('mail-queue', 'sendFailedOrders', { dto: SendFailedOrdersDto })
+  async sendFailedOrders(payload: SendFailedOrdersDto) {
+    await this.mailService.sendFailedOrders(payload.result, payload.store, payload.cronId);
+  }
 
-      case 'sendSuccessInvoiceUpload':
-        await this.mailService.sendSuccessInvoiceUpload(
-          payload.successInvoiceUploads,
-          payload.store,
-        );
-        break;
+  @RmqHandler('mail-queue', 'sendErrorMail', { dto: SendErrorMailDto })
+  async sendErrorMail(payload: SendErrorMailDto) {
+    await this.mailService.sendErrorMail(
+      payload.cronType,
+      payload.store,
+      payload.cronId,
+      payload.message,
+    );
+  }
 
-      case 'sendFailedInvoiceUpload':
-        await this.mailService.sendFailedInvoiceUpload(payload.failedInvoiceUploads, payload.store);
-        break;
+  @RmqHandler('mail-queue', 'sendSuccessInvoiceUpload', { dto: SendSuccessInvoiceUploadDto })
+  async sendSuccessInvoiceUpload(payload: SendSuccessInvoiceUploadDto) {
+    await this.mailService.sendSuccessInvoiceUpload(payload.successInvoiceUploads, payload.store);
+  }
 
-      default:
-        console.error(`알 수 없는 패턴 유형: ${pattern}`);
-    }
+  @RmqHandler('mail-queue', 'sendFailedInvoiceUpload', { dto: SendFailedInvoiceUploadDto })
+  async sendFailedInvoiceUpload(payload: SendFailedInvoiceUploadDto) {
+    await this.mailService.sendFailedInvoiceUpload(payload.failedInvoiceUploads, payload.store);
   }
 }
@@ -1,9 +1,11 @@
+import * as fs from 'node:fs';
 import * as path from 'node:path';
 
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as nodemailer from 'nodemailer';
 import {CronType} from "@daechanjo/models";
+import { FailureArtifacts, ResumedProduct, formatTraceContext } from '@daechanjo/rabbitmq';
 
 
 @Injectable()
@@ -62,6 +64,40 @@ export class MailService {
     }
   }
 
+  async sendResumedProductsEmail(
+    resumedProducts: ResumedProduct[],
+    type: string,
+    store: string,
+    platformName: string,
+  ): Promise<void> {
+    try {
+      const productListHtml = resumedProducts
+        .map(
+          (product) =>
+            `<li>상품 ID: ${product.sellerProductId}<br>상품명: ${product.productName}<br>재개 옵션: ${product.vendorItemIds.length}개<br><br></li>`,
+        )
+        .join('');
+
+      const mailOptions = {
+        from: `"Hush-BOT"`,
+        to: this.adminEmails,
+        subject: `${type}-${store}(${platformName}) 재입고 상품 판매 재개 알림 - 총 ${resumedProducts.length}개 상품`,
+        html: `
+      <h3>재입고 상품 판매 재개 알림</h3>
+      <p>온채널 재고가 확인되어 아래 상품들의 판매를 재개했습니다:</p>
+      <ul>
+        ${productListHtml}
+      </ul>
+    `,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log('판매 재개 알림 이메일 발송 성공');
+    } catch (error) {
+      if (error instanceof Error) console.error('판매 재개 알림 이메일 발송 실패:', error.message);
+    }
+  }
+
   async sendUpdateEmail(
     filePath: string,
     successCount: number,
@@ -100,6 +136,47 @@ export class MailService {
     }
   }
 
+  /**
+   * 쿠팡 상품 일괄 수정 결과 메일 발송
+   *
+   * @param report - 상품별 결과 엑셀 (base64)
+   */
+  async sendBulkProductUpdateReport(
+    jobId: string,
+    successCount: number,
+    failedCount: number,
+    report: string,
+    store: string,
+  ): Promise<void> {
+    const mailOptions = {
+      from: `"Hush-BOT"`,
+      to: this.adminEmails,
+      subject: `${store}-coupang 상품 일괄 수정 결과 (작업 ${jobId})`,
+      html: `
+        <h3>상품 일괄 수정 결과</h3>
+        <ul>
+        	<li><strong>Total:</strong> ${successCount + failedCount}</li>
+        	<li><strong>성공:</strong> ${successCount}</li>
+        	<li><strong>실패:</strong> ${failedCount}</li>
+        </ul>
+      `,
+      attachments: [
+        {
+          filename: `coupang_bulk_update_${jobId}.xlsx`,
+          content: Buffer.from(report, 'base64'),
+        },
+      ],
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      console.log(`상품 일괄 수정 결과 이메일 발송 성공 (작업 ${jobId})`);
+    } catch (error) {
+      if (error instanceof Error)
+        console.error(`상품 일괄 수정 결과 이메일 발송 실패 (작업 ${jobId}):`, error.message);
+    }
+  }
+
   async sendSuccessOrders(result: any[], store: string) {
     const itemsHtml = result
       .map(
@@ -127,7 +204,7 @@ export class MailService {
     const itemsHtml = result
       .map(
         (order) =>
-          `<li>주문번호: ${order.orderId}<br>주문인: ${order.ordererName}<br>수취인: ${order.receiverName}<br>상품코드: ${order.productCode}<br>상품: ${order.sellerProductName}<br>옵션: ${order.sellerProductItemName}<br>수량: ${order.shippingCount}<br>안전번호: ${order.safeNumber}<br>주소: ${order.fullAddress}<br>${JSON.stringify(order.error, null, 2)}<br><br></li>`,
+          `<li>주문번호: ${order.orderId}<br>주문인: ${order.ordererName}<br>수취인: ${order.receiverName}<br>상품코드: ${order.productCode}<br>상품: ${order.sellerProductName}<br>옵션: ${order.sellerProductItemName}<br>수량: ${order.shippingCount}<br>안전번호: ${order.safeNumber}<br>주소: ${order.fullAddress}<br>${JSON.stringify(order.error, null, 2)}<br>${this.formatArtifacts(order.artifacts)}<br></li>`,
       )
       .join('');
 
@@ -142,6 +219,7 @@ export class MailService {
           ${itemsHtml}
         </ul>
       `,
+      attachments: this.getArtifactAttachments(result),
     };
 
     await this.transporter.sendMail(mailOptions);
@@ -155,6 +233,7 @@ export class MailService {
       html: `
         <h3>크론작업 실패 - 확인요망</h3>
         <p>${message}</p>,
+        <p>추적 ID: ${formatTraceContext()}</p>
       `,
     };
 
@@ -193,7 +272,7 @@ export class MailService {
     const itemsHtml = failedInvoiceUploads
       .map(
         (order) =>
-          `<li>주문번호: ${order.orderId}<br>수취인: ${order.name}<br>안심번호${order.safeNumber}<br>택배사: ${order.courierName}<br>운송장: ${order.trackingNumber}<br></li>, ${JSON.stringify(order.error, null, 2)}`,
+          `<li>주문번호: ${order.orderId}<br>수취인: ${order.name}<br>안심번호${order.safeNumber}<br>택배사: ${order.courierName}<br>운송장: ${order.trackingNumber}<br></li>, ${JSON.stringify(order.error, null, 2)}${this.formatArtifacts(order.artifacts)}`,
       )
       .join('');
 
@@ -207,8 +286,38 @@ export class MailService {
           ${itemsHtml}
         </ul>
       `,
+      attachments: this.getArtifactAttachments(failedInvoiceUploads),
     };
 
     await this.transporter.sendMail(mailOptions);
   }
+
+  /**
+   * 실패 아티팩트의 URL 과 저장 위치를 메일 본문용 HTML 로 변환
+   */
+  private formatArtifacts(artifacts?: FailureArtifacts): string {
+    if (!artifacts) return '';
+    return `<br>실패 페이지: ${artifacts.url ?? '-'}<br>아티팩트: ${artifacts.directory}`;
+  }
+
+  /**
+   * 실패 결과의 스크린샷 / HTML / 트레이스 파일을 메일 첨부 파일로 변환
+   *
+   * @description
+   * 아티팩트는 크롤러 서비스와 공유하는 디렉터리에 저장되므로 파일이 존재하는 경우에만 첨부합니다.
+   * 트레이스는 컨텍스트 해제 시 기록되므로 아직 저장되지 않았으면 생략됩니다.
+   */
+  private getArtifactAttachments(
+    results: { artifacts?: FailureArtifacts }[],
+  ): { filename: string; path: string }[] {
+    return results
+      .flatMap(({ artifacts }) => [
+        artifacts?.screenshotPath,
+        artifacts?.htmlPath,
+        artifacts?.tracePath,
+      ])
+      .filter((filePath): filePath is string => !!filePath && fs.existsSync(filePath))
+      .filter((filePath, index, filePaths) => filePaths.indexOf(filePath) === index)
+      .map((filePath) => ({ filename: path.basename(filePath), path: filePath }));
+  }
 }
@@ -1,4 +1,5 @@
 
+import { RabbitMQModule } from '@daechanjo/rabbitmq';
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
@@ -11,6 +12,7 @@ import { MailService } from './core/mail.service';
 			isGlobal: true,
 			envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
 		}),
+		RabbitMQModule.forRoot({ serviceName: 'mail' }),
 	],
 	controllers: [MailController],
 	providers: [MailService],
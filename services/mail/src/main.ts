@@ -1,7 +1,8 @@
 import * as process from 'node:process';
 import {setupGlobalConsoleLogging} from "@daechanjo/log";
+import { createRabbitMQMicroserviceOptions, setupTraceLogPrefix } from '@daechanjo/rabbitmq';
 import { NestFactory } from '@nestjs/core';
-import { MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { MicroserviceOptions } from '@nestjs/microservices';
 import * as dotenv from 'dotenv';
 
 import { MailModule } from './mail.module';
@@ -14,15 +15,12 @@ dotenv.config({
 
 async function bootstrap() {
 	setupGlobalConsoleLogging();
+	setupTraceLogPrefix();
 
-	const app = await NestFactory.createMicroservice<MicroserviceOptions>(MailModule, {
-		transport: Transport.RMQ,
-		options: {
-			urls: [String(process.env.RABBITMQ_URL)],
-			queue: 'mail-queue',
-			queueOptions: { durable: false },
-		},
-	});
+	const app = await NestFactory.createMicroservice<MicroserviceOptions>(
+		MailModule,
+		createRabbitMQMicroserviceOptions('mail-queue', String(process.env.RABBITMQ_URL)),
+	);
 
 	await app.listen();
 	console.log('메일 서비스 시작');
@@ -0,0 +1,43 @@
+import { CoupangOrderInfo, CoupangPagingProduct } from '@daechanjo/models';
+import { DestructiveStorePayloadDto, PayloadOf, StorePayloadDto } from '@daechanjo/rabbitmq';
+import { IsArray, IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+export class DeleteProductsDto
+  extends DestructiveStorePayloadDto
+  implements PayloadOf<'onch-queue', 'deleteProducts'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  matchedCoupangProducts: CoupangPagingProduct[];
+
+  @IsOptional()
+  @IsArray()
+  matchedNaverProducts?: any[];
+}
+
+export class RestoreProductDto
+  extends StorePayloadDto
+  implements PayloadOf<'onch-queue', 'restoreProduct'>
+{
+  @IsString()
+  @IsNotEmpty()
+  productCode: string;
+}
+
+export class CheckProductStockDto
+  extends StorePayloadDto
+  implements PayloadOf<'onch-queue', 'checkProductStock'>
+{
+  @IsArray()
+  @IsString({ each: true })
+  productCodes: string[];
+}
+
+export class AutomaticOrderingDto
+  extends StorePayloadDto
+  implements PayloadOf<'onch-queue', 'automaticOrdering'>
+{
+  @IsArray()
+  @IsObject({ each: true })
+  newOrderProducts: CoupangOrderInfo[];
+}
@@ -1,11 +1,24 @@
-import { CronType, RabbitmqMessage } from '@daechanjo/models';
+import { RabbitmqMessage } from '@daechanjo/models';
+import {
+  RabbitMQAuditInterceptor,
+  RabbitMQDispatcher,
+  RabbitMQResponseInterceptor,
+  RmqHandler,
+  StorePayloadDto,
+} from '@daechanjo/rabbitmq';
 import { InjectQueue } from '@nestjs/bull';
-import { Controller, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Controller, OnModuleDestroy, OnModuleInit, UseInterceptors } from '@nestjs/common';
 import { MessagePattern } from '@nestjs/microservices';
 import { Queue } from 'bull';
 
 import { OnchCrawlerService } from '../core/crawler/onch.crawler.service';
 import { OnchService } from '../core/onch.service';
+import {
+  AutomaticOrderingDto,
+  CheckProductStockDto,
+  DeleteProductsDto,
+  RestoreProductDto,
+} from './dto/onch.message.dto';
 
 @Controller()
 export class OnchMessageController implements OnModuleInit, OnModuleDestroy {
@@ -14,6 +27,7 @@ export class OnchMessageController implements OnModuleInit, OnModuleDestroy {
   constructor(
     private readonly onchService: OnchService,
     private readonly onchCrawlerService: OnchCrawlerService,
+    private readonly rabbitmqDispatcher: RabbitMQDispatcher,
     @InjectQueue('onch-message-queue') private readonly messageQueue: Queue,
   ) {}
 
@@ -49,63 +63,91 @@ export class OnchMessageController implements OnModuleInit, OnModuleDestroy {
   };
 
   @MessagePattern('onch-queue')
+  @UseInterceptors(RabbitMQResponseInterceptor, RabbitMQAuditInterceptor)
   async processMessage(data: RabbitmqMessage) {
-    const { pattern, payload } = data;
-    console.log(`${payload.type}${payload.cronId}: 📬${pattern}`);
-
-    switch (pattern) {
-      case 'clearOnchProducts':
-        await this.onchService.clearOnchProducts();
-        return { status: 'success' };
-
-      case 'deleteProducts':
-        await this.onchCrawlerService.deleteProducts(
-          payload.cronId,
-          payload.store,
-          payload.type,
-          payload.matchedCoupangProducts,
-          payload.matchedNaverProducts,
-        );
-        break;
-
-      case 'crawlingOnchSoldoutProducts':
-        const { soldoutProductCodes } = await this.onchCrawlerService.crawlingOnchSoldoutProducts(
-          payload.store,
-          payload.cronId,
-          payload.type,
-        );
-        return { status: 'success', data: { soldoutProductCodes } };
-
-      case 'crawlOnchRegisteredProducts':
-        await this.onchCrawlerService.crawlOnchRegisteredProducts(
-          payload.cronId,
-          payload.store,
-          payload.type,
-        );
-        return { status: 'success' };
-
-      case 'automaticOrdering':
-        const automaticOrderingResult = await this.onchCrawlerService.automaticOrdering(
-          payload.cronId,
-          payload.store,
-          payload.newOrderProducts,
-          payload.type,
-        );
-        return { status: 'success', data: automaticOrderingResult };
-
-      case 'deliveryExtraction':
-        const waybillExtractionResult = await this.onchCrawlerService.deliveryExtraction(
-          payload.cronId,
-          payload.store,
-          payload.type,
-        );
-        return { status: 'success', data: waybillExtractionResult };
-
-      default:
-        console.error(
-          `${CronType.ERROR}${payload.type}${payload.cronId}: 📬알 수 없는 패턴 유형 ${pattern}`,
-        );
-        return { status: 'error', message: `알 수 없는 패턴 유형: ${pattern}` };
-    }
+    return await this.rabbitmqDispatcher.dispatch('onch-queue', data);
+  }
+
+  @RmqHandler('onch-queue', 'clearOnchProducts')
+  async clearOnchProducts() {
+    await this.onchService.clearOnchProducts();
+  }
+
+  @RmqHandler('onch-queue', 'deleteProducts', { dto: DeleteProductsDto })
+  async deleteProducts(payload: DeleteProductsDto) {
+    return await this.onchCrawlerService.deleteProducts(
+      payload.cronId,
+      payload.store,
+      payload.type,
+      payload.matchedCoupangProducts,
+      payload.matchedNaverProducts,
+      payload,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'restoreProduct', { dto: RestoreProductDto })
+  async restoreProduct(payload: RestoreProductDto) {
+    return await this.onchCrawlerService.restoreProduct(
+      payload.cronId,
+      payload.store,
+      payload.type,
+      payload.productCode,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'checkProductStock', { dto: CheckProductStockDto })
+  async checkProductStock(payload: CheckProductStockDto) {
+    return await this.onchCrawlerService.checkProductStock(
+      payload.cronId,
+      payload.store,
+      payload.type,
+      payload.productCodes,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'crawlingOnchSoldoutProducts', { dto: StorePayloadDto })
+  async crawlingOnchSoldoutProducts(payload: StorePayloadDto) {
+    return await this.onchCrawlerService.crawlingOnchSoldoutProducts(
+      payload.store,
+      payload.cronId,
+      payload.type,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'crawlOnchRegisteredProducts', { dto: StorePayloadDto })
+  async crawlOnchRegisteredProducts(payload: StorePayloadDto) {
+    await this.onchCrawlerService.crawlOnchRegisteredProducts(
+      payload.cronId,
+      payload.store,
+      payload.type,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'automaticOrdering', { dto: AutomaticOrderingDto })
+  async automaticOrdering(payload: AutomaticOrderingDto) {
+    return await this.onchCrawlerService.automaticOrdering(
+      payload.cronId,
+      payload.store,
+      payload.newOrderProducts,
+      payload.type,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'deliveryExtraction', { dto: StorePayloadDto })
+  async deliveryExtraction(payload: StorePayloadDto) {
+    return await this.onchCrawlerService.deliveryExtraction(
+      payload.cronId,
+      payload.store,
+      payload.type,
+    );
+  }
+
+  @RmqHandler('onch-queue', 'checkSelectorHealth', { dto: StorePayloadDto })
+  async checkSelectorHealth(payload: StorePayloadDto) {
+    return await this.onchCrawlerService.checkSelectorHealth(
+      payload.cronId,
+      payload.store,
+      payload.type,
+    );
   }
 }
@@ -1,26 +1,30 @@
 import { CronType } from '@daechanjo/models';
 import { PlaywrightModule, PlaywrightService } from '@daechanjo/playwright';
-import { RabbitMQModule } from '@daechanjo/rabbitmq';
+import { RabbitMQApprovalModule, RabbitMQAuditModule, RabbitMQModule } from '@daechanjo/rabbitmq';
 import { UtilModule } from '@daechanjo/util';
 import { BullModule, InjectQueue } from '@nestjs/bull';
 import { Module, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConditionalModule, ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Queue } from 'bull';
 
 import { OnchMessageController } from './api/onch.message.controller';
+import { rabbitmqConfig } from './config/rabbitmq.config';
 import { TypeormConfig } from './config/typeorm.config';
 import { OnchCrawlerService } from './core/crawler/onch.crawler.service';
 import { AutomaticOrderingProvider } from './core/crawler/provider/automaticOrdering.provider';
+import { CheckProductStockProvider } from './core/crawler/provider/checkProductStock.provider';
 import { CrawlingOnchSoldoutProductsProvider } from './core/crawler/provider/crawlingOnchSoldoutProducts.provider';
 import { CrawlOnchDetailProductsProvider } from './core/crawler/provider/crawlOnchDetailProducts.provider';
 import { CrawlOnchRegisteredProductsProvider } from './core/crawler/provider/crawlOnchRegisteredProducts.provider';
 import { DeleteProductsProvider } from './core/crawler/provider/deleteProducts.provider';
 import { DeliveryExtractionProvider } from './core/crawler/provider/deliveryExtraction.provider';
+import { RestoreProductProvider } from './core/crawler/provider/restoreProduct.provider';
 import { MessageQueueProcessor } from './core/onch.queue.processor';
 import { OnchService } from './core/onch.service';
 import { OnchItemEntity } from './infrastructure/entities/onchItem.entity';
 import { OnchProductEntity } from './infrastructure/entities/onchProduct.entity';
+import { OnchProductArchiveEntity } from './infrastructure/entities/onchProductArchive.entity';
 import { OnchRepository } from './infrastructure/repository/onch.repository';
 
 @Module({
@@ -30,7 +34,7 @@ import { OnchRepository } from './infrastructure/repository/onch.repository';
       envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
     }),
     TypeOrmModule.forRootAsync(TypeormConfig),
-    TypeOrmModule.forFeature([OnchProductEntity, OnchItemEntity]),
+    TypeOrmModule.forFeature([OnchProductEntity, OnchItemEntity, OnchProductArchiveEntity]),
     BullModule.registerQueueAsync({
       name: 'onch-message-queue',
       useFactory: async (configService: ConfigService) => ({
@@ -53,7 +57,9 @@ import { OnchRepository } from './infrastructure/repository/onch.repository';
       inject: [ConfigService],
     }),
     PlaywrightModule,
-    RabbitMQModule,
+    RabbitMQModule.forRoot(rabbitmqConfig),
+    ConditionalModule.registerWhen(RabbitMQAuditModule, 'RABBITMQ_AUDIT_ENABLED'),
+    RabbitMQApprovalModule,
     UtilModule,
   ],
   controllers: [OnchMessageController],
@@ -68,6 +74,8 @@ import { OnchRepository } from './infrastructure/repository/onch.repository';
     CrawlOnchDetailProductsProvider,
     AutomaticOrderingProvider,
     DeliveryExtractionProvider,
+    RestoreProductProvider,
+    CheckProductStockProvider,
   ],
 })
 export class AppModule implements OnApplicationBootstrap, OnModuleInit {
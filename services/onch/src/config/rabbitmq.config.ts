@@ -0,0 +1,5 @@
+import { RabbitMQModuleOptions } from '@daechanjo/rabbitmq';
+
+export const rabbitmqConfig: RabbitMQModuleOptions = {
+  serviceName: 'onch',
+};
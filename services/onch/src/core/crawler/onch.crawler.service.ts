@@ -1,14 +1,23 @@
 import { CoupangOrderInfo, OnchSoldout, CronType, OnchProduct } from '@daechanjo/models';
-import { PlaywrightService } from '@daechanjo/playwright';
+import { PlaywrightService, SelectorHealthReport, SelectorService } from '@daechanjo/playwright';
+import {
+  DestructiveOptions,
+  DestructiveRunResult,
+  OnchStockStatus,
+  ProductRestoreResult,
+  RabbitMQApprovalService,
+} from '@daechanjo/rabbitmq';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
 import { AutomaticOrderingProvider } from './provider/automaticOrdering.provider';
+import { CheckProductStockProvider } from './provider/checkProductStock.provider';
 import { CrawlingOnchSoldoutProductsProvider } from './provider/crawlingOnchSoldoutProducts.provider';
 import { CrawlOnchDetailProductsProvider } from './provider/crawlOnchDetailProducts.provider';
 import { CrawlOnchRegisteredProductsProvider } from './provider/crawlOnchRegisteredProducts.provider';
 import { DeleteProductsProvider } from './provider/deleteProducts.provider';
 import { DeliveryExtractionProvider } from './provider/deliveryExtraction.provider';
+import { RestoreProductProvider } from './provider/restoreProduct.provider';
 import { OnchRepository } from '../../infrastructure/repository/onch.repository';
 
 @Injectable()
@@ -16,12 +25,16 @@ export class OnchCrawlerService {
   constructor(
     private readonly onchRepository: OnchRepository,
     private readonly playwrightService: PlaywrightService,
+    private readonly selectorService: SelectorService,
     private readonly deleteProductsProvider: DeleteProductsProvider,
     private readonly crawlingOnchSoldoutProductsProvider: CrawlingOnchSoldoutProductsProvider,
     private readonly crawlOnchRegisteredProductsProvider: CrawlOnchRegisteredProductsProvider,
     private readonly crawlOnchDetailProductsProvider: CrawlOnchDetailProductsProvider,
     private readonly automaticOrderingProvider: AutomaticOrderingProvider,
     private readonly deliveryExtractionProvider: DeliveryExtractionProvider,
+    private readonly restoreProductProvider: RestoreProductProvider,
+    private readonly checkProductStockProvider: CheckProductStockProvider,
+    private readonly approvalService: RabbitMQApprovalService,
   ) {}
 
   /**
@@ -32,14 +45,16 @@ export class OnchCrawlerService {
    * @param type - 로그 메시지에 포함될 작업 유형 식별자
    * @param matchedCoupangProducts - 쿠팡에서 품절된 상품 목록 배열
    * @param matchedNaverProducts - 네이버에서 품절된 상품 목록 배열 (선택적)
+   * @param options - dry-run / 승인 옵션 (catalogSize 생략 시 저장된 온채널 상품 수 사용)
    *
-   * @returns {Promise<void>} - 삭제 작업 완료 시 해결되는 Promise
+   * @returns {Promise<DestructiveRunResult>} - 삭제 계획과 실행 여부(dry-run, held, executed)
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
    * 1. 쿠팡과 네이버의 품절 상품에서 온채널 상품 코드 추출
-   * 2. 배치 단위로 상품 삭제 작업을 수행하여 성능 최적화
-   * 3. 진행 상황 및 결과를 로깅
+   * 2. 삭제 계획을 안전 기준과 비교 (dry-run 이거나 기준을 넘으면 삭제하지 않고 계획만 반환)
+   * 3. 배치 단위로 상품 삭제 작업을 수행하여 성능 최적화
+   * 4. 진행 상황 및 결과를 로깅
    */
   async deleteProducts(
     cronId: string,
@@ -47,7 +62,8 @@ export class OnchCrawlerService {
     type: string,
     matchedCoupangProducts: any[],
     matchedNaverProducts?: any[],
-  ): Promise<void> {
+    options: DestructiveOptions = {},
+  ): Promise<DestructiveRunResult> {
     console.log(`${type}${cronId}: 온채널 품절상품 삭제`);
     const contextId = `context-${store}-${cronId}`;
 
@@ -58,9 +74,33 @@ export class OnchCrawlerService {
     );
     const totalProducts = productCodesArray.length;
 
+    // 삭제 계획 확인 (dry-run 이거나 안전 기준을 넘으면 여기서 종료)
+    const catalogSize =
+      options.catalogSize ??
+      (totalProducts > 0 && !options.approvalId
+        ? await this.onchRepository.countOnchProducts()
+        : undefined);
+    const decision = await this.approvalService.guard({
+      action: 'onch-queue:deleteProducts',
+      cronId,
+      type,
+      store,
+      // 상위 작업(품절 / 컨펌 상품 삭제)의 승인 계획과 비교할 수 있도록 쿠팡 상품 ID 로 계획 작성
+      items: [
+        ...matchedCoupangProducts.map((product) => ({
+          id: product.sellerProductId,
+          name: product.sellerProductName,
+        })),
+        ...(matchedNaverProducts ?? []).map((product) => ({ id: product.sellerManagementCode })),
+      ],
+      catalogSize,
+      options,
+    });
+    if (decision.status !== 'executed') return decision;
+
     if (totalProducts === 0) {
       console.log(`${type}${cronId}: 삭제할 상품이 없습니다.`);
-      return;
+      return decision;
     }
 
     console.log(`${type}${cronId}: 총 ${totalProducts}개 상품 삭제 예정`);
@@ -79,12 +119,141 @@ export class OnchCrawlerService {
       console.log(
         `${type}${cronId}: 상품 삭제 작업 완료. 성공: ${result.successCount}, 실패: ${result.failedCount}`,
       );
+      return decision;
     } finally {
       // 컨텍스트 리소스 해제
       await this.playwrightService.releaseContext(contextId);
     }
   }
 
+  /**
+   * 삭제 시 보관한 상품을 온채널 판매상품 목록에 다시 추가합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param store - 스토어 식별자 (온채널 계정 구분용)
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param productCode - 복원할 상품 코드 (CH0000000)
+   *
+   * @returns {Promise<ProductRestoreResult>} - 복원 결과
+   *
+   * @description
+   * 재입고 확인(restockCron)에서 자동으로 호출하지 않는 수동 실행 전용 패턴입니다.
+   * 1. 상품 코드로 아직 복원하지 않은 가장 최근 보관 기록 조회 (상품 고유번호가 없으면 복원 불가)
+   * 2. 온채널에 로그인하여 상품 상세 페이지의 재고 확인 (품절이면 등록하지 않음)
+   * 3. 상품 상세 페이지에서 판매상품 등록
+   * 4. 보관 기록에 복원 일시 기록
+   */
+  async restoreProduct(
+    cronId: string,
+    store: string,
+    type: string,
+    productCode: string,
+  ): Promise<ProductRestoreResult> {
+    const archive = await this.onchRepository.getLatestProductArchive(productCode);
+    if (!archive?.productNum) {
+      console.warn(`${type}${cronId}: 복원할 온채널 상품 보관 기록이 없습니다 - ${productCode}`);
+      return { productCode, status: 'not-found', archiveId: archive?.id };
+    }
+
+    const contextId = `context-${store}-${cronId}-restore`;
+    const pageId = `page-${store}-${cronId}-restore`;
+
+    try {
+      const onchPage = await this.playwrightService.loginToOnchSite(store, contextId, pageId);
+
+      const available = await this.checkProductStockProvider.checkStock(
+        onchPage,
+        archive.productNum,
+      );
+      if (!available) {
+        console.warn(`${type}${cronId}: 품절 상품은 복원하지 않습니다 - ${productCode}`);
+        return { productCode, status: 'out-of-stock', archiveId: archive.id };
+      }
+
+      const added = await this.restoreProductProvider.addRegisteredProduct(
+        onchPage,
+        archive.productNum,
+        productCode,
+        cronId,
+        type,
+      );
+      if (!added) {
+        return {
+          productCode,
+          status: 'failed',
+          archiveId: archive.id,
+          error: '판매상품 등록 버튼을 찾을 수 없습니다.',
+        };
+      }
+
+      await this.onchRepository.markProductArchiveRestored(archive.id);
+      return { productCode, status: 'restored', archiveId: archive.id };
+    } catch (error: any) {
+      console.error(
+        `${CronType.ERROR}${type}${cronId}: 온채널 상품 복원 실패 - ${productCode}\n`,
+        error.message,
+      );
+      return { productCode, status: 'failed', archiveId: archive.id, error: error.message };
+    } finally {
+      await this.playwrightService.releaseContext(contextId);
+    }
+  }
+
+  /**
+   * 품절로 판매 중지한 상품들의 온채널 재고를 다시 확인합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param store - 스토어 식별자 (온채널 계정 구분용)
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   * @param productCodes - 확인할 상품 코드 목록 (CH0000000)
+   *
+   * @returns {Promise<OnchStockStatus[]>} - 상품 코드별 판매 가능 여부
+   *
+   * @description
+   * 1. 온채널 사이트에 로그인
+   * 2. 상품마다 판매상품 목록 검색 (없으면 삭제 시 보관한 고유번호 사용) → 상세 페이지의 품절 표시 확인 (순차 처리)
+   * 3. 확인 중 오류가 난 상품은 available 을 null 로 반환하여 다음 실행에서 다시 확인
+   */
+  async checkProductStock(
+    cronId: string,
+    store: string,
+    type: string,
+    productCodes: string[],
+  ): Promise<OnchStockStatus[]> {
+    const contextId = `context-${store}-${cronId}-stock`;
+    const pageId = `page-${store}-${cronId}-stock`;
+
+    console.log(`${type}${cronId}: 온채널 재고 확인 ${productCodes.length}개`);
+    const results: OnchStockStatus[] = [];
+
+    try {
+      const onchPage = await this.playwrightService.loginToOnchSite(store, contextId, pageId);
+
+      for (const productCode of productCodes) {
+        try {
+          // 판매상품 목록에서 삭제된 상품은 보관 기록의 고유번호로 확인
+          const productNum =
+            (await this.checkProductStockProvider.findProductNum(onchPage, productCode)) ??
+            (await this.onchRepository.getLatestProductArchive(productCode))?.productNum;
+          const available = productNum
+            ? await this.checkProductStockProvider.checkStock(onchPage, productNum)
+            : null;
+          results.push({ productCode, available });
+        } catch (error: any) {
+          console.error(
+            `${CronType.ERROR}${type}${cronId}: 상품 "${productCode}" 재고 확인 실패\n`,
+            error.message,
+          );
+          results.push({ productCode, available: null });
+        }
+      }
+
+      return results;
+    } finally {
+      await this.playwrightService.releaseContext(contextId);
+    }
+  }
+
   /**
    * 온채널에서 마지막 크론 작업 이후 품절된 상품들을 크롤링하는 메서드
    *
@@ -257,6 +426,14 @@ export class OnchCrawlerService {
       console.log(
         `${CronType.PRICE}${cronId}: 온채널 판매상품 상세정보 크롤링 완료. 성공: ${result.successCount}, 실패: ${result.failCount}`,
       );
+      if (result.failedItems.length > 0) {
+        console.warn(
+          `${CronType.ERROR}${cronId}: 상세정보 크롤링 실패 상품 ${result.failedItems.length}건`,
+          result.failedItems.map(
+            ({ item, error, attempts }) => `${item} (${attempts}회): ${error}`,
+          ),
+        );
+      }
     } catch (error) {
       console.error(`${CronType.ERROR}${cronId}: 병렬 크롤링 중 심각한 오류 발생`, error);
       throw error;
@@ -276,7 +453,7 @@ export class OnchCrawlerService {
    * @returns {Promise<Array>} - 각 주문 항목별 발주 결과 객체를 포함하는 배열을 반환하는 Promise
    *                            성공 시: {status: 'success', orderId, ordererName, receiverName, sellerProductName, sellerProductItemName, shippingCount}
    *                            실패 시: {status: 'failed', orderId, ordererName, receiverName, productCode, sellerProductName,
-   *                                    sellerProductItemName, shippingCount, safeNumber, fullAddress, error}
+   *                                    sellerProductItemName, shippingCount, safeNumber, fullAddress, error, artifacts}
    *
    * @throws {Error} - Playwright 작업 중 발생하는 모든 오류는 개별 주문 항목 처리에서 캐치되어 결과 배열에 포함됨
    *
@@ -290,7 +467,7 @@ export class OnchCrawlerService {
    *    d. 주문 수량 설정
    *    e. 주문자, 수령인 등 주문 상세 정보 입력
    *    f. 주문 완료 버튼 클릭 및 확인 대화상자 자동 수락
-   *    g. 주문 결과 기록
+   *    g. 주문 결과 기록 (실패 시 스크린샷 / HTML / 트레이스 경로 포함)
    * 3. 모든 주문 처리 완료 후 Playwright 컨텍스트 리소스 해제
    *
    * 주문 정보 검증 과정에서 불일치가 발견되면 로그에 경고 메시지를 출력하지만,
@@ -350,12 +527,16 @@ export class OnchCrawlerService {
             await this.automaticOrderingProvider.fillOrderDetails(onchPage, order, cronId, type);
 
             // 주문 처리
-            const completeButtonSelector = '.btnOrderComplete';
+            const completeButton = await this.selectorService.locate(
+              onchPage,
+              'onch.orderForm.completeButton',
+              { timeout: 30000 },
+            );
             onchPage.once('dialog', async (dialog) => {
               await dialog.accept();
             });
 
-            await onchPage.click(completeButtonSelector);
+            await completeButton.first().click();
             await onchPage.waitForLoadState('networkidle');
 
             await onchPage.goto('https://www.onch3.co.kr/index.php');
@@ -382,6 +563,12 @@ export class OnchCrawlerService {
               safeNumber: order.receiver.safeNumber,
               fullAddress: order.receiver.addr1 + order.receiver.addr2,
               error: error.message,
+              // 실패 시점의 페이지 상태를 저장하여 메일에 첨부
+              artifacts: await this.playwrightService.captureFailureArtifacts(
+                onchPage,
+                cronId,
+                `order-${order.orderId}-${productCode}`,
+              ),
             });
           }
         }
@@ -444,4 +631,35 @@ export class OnchCrawlerService {
       await this.playwrightService.releaseContext(contextId);
     }
   }
+
+  /**
+   * 온채널 크롤러에서 사용하는 셀렉터가 여전히 동작하는지 점검하는 메서드
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param store - 스토어 식별자 (온채널 계정 구분용)
+   * @param type - 로그 메시지에 포함될 작업 유형 식별자
+   *
+   * @returns {Promise<SelectorHealthReport>} - 셀렉터별 점검 결과
+   *
+   * @description
+   * 1. 온채널 사이트에 로그인
+   * 2. 셀렉터 레지스트리에 등록된 온채널 페이지를 순회하며 셀렉터 점검
+   * 3. 작업 완료 후 Playwright 컨텍스트 해제
+   */
+  async checkSelectorHealth(
+    cronId: string,
+    store: string,
+    type: string,
+  ): Promise<SelectorHealthReport> {
+    console.log(`${type}${cronId}: 온채널 셀렉터 상태 점검 시작`);
+    const contextId = `context-${store}-${cronId}`;
+    const pageId = `page-${store}-${cronId}`;
+
+    try {
+      const onchPage = await this.playwrightService.loginToOnchSite(store, contextId, pageId);
+      return await this.selectorService.checkHealth(onchPage, 'onch');
+    } finally {
+      await this.playwrightService.releaseContext(contextId);
+    }
+  }
 }
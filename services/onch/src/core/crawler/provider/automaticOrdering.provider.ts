@@ -1,9 +1,12 @@
 import { CronType } from '@daechanjo/models';
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
-import { Page } from 'playwright';
+import { Locator, Page } from 'playwright';
 
 @Injectable()
 export class AutomaticOrderingProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
   /**
    * 온채널 사이트에서 상품 코드로 상품을 검색하고 발주 페이지로 이동하는 메서드
    *
@@ -29,8 +32,11 @@ export class AutomaticOrderingProvider {
   async searchProduct(page: Page, query: string, cronId: string, type: string): Promise<void> {
     console.log(`${type}${cronId}: 상품 검색 시작`);
 
-    // page.type() 대신 권장되는 page.fill() 사용
-    await page.fill('#prd_sear_txt', query);
+    // page.type() 대신 권장되는 fill() 사용
+    const searchInput = await this.selectorService.locate(page, 'onch.productSearch.searchInput', {
+      timeout: 30000,
+    });
+    await searchInput.first().fill(query);
 
     // Promise.all로 네비게이션과 액션 동시 대기
     await Promise.all([
@@ -39,11 +45,13 @@ export class AutomaticOrderingProvider {
     ]);
 
     // 주문 버튼 존재 확인
-    const orderButtonSelector = '.btn_order';
+    let orderButton: Locator;
 
     try {
       // 주문 버튼이 나타날 때까지 명시적으로 대기 (타임아웃 추가)
-      await page.waitForSelector(orderButtonSelector, { timeout: 5000 });
+      orderButton = await this.selectorService.locate(page, 'onch.productSearch.orderButton', {
+        timeout: 5000,
+      });
     } catch (error) {
       throw new Error(
         `${CronType.ERROR}${CronType.ORDER}${cronId}: 제품 코드에 대한 주문 버튼을 찾을 수 없습니다: ${query}\n${error}`,
@@ -51,7 +59,7 @@ export class AutomaticOrderingProvider {
     }
 
     // 주문 버튼 클릭 후 페이지 로드 대기
-    await Promise.all([page.waitForLoadState('networkidle'), page.click(orderButtonSelector)]);
+    await Promise.all([page.waitForLoadState('networkidle'), orderButton.first().click()]);
 
     console.log(`${type}${cronId}: 발주 페이지 진입`);
   }
@@ -70,7 +78,7 @@ export class AutomaticOrderingProvider {
    *
    * @description
    * 이 메서드는 다음 단계로 진행됩니다:
-   * 1. 페이지에서 옵션 드롭다운(.selectOptionList) 요소를 찾아 모든 옵션을 추출
+   * 1. 페이지에서 옵션 드롭다운(셀렉터 레지스트리의 onch.orderForm.optionSelect) 요소를 찾아 모든 옵션을 추출
    * 2. 추출한 모든 옵션을 콘솔에 출력하여 디버깅 용이성 제공
    * 3. 공백을 제거한 정규화된 텍스트 비교를 통해 지정된 옵션과 일치하는 항목 검색
    *    (정확히 일치하거나 옵션 텍스트에 지정된 옵션이 포함된 경우 선택)
@@ -88,16 +96,21 @@ export class AutomaticOrderingProvider {
   ): Promise<void> {
     console.log(`${type}${cronId}: 옵션 설정 시작`);
 
+    const optionSelectSelector = await this.selectorService.resolveCss(
+      page,
+      'onch.orderForm.optionSelect',
+    );
+
     // 모든 옵션 텍스트를 추출하여 반환
-    const allOptions = await page.evaluate(() => {
-      const select = document.querySelector('.selectOptionList') as HTMLSelectElement;
+    const allOptions = await page.evaluate((optionSelectSelector) => {
+      const select = document.querySelector(optionSelectSelector) as HTMLSelectElement;
       if (!select) return [];
 
       return Array.from(select.options).map((opt) => ({
         text: opt.textContent?.trim() || '',
         value: opt.value,
       }));
-    });
+    }, optionSelectSelector);
 
     // Node.js 환경에서 옵션 리스트 출력
     console.log('사용 가능한 모든 옵션:');
@@ -121,13 +134,16 @@ export class AutomaticOrderingProvider {
     }
 
     // 찾은 옵션 선택
-    await page.evaluate((optionValue) => {
-      const select = document.querySelector('.selectOptionList') as HTMLSelectElement;
-      if (!select) throw new Error('옵션 리스트를 찾을 수 없습니다.');
-
-      select.value = optionValue;
-      select.dispatchEvent(new Event('change'));
-    }, targetOption.value);
+    await page.evaluate(
+      ({ optionValue, optionSelectSelector }) => {
+        const select = document.querySelector(optionSelectSelector) as HTMLSelectElement;
+        if (!select) throw new Error('옵션 리스트를 찾을 수 없습니다.');
+
+        select.value = optionValue;
+        select.dispatchEvent(new Event('change'));
+      },
+      { optionValue: targetOption.value, optionSelectSelector },
+    );
 
     console.log(`${type}${cronId}: "${targetOption.text}" 옵션 설정 완료`);
   }
@@ -160,13 +176,11 @@ export class AutomaticOrderingProvider {
     if (!quantity)
       throw new Error(`${CronType.ERROR}${type}${cronId}: 발주 개수를 찾을 수 없습니다.`);
 
-    const optionQuantitySelector = '.optionQuantity';
-
     try {
-      const quantityField = await page.waitForSelector(optionQuantitySelector, {
-        state: 'visible',
-        timeout: 5000,
-      });
+      const quantityField = (
+        await this.selectorService.locate(page, 'onch.orderForm.quantityInput', { timeout: 5000 })
+      ).first();
+      await quantityField.waitFor({ state: 'visible', timeout: 5000 });
 
       await quantityField.click({ clickCount: 3 });
 
@@ -216,11 +230,19 @@ export class AutomaticOrderingProvider {
       throw new Error(`${CronType.ERROR}${type}${cronId}: 수취인 주소를 찾을 수 없습니다.`);
     }
 
-    const nameField = page.locator('input.orderName');
-    const phoneField = page.locator('input.orderPhone');
-    const postcodeField = page.locator('input.postcode');
-    const addressField = page.locator('input.orderAddress');
-    const commentField = page.locator('textarea.comment');
+    const [nameField, phoneField, postcodeField, addressField, commentField] = (
+      await Promise.all(
+        (
+          [
+            'onch.orderForm.ordererName',
+            'onch.orderForm.ordererPhone',
+            'onch.orderForm.postcode',
+            'onch.orderForm.address',
+            'onch.orderForm.comment',
+          ] as const
+        ).map((key) => this.selectorService.locate(page, key, { timeout: 30000 })),
+      )
+    ).map((locator) => locator.first());
 
     // 병렬로 요소들이 로드될 때까지 대기
     await Promise.all([
@@ -271,7 +293,9 @@ export class AutomaticOrderingProvider {
     cronId: string,
     type: string,
   ): Promise<any> {
-    const completeButton = page.locator('.btnOrderComplete');
+    const completeButton = (
+      await this.selectorService.locate(page, 'onch.orderForm.completeButton', { timeout: 30000 })
+    ).first();
     await completeButton.waitFor({ state: 'visible' });
 
     // 확인 대화상자가 표시될 때 자동으로 수락하도록 이벤트 리스너 설정
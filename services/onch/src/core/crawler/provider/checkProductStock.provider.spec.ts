@@ -0,0 +1,36 @@
+import { CheckProductStockProvider } from './checkProductStock.provider';
+
+describe('CheckProductStockProvider', () => {
+  const page = { goto: jest.fn().mockResolvedValue(null) };
+
+  // 찾을 수 있는 셀렉터 키만 요소를 반환하는 SelectorService
+  const createProvider = (found: string[]) =>
+    new CheckProductStockProvider({
+      query: jest.fn(async (_page, key: string) => (found.includes(key) ? {} : null)),
+    } as any);
+
+  it('품절 표시가 있으면 false 를 반환한다', async () => {
+    const provider = createProvider([
+      'onch.productDetail.soldoutMark',
+      'onch.productDetail.availableMark',
+    ]);
+
+    await expect(provider.checkStock(page as any, '12345')).resolves.toBe(false);
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://www.onch3.co.kr/dbcenter_renewal/dbcenter_view.html?num=12345',
+      expect.anything(),
+    );
+  });
+
+  it('옵션 목록 / 주문 버튼이 있으면 true 를 반환한다', async () => {
+    const provider = createProvider(['onch.productDetail.availableMark']);
+
+    await expect(provider.checkStock(page as any, '12345')).resolves.toBe(true);
+  });
+
+  it('품절 / 판매 가능 표시를 모두 찾지 못하면 null 을 반환한다', async () => {
+    const provider = createProvider([]);
+
+    await expect(provider.checkStock(page as any, '12345')).resolves.toBeNull();
+  });
+});
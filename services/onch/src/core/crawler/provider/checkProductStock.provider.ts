@@ -0,0 +1,58 @@
+import { SelectorService } from '@daechanjo/playwright';
+import { Injectable } from '@nestjs/common';
+import { Page } from 'playwright';
+
+@Injectable()
+export class CheckProductStockProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
+  /**
+   * 판매상품 목록에서 상품 코드로 상품 고유번호(num)를 찾습니다.
+   *
+   * @param page - 온채널에 로그인된 Playwright 페이지 객체
+   * @param productCode - 찾을 상품 코드
+   * @returns 상품 고유번호, 판매상품 목록에 없으면 null
+   */
+  async findProductNum(page: Page, productCode: string): Promise<string | null> {
+    await page.goto(`https://www.onch3.co.kr/admin_mem_prd_list.html?ost=${productCode}`, {
+      timeout: 30000,
+      waitUntil: 'domcontentloaded',
+    });
+
+    const productLink = await this.selectorService.query(
+      page,
+      'onch.registeredProducts.productLink',
+    );
+    const href = productLink ? await productLink.getAttribute('href') : null;
+    return href?.match(/num=(\d+)/)?.[1] ?? null;
+  }
+
+  /**
+   * 상품 상세 페이지의 품절 여부를 확인합니다.
+   *
+   * @param page - 온채널에 로그인된 Playwright 페이지 객체
+   * @param productNum - 상품 상세 페이지 고유번호 (dbcenter_view.html?num=)
+   * @returns 판매 가능하면 true, 품절이면 false, 판단할 수 없으면 null
+   *
+   * @description
+   * 판매상품 목록에서 삭제된 상품도 상세 페이지는 남아 있으므로,
+   * 보관 기록의 고유번호로 삭제한 상품의 재고를 확인할 수 있습니다.
+   * 품절 표시가 없다는 것만으로는 판매 가능으로 보지 않고, 옵션 목록이나 주문 버튼이 있어야 true 를 반환합니다.
+   * 페이지 구조가 바뀌어 두 표시를 모두 찾지 못하면 null 을 반환하여 판매를 재개하지 않습니다.
+   */
+  async checkStock(page: Page, productNum: string): Promise<boolean | null> {
+    await page.goto(
+      `https://www.onch3.co.kr/dbcenter_renewal/dbcenter_view.html?num=${productNum}`,
+      { timeout: 30000, waitUntil: 'domcontentloaded' },
+    );
+
+    const soldoutMark = await this.selectorService.query(page, 'onch.productDetail.soldoutMark');
+    if (soldoutMark) return false;
+
+    const availableMark = await this.selectorService.query(
+      page,
+      'onch.productDetail.availableMark',
+    );
+    return availableMark ? true : null;
+  }
+}
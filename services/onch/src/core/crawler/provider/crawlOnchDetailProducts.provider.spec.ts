@@ -0,0 +1,37 @@
+import * as path from 'node:path';
+
+import { FixturePage, openFixturePage } from '@daechanjo/playwright';
+
+import { CrawlOnchDetailProductsProvider } from './crawlOnchDetailProducts.provider';
+
+// 온채널 상품 상세 페이지 스냅샷 (num=12345)
+const FIXTURE_DIR = path.resolve(__dirname, '../../../../test/fixtures');
+
+describe('CrawlOnchDetailProductsProvider', () => {
+  let fixture: FixturePage;
+  const provider = new CrawlOnchDetailProductsProvider();
+
+  beforeAll(async () => {
+    fixture = await openFixturePage(FIXTURE_DIR);
+  }, 60000);
+
+  afterAll(async () => {
+    await fixture?.close();
+  });
+
+  it('상품 상세 페이지에서 코드, 가격, 배송비, 옵션을 추출한다', async () => {
+    const result = await provider.extractProductDetails(fixture.page, '12345');
+
+    expect(result).toEqual({
+      productCode: 'CH0000001',
+      consumerPrice: 15000,
+      sellerPrice: 10000,
+      shippingCost: 3000,
+      onchItems: [
+        { itemName: '블랙 / L', consumerPrice: 15000, sellerPrice: 10000 },
+        { itemName: '화이트 / XL', consumerPrice: 16000, sellerPrice: 11000 },
+      ],
+    });
+    expect(fixture.server.missing).toEqual([]);
+  });
+});
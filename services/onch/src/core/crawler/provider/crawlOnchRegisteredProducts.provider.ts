@@ -1,8 +1,11 @@
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
 @Injectable()
 export class CrawlOnchRegisteredProductsProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
   /**
    * 온채널 관리자 사이트의 상품 목록 페이지를 페이지네이션하며 상품 ID를 추출합니다.
    *
@@ -28,16 +31,19 @@ export class CrawlOnchRegisteredProductsProvider {
         { waitUntil: 'networkidle' },
       );
 
+      const productLinkSelector = await this.selectorService.resolveCss(
+        page,
+        'onch.registeredProducts.productLink',
+      );
+
       // 현재 페이지에서 상품 고유번호 추출 (셀렉터 최적화)
-      const productIds = await page.$$eval(
-        'a[href^="./dbcenter_renewal/dbcenter_view.html?num="]',
-        (links) =>
-          links
-            .map((link) => {
-              const match = link.getAttribute('href')?.match(/num=(\d+)/);
-              return match ? match[1] : null;
-            })
-            .filter((id) => id !== null),
+      const productIds = await page.$$eval(productLinkSelector, (links) =>
+        links
+          .map((link) => {
+            const match = link.getAttribute('href')?.match(/num=(\d+)/);
+            return match ? match[1] : null;
+          })
+          .filter((id) => id !== null),
       );
 
       // 상품 ID가 없으면 크롤링 중지
@@ -0,0 +1,32 @@
+import * as path from 'node:path';
+
+import { FixturePage, openFixturePage, SelectorService } from '@daechanjo/playwright';
+
+import { CrawlingOnchSoldoutProductsProvider } from './crawlingOnchSoldoutProducts.provider';
+
+// 온채널 품절 상품 페이지 스냅샷 (test/fixtures, 갱신: npm run fixtures:record -- --site onch)
+const FIXTURE_DIR = path.resolve(__dirname, '../../../../test/fixtures');
+
+describe('CrawlingOnchSoldoutProductsProvider', () => {
+  let fixture: FixturePage;
+  const provider = new CrawlingOnchSoldoutProductsProvider({} as any, new SelectorService());
+
+  beforeAll(async () => {
+    fixture = await openFixturePage(FIXTURE_DIR);
+  }, 60000);
+
+  afterAll(async () => {
+    await fixture?.close();
+  });
+
+  it('품절 상품 목록에서 상품 코드만 추출한다', async () => {
+    await fixture.page.goto(
+      'https://www.onch3.co.kr/admin_mem_clo_list_2.php?ost=&sec=clo&ol=&npage=',
+    );
+
+    const result = await provider.extractSoldOutProducts(fixture.page);
+
+    expect(result).toEqual({ soldoutProductCodes: ['CH0000001', 'CH0000002'] });
+    expect(fixture.server.missing).toEqual([]);
+  });
+});
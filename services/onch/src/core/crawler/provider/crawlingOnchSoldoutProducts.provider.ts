@@ -1,10 +1,13 @@
-import { PlaywrightService } from '@daechanjo/playwright';
+import { PlaywrightService, SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
 @Injectable()
 export class CrawlingOnchSoldoutProductsProvider {
-  constructor(private readonly playwrightService: PlaywrightService) {}
+  constructor(
+    private readonly playwrightService: PlaywrightService,
+    private readonly selectorService: SelectorService,
+  ) {}
 
   /**
    * 온채널 관리자 사이트에 로그인하고 품절 상품 목록 페이지로 이동합니다.
@@ -51,43 +54,51 @@ export class CrawlingOnchSoldoutProductsProvider {
    * - 날짜 정보는 ISO 문자열 형식으로 변환하여 반환
    */
   async extractSoldOutProducts(page: Page): Promise<{ soldoutProductCodes: string[] }> {
-    return await page.evaluate(() => {
-      const stockProductCodes = [];
-      const productDates = [];
+    const [productCodeCellSelector, dateCellSelector] = await Promise.all([
+      this.selectorService.resolveCss(page, 'onch.soldoutProducts.productCodeCell'),
+      this.selectorService.resolveCss(page, 'onch.soldoutProducts.dateCell'),
+    ]);
 
-      // 상품 정보가 있는 테이블 찾기
-      const productRows = Array.from(
-        document.querySelectorAll('table tbody tr td.title_3.sub_title'),
-      ).filter((td) => td.querySelector('b'));
+    return await page.evaluate(
+      ({ productCodeCellSelector, dateCellSelector }) => {
+        const stockProductCodes = [];
+        const productDates = [];
 
-      // 각 상품 행에서 데이터 추출
-      productRows.forEach((cell) => {
-        // 코드 추출 (b 태그 안에 있는 코드)
-        const codeElement = cell.querySelector('b');
-        if (codeElement) {
-          const codeText = codeElement.textContent?.trim() || '';
-          stockProductCodes.push(codeText);
-        }
+        // 상품 정보가 있는 테이블 찾기
+        const productRows = Array.from(document.querySelectorAll(productCodeCellSelector)).filter(
+          (td) => td.querySelector('b'),
+        );
 
-        // 이 셀과 관련된 날짜 셀 찾기 (같은 행 내의 날짜 셀)
-        const row = cell.closest('tr');
-        const dateCell = row?.querySelector('td.title_4.sub_title');
+        // 각 상품 행에서 데이터 추출
+        productRows.forEach((cell) => {
+          // 코드 추출 (b 태그 안에 있는 코드)
+          const codeElement = cell.querySelector('b');
+          if (codeElement) {
+            const codeText = codeElement.textContent?.trim() || '';
+            stockProductCodes.push(codeText);
+          }
+
+          // 이 셀과 관련된 날짜 셀 찾기 (같은 행 내의 날짜 셀)
+          const row = cell.closest('tr');
+          const dateCell = row?.querySelector(dateCellSelector);
 
-        if (dateCell) {
-          const dateText = dateCell.textContent?.trim() || '';
-          // 날짜 파싱 (형식: '2023-01-01 14:30:00')
-          const productDate = new Date(dateText.slice(0, 10) + 'T' + dateText.slice(11));
+          if (dateCell) {
+            const dateText = dateCell.textContent?.trim() || '';
+            // 날짜 파싱 (형식: '2023-01-01 14:30:00')
+            const productDate = new Date(dateText.slice(0, 10) + 'T' + dateText.slice(11));
 
-          // 유효한 날짜인 경우만 처리
-          if (!isNaN(productDate.getTime())) {
-            productDates.push(productDate.toISOString());
+            // 유효한 날짜인 경우만 처리
+            if (!isNaN(productDate.getTime())) {
+              productDates.push(productDate.toISOString());
+            }
           }
-        }
-      });
+        });
 
-      return {
-        soldoutProductCodes: stockProductCodes,
-      };
-    });
+        return {
+          soldoutProductCodes: stockProductCodes,
+        };
+      },
+      { productCodeCellSelector, dateCellSelector },
+    );
   }
 }
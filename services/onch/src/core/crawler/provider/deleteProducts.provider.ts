@@ -1,11 +1,17 @@
 import { CronType, Dialog } from '@daechanjo/models';
-import { PlaywrightService } from '@daechanjo/playwright';
+import { PlaywrightService, SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
+import { OnchRepository } from '../../../infrastructure/repository/onch.repository';
+
 @Injectable()
 export class DeleteProductsProvider {
-  constructor(private readonly playwrightService: PlaywrightService) {}
+  constructor(
+    private readonly playwrightService: PlaywrightService,
+    private readonly selectorService: SelectorService,
+    private readonly onchRepository: OnchRepository,
+  ) {}
 
   /**
    * 여러 플랫폼의 품절 상품 데이터에서 온채널 상품 코드를 추출하고 중복을 제거합니다.
@@ -137,8 +143,10 @@ export class DeleteProductsProvider {
    * @returns 성공 여부 (boolean)
    *
    * @description
-   * - 상품 관리 페이지로 이동하여 삭제 버튼 클릭
-   * - 대화상자 이벤트 처리
+   * - 상품 관리 페이지로 이동
+   * - 복원할 수 있도록 상품 고유번호와 상품 정보를 보관 (보관하지 못하면 삭제하지 않음)
+   * - 삭제 버튼 클릭 및 대화상자 이벤트 처리
+   * - 삭제하지 못하면 보관 기록 제거
    * - 성공/실패 로깅 및 에러 처리
    */
   async deleteSingleProduct(
@@ -149,6 +157,7 @@ export class DeleteProductsProvider {
     type: string,
   ): Promise<boolean> {
     let page = null;
+    let archiveId: number | null = null;
 
     try {
       // 페이지 생성
@@ -162,11 +171,16 @@ export class DeleteProductsProvider {
         waitUntil: 'domcontentloaded',
       });
 
+      // 삭제 전 상품 보관
+      archiveId = await this.archiveProduct(page, productCode, cronId, type);
+
       // 삭제 버튼 찾기
-      const deleteButton = page.locator('a[onclick^="prd_list_del"]');
-      const hasDeleteButton = (await deleteButton.count()) > 0;
+      const deleteButton = await this.selectorService.query(
+        page,
+        'onch.registeredProducts.deleteButton',
+      );
 
-      if (hasDeleteButton) {
+      if (deleteButton) {
         // 삭제 버튼 클릭 및 대화상자 처리를 위한 기다림
         await Promise.all([
           // 삭제 버튼 클릭
@@ -182,6 +196,7 @@ export class DeleteProductsProvider {
         return true;
       } else {
         console.log(`${type}${cronId}: 상품 "${productCode}"에 대한 삭제 버튼을 찾을 수 없음`);
+        await this.onchRepository.removeProductArchive(archiveId);
         return false;
       }
     } catch (error: any) {
@@ -189,6 +204,7 @@ export class DeleteProductsProvider {
         `${CronType.ERROR}${type}${cronId}: 상품 "${productCode}" 삭제 중 오류 발생\n`,
         error.message,
       );
+      if (archiveId !== null) await this.onchRepository.removeProductArchive(archiveId);
       return false;
     } finally {
       // 페이지 리소스 해제
@@ -197,4 +213,43 @@ export class DeleteProductsProvider {
       }
     }
   }
+
+  /**
+   * 판매상품 목록 페이지에서 상품 고유번호를 읽고, 저장된 상품 정보와 함께 보관합니다.
+   *
+   * @param page - 상품 코드로 검색한 판매상품 목록 페이지
+   * @param productCode - 삭제할 상품 코드
+   * @param cronId - 크론 작업 ID
+   * @param type - 작업 유형
+   * @returns 보관 기록 ID
+   */
+  async archiveProduct(
+    page: Page,
+    productCode: string,
+    cronId: string,
+    type: string,
+  ): Promise<number> {
+    const productLink = await this.selectorService.query(
+      page,
+      'onch.registeredProducts.productLink',
+    );
+    const href = productLink ? await productLink.getAttribute('href') : null;
+    const productNum = href?.match(/num=(\d+)/)?.[1] ?? null;
+    if (!productNum) {
+      console.warn(
+        `${type}${cronId}: 상품 "${productCode}"의 고유번호를 찾을 수 없어 복원할 수 없습니다`,
+      );
+    }
+
+    const product = await this.onchRepository.getOnchProductByCode(productCode);
+
+    const archive = await this.onchRepository.saveProductArchive({
+      productCode,
+      productNum,
+      product,
+      type,
+      cronId,
+    });
+    return archive.id;
+  }
 }
@@ -0,0 +1,38 @@
+import * as path from 'node:path';
+
+import { FixturePage, openFixturePage, SelectorService } from '@daechanjo/playwright';
+
+import { DeliveryExtractionProvider } from './deliveryExtraction.provider';
+
+// 온채널 주문 관리 페이지 스냅샷 (고객 이름 / 연락처는 더미 값으로 치환)
+const FIXTURE_DIR = path.resolve(__dirname, '../../../../test/fixtures');
+
+describe('DeliveryExtractionProvider', () => {
+  let fixture: FixturePage;
+  const provider = new DeliveryExtractionProvider(new SelectorService());
+
+  beforeAll(async () => {
+    fixture = await openFixturePage(FIXTURE_DIR);
+  }, 60000);
+
+  afterAll(async () => {
+    await fixture?.close();
+  });
+
+  it('발송 일자가 있고 지원하는 택배사인 주문만 추출한다', async () => {
+    await fixture.page.goto('https://www.onch3.co.kr/admin_mem_prd.html');
+
+    const result = await provider.extractCurrentPageData(fixture.page);
+
+    expect(result).toEqual([
+      {
+        deliveryDate: '2025-01-02',
+        nameText: '홍길동',
+        phoneText: '0500-0000-0000',
+        courier: 'CJ 대한통운',
+        trackNumber: '000000000001',
+      },
+    ]);
+    expect(fixture.server.missing).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
 import { CronType, DeliveryData } from '@daechanjo/models';
+import { SelectorService } from '@daechanjo/playwright';
 import { Injectable } from '@nestjs/common';
 import { Page } from 'playwright';
 
@@ -6,6 +7,8 @@ import { courierNames } from '../../../common/couries';
 
 @Injectable()
 export class DeliveryExtractionProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
   /**
    * 운송장 데이터 추출 (페이지네이션 처리 포함)
    */
@@ -44,14 +47,26 @@ export class DeliveryExtractionProvider {
   }
 
   async extractCurrentPageData(onchPage: Page) {
+    const [orderItem, deliveryDate, customerName, customerPhone, trackButton] = await Promise.all(
+      (
+        [
+          'onch.deliveryList.orderItem',
+          'onch.deliveryList.deliveryDate',
+          'onch.deliveryList.customerName',
+          'onch.deliveryList.customerPhone',
+          'onch.deliveryList.trackButton',
+        ] as const
+      ).map((key) => this.selectorService.resolveCss(onchPage, key)),
+    );
+
     // 모든 제품 항목 가져오기
-    const productItems = await onchPage.locator('.prd_list_li').all();
+    const productItems = await onchPage.locator(orderItem).all();
     const results: DeliveryData[] = [];
 
     // 각 제품 항목에 대해 처리
     for (const item of productItems) {
       // 날짜 요소 찾기
-      const dateElement = item.locator('font[color="#135bc8"]').first();
+      const dateElement = item.locator(deliveryDate).first();
       // 날짜 요소가 없으면 건너뛰기
       if (!(await dateElement.count())) continue;
 
@@ -59,7 +74,7 @@ export class DeliveryExtractionProvider {
       const dateText = await dateElement.textContent();
 
       // 고객 이름 및 연락처 정보 추출
-      const nameElement = item.locator('.prd_list_name div');
+      const nameElement = item.locator(customerName);
       // 이름 추출 (첫 번째 텍스트 노드)
       const nameText = await nameElement.evaluate((el) => {
         // 첫 번째 텍스트 노드 찾기 (BR 태그 이전의 텍스트)
@@ -70,7 +85,7 @@ export class DeliveryExtractionProvider {
       });
 
       // 전화번호 추출 (font 태그 내 첫 번째 줄)
-      const phoneElement = nameElement.locator('font[color="#555555"]');
+      const phoneElement = nameElement.locator(customerPhone);
       const phoneText = await phoneElement.evaluate((el) => {
         // 첫 번째 줄만 가져오기 (br 태그 이전)
         const content = el.innerHTML.split('<br>')[0];
@@ -86,7 +101,7 @@ export class DeliveryExtractionProvider {
       // const paymentMethod = (await paymentMethodElement.textContent()) || '';
 
       // 택배사 정보 확인
-      const trackBtn = item.locator('.trackBtn');
+      const trackBtn = item.locator(trackButton);
       const courierName = (await trackBtn.getAttribute('data-name')) || '';
       const trackNumber = (await trackBtn.getAttribute('data-num')) || '';
 
@@ -0,0 +1,64 @@
+import { CronType } from '@daechanjo/models';
+import { SelectorService } from '@daechanjo/playwright';
+import { Injectable } from '@nestjs/common';
+import { Dialog, Page } from 'playwright';
+
+@Injectable()
+export class RestoreProductProvider {
+  constructor(private readonly selectorService: SelectorService) {}
+
+  /**
+   * 온채널 상품 상세 페이지에서 상품을 판매상품 목록에 다시 추가합니다.
+   *
+   * @param page - 온채널에 로그인된 Playwright 페이지 객체
+   * @param productNum - 상품 상세 페이지 고유번호 (dbcenter_view.html?num=)
+   * @param productCode - 로그에 표시할 상품 코드
+   * @param cronId - 크론 작업 ID
+   * @param type - 작업 유형
+   * @returns 성공 여부 (boolean)
+   *
+   * @description
+   * - 상품 상세 페이지로 이동하여 판매상품 등록 버튼 클릭
+   * - 등록 확인 대화상자는 자동으로 수락 (핸들러는 작업이 끝나면 해제)
+   */
+  async addRegisteredProduct(
+    page: Page,
+    productNum: string,
+    productCode: string,
+    cronId: string,
+    type: string,
+  ): Promise<boolean> {
+    const handleDialog = async (dialog: Dialog) => {
+      console.log(`${type}${cronId}: ${dialog.type()} 대화상자 처리 - ${dialog.message()}`);
+      await dialog.accept().catch(() => undefined);
+    };
+    page.on('dialog', handleDialog);
+
+    try {
+      await page.goto(
+        `https://www.onch3.co.kr/dbcenter_renewal/dbcenter_view.html?num=${productNum}`,
+        { timeout: 30000, waitUntil: 'domcontentloaded' },
+      );
+
+      const addButton = await this.selectorService.query(page, 'onch.productDetail.addButton');
+      if (!addButton) {
+        console.error(
+          `${CronType.ERROR}${type}${cronId}: 상품 "${productCode}"의 판매상품 등록 버튼을 찾을 수 없음`,
+        );
+        return false;
+      }
+
+      await Promise.all([
+        addButton.click(),
+        page.waitForEvent('dialog', { timeout: 2000 }).catch(() => {}),
+      ]);
+      await page.waitForTimeout(300);
+
+      console.log(`${type}${cronId}: 상품 "${productCode}" 판매상품 등록 완료`);
+      return true;
+    } finally {
+      // 같은 페이지로 여러 상품을 복원해도 대화상자 핸들러가 쌓이지 않도록 해제
+      page.off('dialog', handleDialog);
+    }
+  }
+}
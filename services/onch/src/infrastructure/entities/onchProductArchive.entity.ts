@@ -0,0 +1,42 @@
+import { OnchProduct } from '@daechanjo/models';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 온채널 판매상품 목록에서 삭제한 상품의 보관 기록
+ * 온채널 상품 고유번호(num)를 보관하여 restoreProduct 로 판매상품에 다시 추가할 수 있습니다.
+ */
+@Entity({ name: 'onch_product_archive' })
+export class OnchProductArchiveEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ name: 'product_code', type: 'varchar', length: 255 })
+  productCode: string;
+
+  /** 상품 상세 페이지 고유번호 (dbcenter_view.html?num=) */
+  @Column({ name: 'product_num', type: 'varchar', length: 255, nullable: true })
+  productNum: string;
+
+  /** 삭제 시점의 상품 정보 (가격, 배송비, 옵션) */
+  @Column({ type: 'jsonb', nullable: true })
+  product: OnchProduct;
+
+  /** 삭제한 작업 유형 (품절 등) */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  type: string;
+
+  @Column({ name: 'cron_id', type: 'varchar', length: 255, nullable: true })
+  cronId: string;
+
+  /** 삭제를 실행한 크론 흐름의 추적 ID (로그 / 감사 기록과 연결) */
+  @Index()
+  @Column({ name: 'correlation_id', type: 'varchar', length: 255, nullable: true })
+  correlationId: string;
+
+  @Column({ name: 'restored_at', type: 'timestamp', nullable: true })
+  restoredAt: Date;
+
+  @CreateDateColumn({ name: 'archived_at' })
+  archivedAt: Date;
+}
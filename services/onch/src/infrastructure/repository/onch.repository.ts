@@ -1,14 +1,18 @@
 import { OnchProduct } from '@daechanjo/models';
+import { getTraceContext } from '@daechanjo/rabbitmq';
 import { InjectRepository } from '@nestjs/typeorm';
 import { plainToInstance } from 'class-transformer';
-import { DataSource, Repository } from 'typeorm';
+import { DataSource, IsNull, Repository } from 'typeorm';
 
 import { OnchProductEntity } from '../entities/onchProduct.entity';
+import { OnchProductArchiveEntity } from '../entities/onchProductArchive.entity';
 
 export class OnchRepository {
   constructor(
     @InjectRepository(OnchProductEntity)
     private readonly onchRepository: Repository<OnchProductEntity>,
+    @InjectRepository(OnchProductArchiveEntity)
+    private readonly archiveRepository: Repository<OnchProductArchiveEntity>,
     private readonly dataSource: DataSource,
   ) {}
 
@@ -21,8 +25,43 @@ export class OnchRepository {
     return await this.onchRepository.find();
   }
 
+  async getOnchProductByCode(productCode: string) {
+    return await this.onchRepository.findOne({
+      where: { productCode },
+      relations: ['onchItems'],
+    });
+  }
+
+  async countOnchProducts() {
+    return await this.onchRepository.count();
+  }
+
   async clearOnchProducts() {
     // return await this.dataSource.query('TRUNCATE TABLE "onch_product" CASCADE');
     return await this.onchRepository.delete({});
   }
+
+  // 현재 추적 정보의 correlationId 를 함께 기록 (없으면 cronId)
+  async saveProductArchive(archive: Partial<OnchProductArchiveEntity>) {
+    return await this.archiveRepository.save({
+      correlationId: getTraceContext()?.correlationId ?? archive.cronId,
+      ...archive,
+    });
+  }
+
+  async removeProductArchive(id: number) {
+    return await this.archiveRepository.delete({ id });
+  }
+
+  // 아직 복원하지 않은 가장 최근 보관 기록
+  async getLatestProductArchive(productCode: string) {
+    return await this.archiveRepository.findOne({
+      where: { productCode, restoredAt: IsNull() },
+      order: { archivedAt: 'DESC' },
+    });
+  }
+
+  async markProductArchiveRestored(id: number) {
+    return await this.archiveRepository.update({ id }, { restoredAt: new Date() });
+  }
 }
@@ -1,23 +1,23 @@
-import { CronType } from '@daechanjo/models';
-import { Controller } from '@nestjs/common';
+import {
+  RabbitMQAuditInterceptor,
+  RabbitMQDispatcher,
+  RabbitMQResponseInterceptor,
+} from '@daechanjo/rabbitmq';
+import { Controller, UseInterceptors } from '@nestjs/common';
 import { MessagePattern } from '@nestjs/microservices';
 
 import { OrderService } from '../core/order.service';
 
 @Controller()
 export class OrderController {
-  constructor(private readonly orderService: OrderService) {}
+  constructor(
+    private readonly orderService: OrderService,
+    private readonly rabbitmqDispatcher: RabbitMQDispatcher,
+  ) {}
 
   @MessagePattern('order-queue')
+  @UseInterceptors(RabbitMQResponseInterceptor, RabbitMQAuditInterceptor)
   async handlePriceMessage(message: any) {
-    const { pattern, payload } = message;
-    console.log(`${payload.type}${payload.cronId}: 📥${pattern}`);
-    switch (pattern) {
-      default:
-        console.error(
-          `${CronType.ERROR}${payload.type}${payload.cronId}: 📥알 수 없는 패턴 유형 ${pattern}`,
-        );
-        return { status: 'error', message: `알 수 없는 패턴 유형: ${pattern}` };
-    }
+    return await this.rabbitmqDispatcher.dispatch('order-queue', message);
   }
 }
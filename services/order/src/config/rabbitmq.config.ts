@@ -0,0 +1,14 @@
+import { RabbitMQModuleOptions } from '@daechanjo/rabbitmq';
+
+export const rabbitmqConfig: RabbitMQModuleOptions = {
+  serviceName: 'order',
+  patterns: {
+    'coupang-queue': {
+      getCoupangOrderList: { timeout: 60 * 1000, retries: 2 },
+    },
+    'onch-queue': {
+      // 재시도 시 중복 발주가 발생하므로 재시도하지 않음
+      automaticOrdering: { timeout: 30 * 60 * 1000, retries: 0 },
+    },
+  },
+};
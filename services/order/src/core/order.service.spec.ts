@@ -0,0 +1,117 @@
+import { OrderService } from './order.service';
+
+describe('OrderService', () => {
+  const orders = [
+    {
+      orderId: 1,
+      shipmentBoxId: 101,
+      orderItems: [
+        { vendorItemId: 1001, sellerProductName: 'CH0000001 상품 A' },
+        { vendorItemId: 1002, sellerProductName: 'CH0000002 상품 B' },
+      ],
+    },
+    {
+      orderId: 2,
+      shipmentBoxId: 102,
+      orderItems: [{ vendorItemId: 1003, sellerProductName: 'CH0000003 상품 C' }],
+    },
+  ];
+
+  const cancelRequest = (receiptStatus: string, shipmentBoxId: number, vendorItemId: number) => ({
+    receiptId: shipmentBoxId * 10,
+    orderId: shipmentBoxId - 100,
+    receiptType: 'CANCEL',
+    receiptStatus,
+    returnItems: [{ shipmentBoxId, vendorItemId, cancelCount: 1 }],
+  });
+
+  let rabbitmqService: { send: jest.Mock; emit: jest.Mock };
+  let service: OrderService;
+
+  const respond = (cancelRequests: any[]) => {
+    rabbitmqService.send.mockImplementation(async (_queue: string, pattern: string) => {
+      switch (pattern) {
+        case 'getCoupangOrderList':
+          return { status: 'success', data: orders };
+        case 'getCancelRequests':
+          return { status: 'success', data: cancelRequests };
+        case 'automaticOrdering':
+          return { status: 'success', data: [] };
+      }
+    });
+  };
+
+  const orderedProducts = () =>
+    rabbitmqService.send.mock.calls.find(([, pattern]) => pattern === 'automaticOrdering')?.[2]
+      .newOrderProducts;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+
+    rabbitmqService = { send: jest.fn(), emit: jest.fn().mockResolvedValue(undefined) };
+    const configService = { get: jest.fn((key: string) => `${key}-value`) };
+
+    service = new OrderService(configService as any, rabbitmqService as any, {} as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const run = async () => {
+    const promise = service.orderManagement('ORDER', 'cron-1');
+    await jest.runAllTimersAsync();
+    await promise;
+  };
+
+  it('주문의 일부 상품만 취소되면 나머지 상품은 발주한다', async () => {
+    respond([cancelRequest('RELEASE_STOP_UNCHECKED', 101, 1002)]);
+
+    await run();
+
+    expect(orderedProducts()).toEqual([
+      { ...orders[0], orderItems: [orders[0].orderItems[0]] },
+      orders[1],
+    ]);
+    expect(rabbitmqService.emit).toHaveBeenCalledWith('coupang-queue', 'acknowledgeOrders', {
+      cronId: 'cron-1',
+      type: expect.any(String),
+      vendorId: 'COUPANG_VENDOR_ID-value',
+      shipmentBoxIds: [101, 102],
+    });
+  });
+
+  it('모든 상품이 취소된 배송번호는 발주하지 않고 상품준비중으로 변경하지 않는다', async () => {
+    respond([cancelRequest('RELEASE_STOP_UNCHECKED', 102, 1003)]);
+
+    await run();
+
+    expect(orderedProducts()).toEqual([orders[0]]);
+    expect(rabbitmqService.emit).toHaveBeenCalledWith(
+      'coupang-queue',
+      'acknowledgeOrders',
+      expect.objectContaining({ shipmentBoxIds: [101] }),
+    );
+  });
+
+  it('처리되지 않은 출고중지요청만 발주에서 제외한다', async () => {
+    respond([cancelRequest('RETURNS_COMPLETED', 102, 1003)]);
+
+    await run();
+
+    expect(orderedProducts()).toEqual(orders);
+  });
+
+  it('발주할 상품이 없으면 상품준비중 처리와 발주를 하지 않는다', async () => {
+    respond([
+      cancelRequest('RELEASE_STOP_UNCHECKED', 101, 1001),
+      cancelRequest('RELEASE_STOP_UNCHECKED', 101, 1002),
+      cancelRequest('RELEASE_STOP_UNCHECKED', 102, 1003),
+    ]);
+
+    await run();
+
+    expect(orderedProducts()).toBeUndefined();
+    expect(rabbitmqService.emit).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,5 @@
-import { CoupangOrder, CronType } from '@daechanjo/models';
-import { RabbitMQService } from '@daechanjo/rabbitmq';
+import { CoupangOrderInfo, CronType } from '@daechanjo/models';
+import { CoupangReturnRequest, RabbitMQService, runWithTraceContext } from '@daechanjo/rabbitmq';
 import { UtilService } from '@daechanjo/util';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -18,7 +18,7 @@ export class OrderService {
     const today = moment().format('YYYY-MM-DD');
     const yesterday = moment().subtract(1, 'days').format('YYYY-MM-DD');
 
-    const newOrderProducts: CoupangOrder = await this.rabbitmqService.send(
+    const newOrderProducts = await this.rabbitmqService.send(
       'coupang-queue',
       'getCoupangOrderList',
       {
@@ -36,18 +36,43 @@ export class OrderService {
       return;
     }
 
+    // 주문 조회 이후 고객이 취소한 주문은 발주하지 않음
+    const cancelRequests = await this.rabbitmqService.send('coupang-queue', 'getCancelRequests', {
+      cronId: cronId,
+      type: CronType.ORDER,
+      vendorId: this.configService.get<string>('COUPANG_VENDOR_ID')!,
+      createdAtFrom: yesterday,
+      createdAtTo: today,
+    });
+
+    const orderProducts = this.excludeCancelledItems(newOrderProducts.data, cancelRequests.data);
+    const orderItemCount = (orders: CoupangOrderInfo[]) =>
+      orders.reduce((count, order) => count + order.orderItems.length, 0);
+    const excludedCount = orderItemCount(newOrderProducts.data) - orderItemCount(orderProducts);
+
+    if (excludedCount > 0) {
+      console.log(`${type}${cronId}: 취소 요청된 상품 ${excludedCount}건 발주 제외`);
+    }
+
+    if (orderProducts.length <= 0) {
+      console.log(`${type}${cronId}: 발주할 주문이 없습니다.`);
+      return;
+    }
+
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
-    // 새로운 모든 주문 상품준비중 처리
-    await this.rabbitmqService.emit('coupang-queue', 'orderStatusUpdate', {
+    // 발주할 배송번호만 상품준비중 처리 (취소 요청된 상품만 남은 배송번호는 제외)
+    await this.rabbitmqService.emit('coupang-queue', 'acknowledgeOrders', {
       cronId: cronId,
       type: CronType.ORDER,
+      vendorId: this.configService.get<string>('COUPANG_VENDOR_ID')!,
+      shipmentBoxIds: [...new Set(orderProducts.map((order) => order.shipmentBoxId))],
     });
 
     const result = await this.rabbitmqService.send('onch-queue', 'automaticOrdering', {
       cronId: cronId,
       store: this.configService.get<string>('STORE'),
-      newOrderProducts: newOrderProducts.data,
+      newOrderProducts: orderProducts,
       type: CronType.ORDER,
     });
 
@@ -90,6 +115,40 @@ export class OrderService {
     }
   }
 
+  /**
+   * 발주서에서 출고중지 요청된 상품을 제외
+   *
+   * @param orders - 결제완료 발주서 목록
+   * @param cancelRequests - 취소 요청 목록
+   * @returns 취소 요청된 상품을 뺀 발주서 목록 (남은 상품이 없는 발주서는 제외)
+   *
+   * @description
+   * 하나의 주문에 여러 상품이 있을 수 있으므로 주문번호가 아닌 배송번호와 옵션 ID 로 비교하며,
+   * 아직 처리되지 않은 출고중지요청(RELEASE_STOP_UNCHECKED)만 대상으로 합니다.
+   * 철회되거나 이미 완료된 접수는 발주를 막지 않습니다.
+   */
+  private excludeCancelledItems(
+    orders: CoupangOrderInfo[],
+    cancelRequests: CoupangReturnRequest[],
+  ): CoupangOrderInfo[] {
+    const cancelledItems = new Set(
+      cancelRequests
+        .filter((request) => request.receiptStatus === 'RELEASE_STOP_UNCHECKED')
+        .flatMap((request) =>
+          request.returnItems.map((item) => `${item.shipmentBoxId}:${item.vendorItemId}`),
+        ),
+    );
+
+    return orders
+      .map((order) => ({
+        ...order,
+        orderItems: order.orderItems.filter(
+          (item) => !cancelledItems.has(`${order.shipmentBoxId}:${item.vendorItemId}`),
+        ),
+      }))
+      .filter((order) => order.orderItems.length > 0);
+  }
+
   @Cron('0 */5 * * * *')
   async orderCron() {
     const cronId = this.utilService.generateCronId();
@@ -97,7 +156,7 @@ export class OrderService {
       const nowTime = moment().format('HH:mm:ss');
       console.log(`${CronType.ORDER}${cronId}-${nowTime}: 자동 발주 시작`);
 
-      await this.orderManagement(CronType.ORDER, cronId);
+      await runWithTraceContext(() => this.orderManagement(CronType.ORDER, cronId), cronId);
     } catch (error: any) {
       console.error(`${CronType.ERROR}${CronType.ORDER}${cronId}: `, error);
 
@@ -1,17 +1,20 @@
 import { PlaywrightModule } from '@daechanjo/playwright';
-import { RabbitMQModule } from '@daechanjo/rabbitmq';
+import { RabbitMQApprovalModule, RabbitMQAuditModule, RabbitMQModule } from '@daechanjo/rabbitmq';
 import { UtilModule } from '@daechanjo/util';
 import { Module, OnApplicationBootstrap } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConditionalModule, ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RedisModule } from '@nestjs-modules/ioredis';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 
+import { rabbitmqConfig } from './config/rabbitmq.config';
 import { redisConfig } from './config/redis.config';
 import { TypeormConfig } from './config/typeorm.config';
 import { SoldoutService } from './core/soldout.service';
+import { SoldoutStoppedProductEntity } from './infrastructure/entities/soldoutStoppedProduct.entity';
+import { SoldoutRepository } from './infrastructure/repository/soldout.repository';
 
 @Module({
   imports: [
@@ -21,15 +24,18 @@ import { SoldoutService } from './core/soldout.service';
       envFilePath: '/Users/daechanjo/codes/project/auto-store/.env',
     }),
     TypeOrmModule.forRootAsync(TypeormConfig),
+    TypeOrmModule.forFeature([SoldoutStoppedProductEntity]),
     RedisModule.forRootAsync({
       useFactory: () => redisConfig,
     }),
     UtilModule,
     PlaywrightModule,
-    RabbitMQModule,
+    RabbitMQModule.forRoot(rabbitmqConfig),
+    ConditionalModule.registerWhen(RabbitMQAuditModule, 'RABBITMQ_AUDIT_ENABLED'),
+    RabbitMQApprovalModule,
   ],
   controllers: [],
-  providers: [SoldoutService],
+  providers: [SoldoutService, SoldoutRepository],
 })
 export class AppModule implements OnApplicationBootstrap {
   constructor(
@@ -42,6 +48,7 @@ export class AppModule implements OnApplicationBootstrap {
     setTimeout(async () => {});
     const rockKey = `lock:soldout:${this.configService.get<string>('STORE')}`;
     await this.redis.del(rockKey);
+    await this.redis.del(`lock:restock:${this.configService.get<string>('STORE')}`);
     // await this.soldoutService.soldOutCron();
   }
 }
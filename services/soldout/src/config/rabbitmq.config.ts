@@ -0,0 +1,17 @@
+import { RabbitMQModuleOptions } from '@daechanjo/rabbitmq';
+
+export const rabbitmqConfig: RabbitMQModuleOptions = {
+  serviceName: 'soldout',
+  patterns: {
+    'onch-queue': {
+      crawlingOnchSoldoutProducts: { timeout: 30 * 60 * 1000, retries: 0 },
+      checkProductStock: { timeout: 30 * 60 * 1000, retries: 0 },
+    },
+    'coupang-queue': {
+      getProductListPaging: { timeout: 5 * 60 * 1000, retries: 2 },
+      stopSaleForMatchedProducts: { timeout: 30 * 60 * 1000, retries: 0 },
+      deleteProducts: { timeout: 30 * 60 * 1000, retries: 0 },
+      resumeSaleForMatchedProducts: { timeout: 30 * 60 * 1000, retries: 0 },
+    },
+  },
+};
@@ -0,0 +1,206 @@
+import { DestructiveRunResult } from '@daechanjo/rabbitmq';
+
+import { SoldoutService } from './soldout.service';
+
+describe('SoldoutService', () => {
+  const soldoutProductCodes = ['CH0000001'];
+  const coupangProducts = [
+    { sellerProductId: 1001, sellerProductName: 'CH0000001 품절 상품' },
+    { sellerProductId: 1002, sellerProductName: 'CH0000002 판매 상품' },
+  ] as any[];
+
+  const executed: DestructiveRunResult = {
+    status: 'executed',
+    plan: {
+      action: 'soldout:deleteMatchProducts',
+      items: [{ id: 1001, name: 'CH0000001 품절 상품' }],
+      catalogSize: 2,
+    },
+  };
+
+  let rabbitmqService: { send: jest.Mock; emit: jest.Mock };
+  let configService: { get: jest.Mock };
+  let approvalService: { guard: jest.Mock };
+  let soldoutRepository: {
+    saveStoppedProducts: jest.Mock;
+    getStoppedProductsBySellerProductIds: jest.Mock;
+  };
+  let service: SoldoutService;
+
+  beforeEach(() => {
+    rabbitmqService = {
+      // 쿠팡 서비스의 응답 봉투 ({ status, data }) 형태로 응답
+      send: jest.fn().mockResolvedValue({ status: 'success', data: executed }),
+      emit: jest.fn().mockResolvedValue(undefined),
+    };
+    configService = { get: jest.fn((key: string) => (key === 'STORE' ? 'test-store' : undefined)) };
+    approvalService = { guard: jest.fn().mockResolvedValue(executed) };
+    // 저장한 중지 상품을 다음 조회에서 돌려주는 저장소
+    const stoppedProducts: any[] = [];
+    soldoutRepository = {
+      saveStoppedProducts: jest.fn(async (products) => {
+        stoppedProducts.push(...products);
+        return products;
+      }),
+      getStoppedProductsBySellerProductIds: jest.fn(async (ids: string[]) =>
+        stoppedProducts.filter((product) => ids.includes(product.sellerProductId)),
+      ),
+    };
+
+    service = new SoldoutService(
+      {} as any,
+      rabbitmqService as any,
+      configService as any,
+      approvalService as any,
+      soldoutRepository as any,
+      {} as any,
+    );
+  });
+
+  describe('deleteMatchProducts', () => {
+    it('쿠팡 판매 중지 / 삭제 후 온채널 삭제까지 요청한다', async () => {
+      const result = await service.deleteMatchProducts(
+        'cron-1',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+      );
+
+      expect(result).toBe(executed);
+      expect(rabbitmqService.send).toHaveBeenCalledWith(
+        'coupang-queue',
+        'stopSaleForMatchedProducts',
+        expect.objectContaining({ matchedProducts: [coupangProducts[0]], catalogSize: 2 }),
+      );
+      expect(rabbitmqService.send).toHaveBeenCalledWith(
+        'coupang-queue',
+        'deleteProducts',
+        expect.objectContaining({ matchedProducts: [coupangProducts[0]], catalogSize: 2 }),
+      );
+      expect(rabbitmqService.emit).toHaveBeenCalledWith(
+        'onch-queue',
+        'deleteProducts',
+        expect.objectContaining({ matchedCoupangProducts: [coupangProducts[0]] }),
+      );
+    });
+
+    it('쿠팡 삭제가 보류되면 온채널 삭제를 요청하지 않는다', async () => {
+      rabbitmqService.send
+        .mockResolvedValueOnce({ status: 'success', data: executed })
+        .mockResolvedValueOnce({ status: 'success', data: { ...executed, status: 'held' } });
+
+      const result = await service.deleteMatchProducts(
+        'cron-1',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+      );
+
+      expect(result?.status).toBe('held');
+      expect(rabbitmqService.emit).not.toHaveBeenCalled();
+    });
+
+    it('dry-run 이면 하위 서비스에 요청하지 않는다', async () => {
+      approvalService.guard.mockResolvedValueOnce({ ...executed, status: 'dry-run' });
+
+      const result = await service.deleteMatchProducts(
+        'cron-1',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+        { dryRun: true },
+      );
+
+      expect(result?.status).toBe('dry-run');
+      expect(rabbitmqService.send).not.toHaveBeenCalled();
+      expect(rabbitmqService.emit).not.toHaveBeenCalled();
+    });
+
+    it('SOLDOUT_MODE=stop 이면 판매 중지만 하고 중지 상품을 기록한다', async () => {
+      configService.get.mockImplementation((key: string) =>
+        key === 'SOLDOUT_MODE' ? 'stop' : 'test-store',
+      );
+
+      await service.deleteMatchProducts(
+        'cron-1',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+      );
+
+      expect(rabbitmqService.send).toHaveBeenCalledTimes(1);
+      expect(soldoutRepository.saveStoppedProducts).toHaveBeenCalledWith([
+        expect.objectContaining({ productCode: 'CH0000001', sellerProductId: '1001' }),
+      ]);
+      expect(rabbitmqService.emit).not.toHaveBeenCalled();
+    });
+
+    it('SOLDOUT_MODE=stop 이면 이미 중지된 상품은 다시 중지하거나 안전 기준에 세지 않는다', async () => {
+      configService.get.mockImplementation((key: string) =>
+        key === 'SOLDOUT_MODE' ? 'stop' : 'test-store',
+      );
+
+      await service.deleteMatchProducts(
+        'cron-1',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+      );
+      approvalService.guard.mockClear();
+      rabbitmqService.send.mockClear();
+
+      const result = await service.deleteMatchProducts(
+        'cron-2',
+        'test-store',
+        soldoutProductCodes,
+        coupangProducts,
+      );
+
+      expect(result).toBeUndefined();
+      expect(approvalService.guard).not.toHaveBeenCalled();
+      expect(rabbitmqService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restockCron', () => {
+    let redis: { set: jest.Mock; del: jest.Mock };
+
+    beforeEach(() => {
+      redis = { set: jest.fn(), del: jest.fn().mockResolvedValue(1) };
+      service = new SoldoutService(
+        { generateCronId: () => 'cron-1' } as any,
+        rabbitmqService as any,
+        configService as any,
+        approvalService as any,
+        soldoutRepository as any,
+        redis as any,
+      );
+      jest.spyOn(service, 'restockProductsManagement').mockResolvedValue(undefined);
+    });
+
+    it('만료 시간을 둔 NX 잠금을 얻으면 실행 후 잠금을 해제한다', async () => {
+      redis.set.mockResolvedValue('OK');
+
+      await service.restockCron();
+
+      expect(redis.set).toHaveBeenCalledWith(
+        'lock:restock:test-store',
+        'run',
+        'EX',
+        expect.any(Number),
+        'NX',
+      );
+      expect(service.restockProductsManagement).toHaveBeenCalledWith('cron-1');
+      expect(redis.del).toHaveBeenCalledWith('lock:restock:test-store');
+    });
+
+    it('이미 잠겨 있으면 실행하지 않고 다른 작업의 잠금을 해제하지 않는다', async () => {
+      redis.set.mockResolvedValue(null);
+
+      await service.restockCron();
+
+      expect(service.restockProductsManagement).not.toHaveBeenCalled();
+      expect(redis.del).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,12 @@
 import { CronType, CoupangPagingProduct } from '@daechanjo/models';
-import { RabbitMQService } from '@daechanjo/rabbitmq';
+import {
+  DestructiveOptions,
+  DestructiveRunResult,
+  RabbitMQApprovalService,
+  RabbitMQService,
+  SelectorHealthReport,
+  runWithTraceContext,
+} from '@daechanjo/rabbitmq';
 import { UtilService } from '@daechanjo/util';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -7,12 +14,19 @@ import { Cron } from '@nestjs/schedule';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
 
+import { SoldoutRepository } from '../infrastructure/repository/soldout.repository';
+
+// 재입고 확인 잠금 만료 시간 (크론 주기 1시간 안에 풀리도록 설정)
+const RESTOCK_LOCK_TTL_SECONDS = 55 * 60;
+
 @Injectable()
 export class SoldoutService {
   constructor(
     private readonly utilService: UtilService,
     private readonly rabbitmqService: RabbitMQService,
     private readonly configService: ConfigService,
+    private readonly approvalService: RabbitMQApprovalService,
+    private readonly soldoutRepository: SoldoutRepository,
     @InjectRedis() private readonly redis: Redis,
   ) {}
 
@@ -32,7 +46,7 @@ export class SoldoutService {
     }
 
     console.log(
-      `${CronType.SOLDOUT}${cronId}: 온채널 품절 상품\n${response.data.stockProductCodes}`,
+      `${CronType.SOLDOUT}${cronId}: 온채널 품절 상품\n${response.data.soldoutProductCodes}`,
     );
 
     console.log(`${CronType.SOLDOUT}${cronId}: 쿠팡 판매 상품 리스트업...`);
@@ -59,16 +73,40 @@ export class SoldoutService {
       response.data.soldoutProductCodes,
       coupangProducts.data,
       // naverProducts.data,
+      // SOLDOUT_DRY_RUN=true 이면 삭제하지 않고 매칭 결과만 기록
+      { dryRun: this.configService.get<string>('SOLDOUT_DRY_RUN') === 'true' },
     );
   }
 
+  /**
+   * 온채널 품절 상품과 일치하는 쿠팡 상품을 판매 중지 / 삭제하고 온채널 등록 상품을 삭제합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   * @param store - 삭제 작업을 수행할 스토어 이름
+   * @param soldoutProductCodes - 온채널 품절 상품 코드 목록
+   * @param coupangProducts - 쿠팡 판매 상품 전체 목록
+   * @param options - dry-run 여부
+   *
+   * @returns 삭제 계획과 실행 여부 (매치된 상품이 없으면 undefined)
+   *
+   * @description
+   * 1. 쿠팡 상품명의 온채널 상품 코드(CH0000000)로 품절 상품 매칭
+   *    SOLDOUT_MODE=stop 이면 이미 판매 중지되어 재개를 기다리는 상품은 제외
+   * 2. 매칭 결과를 안전 기준(최대 삭제 수 / 전체 상품 대비 비율)과 비교
+   *    - dry-run 이면 계획만 반환
+   *    - 기준을 넘으면 승인 대기로 보관하고 관리자에게 메일 발송 (승인 후 다음 실행에서 삭제)
+   * 3. 실행 가능하면 쿠팡 판매 중지 → 쿠팡 삭제 → 온채널 삭제 순서로 요청
+   *    (하위 서비스에는 승인 번호와 전체 상품 수를 전달하여 같은 계획을 다시 보류하지 않도록 함)
+   *    SOLDOUT_MODE=stop 이면 판매 중지까지만 진행하고, 재입고 확인 크론이 판매를 재개할 수 있도록 중지 상품을 기록
+   */
   async deleteMatchProducts(
     cronId: string,
     store: string,
     soldoutProductCodes: string[],
     coupangProducts: CoupangPagingProduct[],
     // naverProducts: any[],
-  ) {
+    options: Pick<DestructiveOptions, 'dryRun'> = {},
+  ): Promise<DestructiveRunResult | undefined> {
     console.log(`${CronType.SOLDOUT}${cronId}: 품절 상품 매칭...`);
 
     const type = CronType.SOLDOUT;
@@ -79,13 +117,19 @@ export class SoldoutService {
     if (!isCoupangProductsValid)
       console.log(`${type}${cronId}: 쿠팡 상품 데이터가 유효하지 않거나 비어 있습니다.`);
 
-    const matchedCoupangProducts = isCoupangProductsValid
+    const matchedProducts = isCoupangProductsValid
       ? coupangProducts.filter((product) => {
           const extractedCode = product?.sellerProductName?.match(/(CH\d{7})/)?.[0] || '';
           return soldoutProductCodes.includes(extractedCode);
         })
       : [];
 
+    // 판매 중지 모드에서는 이미 중지되어 재입고를 기다리는 상품을 다시 중지하거나 안전 기준에 세지 않음
+    const matchedCoupangProducts =
+      this.configService.get<string>('SOLDOUT_MODE') === 'stop'
+        ? await this.excludeStoppedProducts(cronId, matchedProducts)
+        : matchedProducts;
+
     // const matchedNaverProducts = isNaverProductsValid
     //   ? naverProducts.filter((product) => {
     //       return productCodes.stockProductCodes.includes(product.sellerManagementCode);
@@ -103,19 +147,70 @@ export class SoldoutService {
     // if (matchedCoupangProducts.length === 0 && matchedNaverProducts.length === 0) return;
 
     if (matchedCoupangProducts.length > 0) {
-      console.log(`${type}${cronId}: 쿠팡 품절 상품 ${matchedCoupangProducts.length}개 정지 시작`);
-      await this.rabbitmqService.send('coupang-queue', 'stopSaleForMatchedProducts', {
-        cronId: cronId,
-        type: CronType.SOLDOUT,
-        matchedProducts: matchedCoupangProducts,
+      const result = await this.approvalService.guard({
+        action: 'soldout:deleteMatchProducts',
+        cronId,
+        type,
+        store,
+        items: matchedCoupangProducts.map((product) => ({
+          id: product.sellerProductId,
+          name: product.sellerProductName,
+        })),
+        catalogSize: coupangProducts.length,
+        options,
       });
 
+      if (result.status !== 'executed') {
+        console.log(
+          `${type}${cronId}: 품절 상품 ${matchedCoupangProducts.length}개 삭제 보류 (${result.status})${result.reason ? ` - ${result.reason}` : ''}`,
+        );
+        return result;
+      }
+
+      const downstream = { approvalId: result.approvalId, catalogSize: coupangProducts.length };
+
+      console.log(`${type}${cronId}: 쿠팡 품절 상품 ${matchedCoupangProducts.length}개 정지 시작`);
+      const stopSale = await this.rabbitmqService.send(
+        'coupang-queue',
+        'stopSaleForMatchedProducts',
+        {
+          cronId: cronId,
+          type: CronType.SOLDOUT,
+          matchedProducts: matchedCoupangProducts,
+          ...downstream,
+        },
+      );
+      if (stopSale.data.status !== 'executed') {
+        console.warn(`${type}${cronId}: 쿠팡 판매 중지 보류 (${stopSale.data.status})`);
+        return stopSale.data;
+      }
+
+      if (this.configService.get<string>('SOLDOUT_MODE') === 'stop') {
+        await this.soldoutRepository.saveStoppedProducts(
+          matchedCoupangProducts.map((product) => ({
+            productCode: product.sellerProductName.match(/CH\d{7}/)![0],
+            sellerProductId: String(product.sellerProductId),
+            sellerProductName: product.sellerProductName,
+            cronId,
+          })),
+        );
+        console.log(
+          `${type}${cronId}: 쿠팡 품절 상품 ${matchedCoupangProducts.length}개 판매 중지 기록 (재입고 시 판매 재개)`,
+        );
+        return result;
+      }
+
       console.log(`${type}${cronId}: 쿠팡 품절 상품 ${matchedCoupangProducts.length}개 삭제 시작`);
-      await this.rabbitmqService.send('coupang-queue', 'deleteProducts', {
+      const deleted = await this.rabbitmqService.send('coupang-queue', 'deleteProducts', {
         cronId: cronId,
         type: CronType.SOLDOUT,
         matchedProducts: matchedCoupangProducts,
+        ...downstream,
       });
+      if (deleted.data.status !== 'executed') {
+        console.warn(`${type}${cronId}: 쿠팡 상품 삭제 보류 (${deleted.data.status})`);
+        return deleted.data;
+      }
 
       console.log(`${type}${cronId}: 온채널 등록 상품 삭제`);
       await this.rabbitmqService.emit('onch-queue', 'deleteProducts', {
@@ -124,7 +219,10 @@ export class SoldoutService {
         type: CronType.SOLDOUT,
         matchedCoupangProducts: matchedCoupangProducts,
         // matchedNaverProducts: matchedNaverProducts,
+        ...downstream,
       });
+
+      return result;
     }
 
     // if (matchedNaverProducts.length > 0) {
@@ -139,6 +237,20 @@ export class SoldoutService {
     // }
   }
 
+  private async excludeStoppedProducts(
+    cronId: string,
+    products: CoupangPagingProduct[],
+  ): Promise<CoupangPagingProduct[]> {
+    const stopped = await this.soldoutRepository.getStoppedProductsBySellerProductIds(
+      products.map((product) => String(product.sellerProductId)),
+    );
+    if (stopped.length === 0) return products;
+
+    const stoppedIds = new Set(stopped.map((product) => product.sellerProductId));
+    console.log(`${CronType.SOLDOUT}${cronId}: 이미 판매 중지된 상품 ${stoppedIds.size}개 제외`);
+    return products.filter((product) => !stoppedIds.has(String(product.sellerProductId)));
+  }
+
   @Cron('0 */10 * * * *')
   async soldOutCron() {
     const cronId = this.utilService.generateCronId();
@@ -149,7 +261,7 @@ export class SoldoutService {
 
       if (rock) {
         console.log(`${CronType.SOLDOUT}${cronId}: 품절상품 삭제 크론 시작`);
-        await this.soldoutProductsManagement(cronId);
+        await runWithTraceContext(() => this.soldoutProductsManagement(cronId), cronId);
       } else {
         console.log(`${CronType.SOLDOUT}${cronId}: 이 전 작업이 아직 진행중입니다.`);
       }
@@ -160,4 +272,182 @@ export class SoldoutService {
       console.log(`${CronType.SOLDOUT}${cronId}: 품절상품 삭제 작업 종료`);
     }
   }
+
+  /**
+   * 품절로 판매 중지한 상품의 온채널 재고를 다시 확인하고, 재입고된 상품의 쿠팡 판매를 재개합니다.
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   *
+   * @description
+   * 1. 판매 재개를 기다리는 중지 상품 조회 (SOLDOUT_MODE=stop 으로 기록된 상품)
+   * 2. 온채널 서비스에 상품 코드별 재고 확인 요청
+   * 3. 판매 가능한 상품만 쿠팡 서비스에 판매 재개 요청
+   * 4. 판매를 재개한 상품은 기록을 완료 처리하고 요약 메일 발송
+   *
+   * 재고를 판단하지 못한 상품(available 이 null)은 판매를 재개하지 않고 다음 실행에서 다시 확인합니다.
+   */
+  async restockProductsManagement(cronId: string) {
+    const store = this.configService.get<string>('STORE');
+    const type = CronType.SOLDOUT;
+
+    const stoppedProducts = await this.soldoutRepository.getStoppedProducts();
+    if (stoppedProducts.length === 0) {
+      console.log(`${type}${cronId}: 판매 재개를 기다리는 상품이 없습니다.`);
+      return;
+    }
+
+    console.log(`${type}${cronId}: 판매 중지 상품 ${stoppedProducts.length}개 재고 확인...`);
+    const productCodes = [...new Set(stoppedProducts.map((product) => product.productCode))];
+    const response = await this.rabbitmqService.send('onch-queue', 'checkProductStock', {
+      cronId,
+      store,
+      type,
+      productCodes,
+    });
+    await this.soldoutRepository.markStoppedProductsChecked(
+      stoppedProducts.map((product) => product.id),
+    );
+
+    const missingCodes = response.data
+      .filter((status) => status.available === null)
+      .map((status) => status.productCode);
+    if (missingCodes.length > 0) {
+      console.warn(`${type}${cronId}: 온채널 재고를 확인하지 못한 상품\n${missingCodes}`);
+    }
+
+    const availableCodes = new Set(
+      response.data.filter((status) => status.available).map((status) => status.productCode),
+    );
+    const restockedProducts = stoppedProducts.filter((product) =>
+      availableCodes.has(product.productCode),
+    );
+    if (restockedProducts.length === 0) {
+      console.log(`${type}${cronId}: 재입고된 상품이 없습니다.`);
+      return;
+    }
+
+    console.log(`${type}${cronId}: 재입고 상품 ${restockedProducts.length}개 판매 재개 시작`);
+    const resumed = await this.rabbitmqService.send(
+      'coupang-queue',
+      'resumeSaleForMatchedProducts',
+      {
+        cronId,
+        type,
+        matchedProducts: restockedProducts.map((product) => ({
+          sellerProductId: Number(product.sellerProductId),
+          sellerProductName: product.sellerProductName,
+        })),
+      },
+    );
+
+    const resumedIds = new Set(resumed.data.map((product) => String(product.sellerProductId)));
+    await this.soldoutRepository.markStoppedProductsResumed(
+      restockedProducts
+        .filter((product) => resumedIds.has(product.sellerProductId))
+        .map((product) => product.id),
+    );
+
+    if (resumed.data.length > 0) {
+      await this.rabbitmqService.emit('mail-queue', 'sendResumedProductsEmail', {
+        resumedProducts: resumed.data,
+        type,
+        store,
+        platformName: 'coupang',
+      });
+    }
+  }
+
+  @Cron('0 30 * * * *')
+  async restockCron() {
+    const cronId = this.utilService.generateCronId();
+    const rockKey = `lock:restock:${this.configService.get<string>('STORE')}`;
+    let rock: string | null = null;
+
+    try {
+      // 이전 작업이 비정상 종료되어도 다음 실행이 막히지 않도록 만료 시간을 두고 잠금
+      rock = await this.redis.set(rockKey, 'run', 'EX', RESTOCK_LOCK_TTL_SECONDS, 'NX');
+
+      if (rock) {
+        console.log(`${CronType.SOLDOUT}${cronId}: 재입고 확인 크론 시작`);
+        await runWithTraceContext(() => this.restockProductsManagement(cronId), cronId);
+      } else {
+        console.log(`${CronType.SOLDOUT}${cronId}: 이 전 작업이 아직 진행중입니다.`);
+      }
+    } catch (error) {
+      console.error(`${CronType.ERROR}${CronType.SOLDOUT}${cronId}:`, error);
+    } finally {
+      // 잠금을 얻은 실행만 해제 (진행 중인 작업의 잠금을 지우지 않음)
+      if (rock) await this.redis.del(rockKey);
+      console.log(`${CronType.SOLDOUT}${cronId}: 재입고 확인 작업 종료`);
+    }
+  }
+
+  /**
+   * 쿠팡 윙 / 온채널 크롤러의 셀렉터 상태를 점검하고 깨진 셀렉터를 메일로 알리는 메서드
+   *
+   * @param cronId - 현재 실행 중인 크론 작업의 고유 식별자
+   *
+   * @description
+   * 1. 쿠팡 / 온채널 서비스에 셀렉터 상태 점검 요청
+   * 2. 기본 셀렉터가 깨졌거나(fallback) 어떤 후보로도 찾지 못한(missing) 셀렉터 수집
+   * 3. 깨진 셀렉터가 있으면 에러 메일 발송 (사이트가 개편되어 크롤러가 실패하기 전에 레지스트리 갱신)
+   */
+  async selectorHealthCheck(cronId: string) {
+    const store = this.configService.get<string>('STORE');
+    const type = CronType.SOLDOUT;
+
+    const reports: SelectorHealthReport[] = [];
+    const failures: string[] = [];
+
+    const requests = [
+      () => this.rabbitmqService.send('coupang-queue', 'checkSelectorHealth', { cronId, type }),
+      () => this.rabbitmqService.send('onch-queue', 'checkSelectorHealth', { cronId, store, type }),
+    ];
+
+    // 두 사이트 모두 브라우저를 사용하므로 순차 실행
+    for (const request of requests) {
+      try {
+        const response = await request();
+        reports.push(response.data);
+      } catch (error: any) {
+        failures.push(error.message);
+      }
+    }
+
+    const broken = reports.flatMap((report) => report.broken);
+    if (broken.length === 0 && failures.length === 0) {
+      console.log(`${type}${cronId}: 셀렉터 상태 정상`);
+      return;
+    }
+
+    const message = [
+      ...broken.map(
+        (entry) =>
+          `${entry.key} (${entry.description}): ${entry.status}${entry.matched ? ` → ${entry.matched}` : ''}${entry.error ? ` - ${entry.error}` : ''}`,
+      ),
+      ...failures.map((failure) => `점검 실패: ${failure}`),
+    ].join('\n');
+
+    console.warn(`${type}${cronId}: 셀렉터 점검 결과 문제 발견\n${message}`);
+    await this.rabbitmqService.emit('mail-queue', 'sendErrorMail', {
+      cronType: CronType.SOLDOUT,
+      store,
+      cronId,
+      message: `크롤러 셀렉터 점검 결과 ${broken.length}개 셀렉터에 문제가 있습니다.\n${message}`,
+    });
+  }
+
+  @Cron('0 0 6 * * *')
+  async selectorHealthCron() {
+    const cronId = this.utilService.generateCronId();
+
+    try {
+      console.log(`${CronType.SOLDOUT}${cronId}: 셀렉터 상태 점검 크론 시작`);
+      await runWithTraceContext(() => this.selectorHealthCheck(cronId), cronId);
+    } catch (error) {
+      console.error(`${CronType.ERROR}${CronType.SOLDOUT}${cronId}:`, error);
+    } finally {
+      console.log(`${CronType.SOLDOUT}${cronId}: 셀렉터 상태 점검 종료`);
+    }
+  }
 }
@@ -0,0 +1,39 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 품절로 판매 중지한 쿠팡 상품 (SOLDOUT_MODE=stop)
+ * 재입고 확인 크론이 온채널 재고를 다시 확인하여 판매를 재개하면 resumedAt 을 기록합니다.
+ */
+@Entity({ name: 'soldout_stopped_product' })
+export class SoldoutStoppedProductEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /** 상품명의 온채널 상품 코드 (CH0000000) */
+  @Index()
+  @Column({ name: 'product_code', type: 'varchar', length: 255 })
+  productCode: string;
+
+  @Column({ name: 'seller_product_id', type: 'varchar', length: 255 })
+  sellerProductId: string;
+
+  @Column({ name: 'seller_product_name', type: 'varchar', length: 255, nullable: true })
+  sellerProductName: string;
+
+  @Column({ name: 'cron_id', type: 'varchar', length: 255, nullable: true })
+  cronId: string;
+
+  /** 판매 중지를 실행한 크론 흐름의 추적 ID (로그 / 감사 기록과 연결) */
+  @Index()
+  @Column({ name: 'correlation_id', type: 'varchar', length: 255, nullable: true })
+  correlationId: string;
+
+  @Column({ name: 'last_checked_at', type: 'timestamp', nullable: true })
+  lastCheckedAt: Date;
+
+  @Column({ name: 'resumed_at', type: 'timestamp', nullable: true })
+  resumedAt: Date;
+
+  @CreateDateColumn({ name: 'stopped_at' })
+  stoppedAt: Date;
+}
@@ -0,0 +1,55 @@
+import { getTraceContext } from '@daechanjo/rabbitmq';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+
+import { SoldoutStoppedProductEntity } from '../entities/soldoutStoppedProduct.entity';
+
+export class SoldoutRepository {
+  constructor(
+    @InjectRepository(SoldoutStoppedProductEntity)
+    private readonly stoppedProductRepository: Repository<SoldoutStoppedProductEntity>,
+  ) {}
+
+  // 이미 판매 재개를 기다리는 상품은 다시 기록하지 않음
+  async saveStoppedProducts(products: Partial<SoldoutStoppedProductEntity>[]) {
+    const existing = await this.getStoppedProductsBySellerProductIds(
+      products.map((product) => product.sellerProductId!),
+    );
+    const existingIds = new Set(existing.map((product) => product.sellerProductId));
+
+    const correlationId = getTraceContext()?.correlationId;
+    return await this.stoppedProductRepository.save(
+      products
+        .filter((product) => !existingIds.has(product.sellerProductId!))
+        .map((product) => ({ correlationId: correlationId ?? product.cronId, ...product })),
+    );
+  }
+
+  // 주어진 쿠팡 상품 중 판매 중지되어 재개를 기다리는 상품
+  async getStoppedProductsBySellerProductIds(sellerProductIds: string[]) {
+    if (sellerProductIds.length === 0) return [];
+    return await this.stoppedProductRepository.find({
+      where: { sellerProductId: In(sellerProductIds), resumedAt: IsNull() },
+    });
+  }
+
+  async getStoppedProducts() {
+    return await this.stoppedProductRepository.find({
+      where: { resumedAt: IsNull() },
+      order: { stoppedAt: 'ASC' },
+    });
+  }
+
+  async markStoppedProductsChecked(ids: number[]) {
+    if (ids.length === 0) return;
+    return await this.stoppedProductRepository.update(
+      { id: In(ids) },
+      { lastCheckedAt: new Date() },
+    );
+  }
+
+  async markStoppedProductsResumed(ids: number[]) {
+    if (ids.length === 0) return;
+    return await this.stoppedProductRepository.update({ id: In(ids) }, { resumedAt: new Date() });
+  }
+}